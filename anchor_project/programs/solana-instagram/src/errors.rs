@@ -29,4 +29,26 @@ pub enum InstagramError {
     CannotFollowSelf,
     #[msg("Unauthorized")]
     Unauthorized,
+    #[msg("Reaction type unchanged")]
+    ReactionUnchanged,
+    #[msg("Handle is already taken")]
+    HandleTaken,
+    #[msg("Handle record account is required to change the handle")]
+    MissingHandleRecord,
+    #[msg("Parent comment does not match")]
+    InvalidParentComment,
+    #[msg("Content unchanged")]
+    ContentUnchanged,
+    #[msg("Post still exists")]
+    PostStillExists,
+    #[msg("New authority must be a different wallet")]
+    InvalidNewAuthority,
+    #[msg("Wallet already has a profile")]
+    AuthorityHasProfile,
+    #[msg("Comment still exists")]
+    CommentStillExists,
+    #[msg("Parent comment account is required to delete a reply")]
+    MissingParentComment,
+    #[msg("Profile can't be closed in the slot it was created in")]
+    ProfileTooNew,
 }
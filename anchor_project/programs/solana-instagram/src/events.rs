@@ -0,0 +1,67 @@
+use anchor_lang::prelude::*;
+
+use crate::states::ReactionType;
+
+
+// Logged by the handlers so clients can follow activity without re-scanning
+// every account. Each event names the accounts involved; clients fetch them
+// for anything else.
+
+#[event]
+pub struct ProfileCreated {
+    pub profile: Pubkey,
+    pub authority: Pubkey,
+    pub handle: String,
+    pub created_at: u64,
+}
+
+#[event]
+pub struct PostCreated {
+    pub post: Pubkey,
+    pub profile: Pubkey,
+    pub creator: Pubkey,
+    pub created_at: u64,
+}
+
+#[event]
+pub struct PostDeleted {
+    pub post: Pubkey,
+    pub profile: Pubkey,
+}
+
+// Emitted for replies too, with `parent` set
+#[event]
+pub struct CommentAdded {
+    pub comment: Pubkey,
+    pub post: Pubkey,
+    pub comment_by: Pubkey,
+    pub parent: Option<Pubkey>,
+    pub created_at: u64,
+}
+
+#[event]
+pub struct ReactionAdded {
+    pub reaction: Pubkey,
+    pub post: Pubkey,
+    pub reaction_by: Pubkey,
+    pub reaction_type: ReactionType,
+}
+
+#[event]
+pub struct Followed {
+    pub follow: Pubkey,
+    pub follower: Pubkey,
+    pub follower_profile: Pubkey,
+    pub following_profile: Pubkey,
+    pub created_at: u64,
+}
+
+// Emitted both when the follower unfollows and when the followed profile
+// removes them; `follower_profile` may already be closed in the latter case
+#[event]
+pub struct Unfollowed {
+    pub follow: Pubkey,
+    pub follower: Pubkey,
+    pub follower_profile: Pubkey,
+    pub following_profile: Pubkey,
+}
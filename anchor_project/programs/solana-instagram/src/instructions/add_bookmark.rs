@@ -0,0 +1,35 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+
+
+// Save a post. Bookmarks don't touch the post, so they aren't counted anywhere.
+pub fn add_bookmark(ctx: Context<AddBookmark>) -> Result<()> {
+    let bookmark = &mut ctx.accounts.bookmark;
+
+    bookmark.user = ctx.accounts.user.key();
+    bookmark.post = ctx.accounts.post.key();
+    bookmark.created_at = Clock::get()?.unix_timestamp as u64;
+
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct AddBookmark<'info> {
+    #[account(mut)]
+    pub user: Signer<'info>,
+    #[account(
+        init,
+        payer = user,
+        space = 8 + Bookmark::INIT_SPACE,
+        seeds = [
+            b"bookmark",
+            user.key().as_ref(),
+            post.key().as_ref()
+        ],
+        bump,
+    )]
+    pub bookmark: Account<'info, Bookmark>,
+    pub post: Account<'info, Post>,
+    pub system_program: Program<'info, System>,
+}
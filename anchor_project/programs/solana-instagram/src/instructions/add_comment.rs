@@ -1,8 +1,8 @@
 use anchor_lang::prelude::*;
-use anchor_lang::solana_program::hash::hash;
 
 use crate::states::*;
 use crate::errors::InstagramError;
+use crate::events::CommentAdded;
 
 
 pub fn add_comment(ctx: Context<AddComment>, content: String) -> Result<()> {
@@ -15,19 +15,30 @@ pub fn add_comment(ctx: Context<AddComment>, content: String) -> Result<()> {
     comment.post = post.key();
     comment.comment_by = commenter.key();
     comment.content = content;
+    comment.parent = None;
+    comment.reply_count = 0;
+    comment.like_count = 0;
 
     let now = Clock::get()?.unix_timestamp as u64;
     comment.created_at = now;
     comment.updated_at = now;
 
     post.comment_count = post.comment_count.saturating_add(1);
+    post.next_comment_index = post.next_comment_index.saturating_add(1);
     post.updated_at = now;
 
+    emit!(CommentAdded {
+        comment: comment.key(),
+        post: post.key(),
+        comment_by: comment.comment_by,
+        parent: None,
+        created_at: now,
+    });
+
     Ok(())
 }
 
 #[derive(Accounts)]
-#[instruction(content: String)]
 pub struct AddComment<'info> {
     #[account(mut)]
     pub commenter: Signer<'info>,
@@ -36,10 +47,9 @@ pub struct AddComment<'info> {
         payer = commenter,
         space = 8 + Comment::INIT_SPACE,
         seeds = [
-            b"comment", 
-            post.key().as_ref(), 
-            commenter.key().as_ref(), 
-            &hash(content.as_bytes()).to_bytes()[..4]
+            b"comment",
+            post.key().as_ref(),
+            &post.next_comment_index.to_le_bytes()
         ],
         bump,
     )]
@@ -2,6 +2,7 @@ use anchor_lang::prelude::*;
 
 use crate::states::*;
 use crate::states::ReactionType;
+use crate::events::ReactionAdded;
 
 
 pub fn add_reaction(ctx: Context<AddReaction>, reaction_type: ReactionType) -> Result<()> {
@@ -18,17 +19,16 @@ pub fn add_reaction(ctx: Context<AddReaction>, reaction_type: ReactionType) -> R
     reaction.created_at = now;
     reaction.updated_at = now;
 
-    match reaction_type {
-        ReactionType::Like => post.like_count = post.like_count.saturating_add(1),
-        ReactionType::Dislike => post.dislike_count = post.dislike_count.saturating_add(1),
-        ReactionType::Love => post.love_count = post.love_count.saturating_add(1),
-        ReactionType::Haha => post.haha_count = post.haha_count.saturating_add(1),
-        ReactionType::Wow => post.wow_count = post.wow_count.saturating_add(1),
-        ReactionType::Sad => post.sad_count = post.sad_count.saturating_add(1),
-        ReactionType::Angry => post.angry_count = post.angry_count.saturating_add(1),
-    }
+    post.increment_reaction_count(&reaction_type);
 
     post.updated_at = now;
+
+    emit!(ReactionAdded {
+        reaction: reaction.key(),
+        post: post.key(),
+        reaction_by: reaction.reaction_by,
+        reaction_type,
+    });
     Ok(())
 }
 
@@ -0,0 +1,139 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+
+
+// Offer the profile to another wallet. Nothing moves until that wallet accepts,
+// and only one transfer can be pending per profile.
+pub fn start_authority_transfer(ctx: Context<ProposeAuthorityTransfer>, new_authority: Pubkey) -> Result<()> {
+    require!(new_authority != ctx.accounts.user.key(), InstagramError::InvalidNewAuthority);
+
+    let transfer = &mut ctx.accounts.transfer;
+    transfer.profile = ctx.accounts.profile.key();
+    transfer.current_authority = ctx.accounts.user.key();
+    transfer.new_authority = new_authority;
+    transfer.created_at = Clock::get()?.unix_timestamp as u64;
+
+    Ok(())
+}
+
+// Hand the profile to the proposed wallet. The profile keeps its address,
+// handle, counts and posts; both wallets get an `AuthorityRecord` so the
+// profile can still be found from either of them.
+pub fn complete_authority_transfer(ctx: Context<AcceptAuthorityTransfer>) -> Result<()> {
+    let profile_key = ctx.accounts.profile.key();
+    let now = Clock::get()?.unix_timestamp as u64;
+
+    for (record, authority) in [
+        (&mut ctx.accounts.current_authority_record, ctx.accounts.current_authority.key()),
+        (&mut ctx.accounts.new_authority_record, ctx.accounts.new_authority.key()),
+    ] {
+        // A freshly created record has a zeroed profile; a wallet that already
+        // held another profile can't take this one too
+        require!(
+            record.profile == Pubkey::default() || record.profile == profile_key,
+            InstagramError::AuthorityHasProfile
+        );
+        if record.profile == Pubkey::default() {
+            record.profile = profile_key;
+            record.authority = authority;
+            record.created_at = now;
+        }
+    }
+
+    let profile = &mut ctx.accounts.profile;
+    profile.authority = ctx.accounts.new_authority.key();
+    profile.updated_at = now;
+
+    Ok(())
+}
+
+pub fn abort_authority_transfer(_ctx: Context<CancelAuthorityTransfer>) -> Result<()> {
+    Ok(())
+}
+
+#[derive(Accounts)]
+#[instruction(new_authority: Pubkey)]
+pub struct ProposeAuthorityTransfer<'info> {
+    #[account(mut)]
+    pub user: Signer<'info>,
+    #[account(
+        constraint = profile.authority == user.key() @ InstagramError::Unauthorized
+    )]
+    pub profile: Account<'info, UserProfile>,
+    #[account(
+        init,
+        payer = user,
+        space = 8 + AuthorityTransfer::INIT_SPACE,
+        seeds = [b"authority_transfer", profile.key().as_ref()],
+        bump,
+    )]
+    pub transfer: Account<'info, AuthorityTransfer>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct AcceptAuthorityTransfer<'info> {
+    #[account(mut)]
+    pub new_authority: Signer<'info>,
+    /// CHECK: the proposing wallet, checked by `has_one`; receives the transfer's rent
+    #[account(mut)]
+    pub current_authority: UncheckedAccount<'info>,
+    #[account(
+        mut,
+        constraint = profile.authority == current_authority.key() @ InstagramError::Unauthorized
+    )]
+    pub profile: Account<'info, UserProfile>,
+    #[account(
+        mut,
+        close = current_authority,
+        seeds = [b"authority_transfer", profile.key().as_ref()],
+        bump,
+        has_one = current_authority,
+        constraint = transfer.new_authority == new_authority.key() @ InstagramError::Unauthorized
+    )]
+    pub transfer: Account<'info, AuthorityTransfer>,
+    /// CHECK: the profile the new wallet would have created itself; it must not
+    /// exist, unless the profile is moving back to the wallet that created it
+    #[account(
+        seeds = [b"profile", new_authority.key().as_ref()],
+        bump,
+        constraint = new_authority_profile.data_is_empty() || new_authority_profile.key() == profile.key() @ InstagramError::AuthorityHasProfile
+    )]
+    pub new_authority_profile: UncheckedAccount<'info>,
+    #[account(
+        init_if_needed,
+        payer = new_authority,
+        space = 8 + AuthorityRecord::INIT_SPACE,
+        seeds = [b"authority", new_authority.key().as_ref()],
+        bump,
+    )]
+    pub new_authority_record: Account<'info, AuthorityRecord>,
+    #[account(
+        init_if_needed,
+        payer = new_authority,
+        space = 8 + AuthorityRecord::INIT_SPACE,
+        seeds = [b"authority", current_authority.key().as_ref()],
+        bump,
+    )]
+    pub current_authority_record: Account<'info, AuthorityRecord>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct CancelAuthorityTransfer<'info> {
+    #[account(mut)]
+    pub user: Signer<'info>,
+    #[account(
+        constraint = profile.authority == user.key() @ InstagramError::Unauthorized
+    )]
+    pub profile: Account<'info, UserProfile>,
+    #[account(
+        mut,
+        close = user,
+        seeds = [b"authority_transfer", profile.key().as_ref()],
+        bump,
+    )]
+    pub transfer: Account<'info, AuthorityTransfer>,
+}
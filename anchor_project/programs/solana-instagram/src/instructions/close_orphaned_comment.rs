@@ -0,0 +1,32 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+
+
+// Close a comment left behind by a deleted post, refunding rent to its author.
+// Anyone can call this: the comment is unreachable once its post is gone, and
+// the rent only ever goes back to the account that paid it.
+pub fn reclaim_orphaned_comment(_ctx: Context<CloseOrphanedComment>) -> Result<()> {
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct CloseOrphanedComment<'info> {
+    #[account(
+        mut,
+        close = comment_by,
+        has_one = post,
+        has_one = comment_by
+    )]
+    pub comment: Account<'info, Comment>,
+    /// CHECK: the comment's author, checked by `has_one`; receives the rent
+    #[account(mut)]
+    pub comment_by: UncheckedAccount<'info>,
+    /// CHECK: the comment's post, checked by `has_one`; must have been closed.
+    /// Only the data is checked since anyone can send lamports to the address.
+    #[account(
+        constraint = post.data_is_empty() @ InstagramError::PostStillExists
+    )]
+    pub post: UncheckedAccount<'info>,
+}
@@ -0,0 +1,32 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+
+
+// Close a like left behind by a deleted comment, refunding rent to the liker.
+// `unlike_comment` needs the comment itself, so this is the only way to get the
+// rent back once the comment is gone. Like `close_orphaned_comment`, anyone can call it.
+pub fn reclaim_orphaned_comment_like(_ctx: Context<CloseOrphanedCommentLike>) -> Result<()> {
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct CloseOrphanedCommentLike<'info> {
+    #[account(
+        mut,
+        close = liker,
+        has_one = comment,
+        has_one = liker
+    )]
+    pub like: Account<'info, CommentLike>,
+    /// CHECK: the liker, checked by `has_one`; receives the rent
+    #[account(mut)]
+    pub liker: UncheckedAccount<'info>,
+    /// CHECK: the liked comment, checked by `has_one`; must have been closed.
+    /// Only the data is checked since anyone can send lamports to the address.
+    #[account(
+        constraint = comment.data_is_empty() @ InstagramError::CommentStillExists
+    )]
+    pub comment: UncheckedAccount<'info>,
+}
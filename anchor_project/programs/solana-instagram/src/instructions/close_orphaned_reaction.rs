@@ -0,0 +1,31 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+
+
+// Close a reaction left behind by a deleted post, refunding rent to the
+// reactioner. Like `close_orphaned_comment`, anyone can call it.
+pub fn reclaim_orphaned_reaction(_ctx: Context<CloseOrphanedReaction>) -> Result<()> {
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct CloseOrphanedReaction<'info> {
+    #[account(
+        mut,
+        close = reaction_by,
+        has_one = post,
+        has_one = reaction_by
+    )]
+    pub reaction: Account<'info, Reaction>,
+    /// CHECK: the reactioner, checked by `has_one`; receives the rent
+    #[account(mut)]
+    pub reaction_by: UncheckedAccount<'info>,
+    /// CHECK: the reaction's post, checked by `has_one`; must have been closed.
+    /// Only the data is checked since anyone can send lamports to the address.
+    #[account(
+        constraint = post.data_is_empty() @ InstagramError::PostStillExists
+    )]
+    pub post: UncheckedAccount<'info>,
+}
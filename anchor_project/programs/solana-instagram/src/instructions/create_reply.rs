@@ -0,0 +1,66 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+use crate::events::CommentAdded;
+
+
+// Reply to a comment (or to another reply). Replies are comments on the same
+// post, numbered by the same post counter, with `parent` set.
+pub fn add_reply(ctx: Context<CreateReply>, content: String) -> Result<()> {
+    require!((1..=MAX_TEXT_LENGTH).contains(&content.len()), InstagramError::InvalidContentLength);
+
+    let reply = &mut ctx.accounts.reply;
+    let parent = &mut ctx.accounts.parent;
+    let post = &mut ctx.accounts.post;
+
+    reply.post = post.key();
+    reply.comment_by = ctx.accounts.commenter.key();
+    reply.content = content;
+    reply.parent = Some(parent.key());
+    reply.reply_count = 0;
+    reply.like_count = 0;
+
+    let now = Clock::get()?.unix_timestamp as u64;
+    reply.created_at = now;
+    reply.updated_at = now;
+
+    parent.reply_count = parent.reply_count.saturating_add(1);
+
+    post.comment_count = post.comment_count.saturating_add(1);
+    post.next_comment_index = post.next_comment_index.saturating_add(1);
+    post.updated_at = now;
+
+    emit!(CommentAdded {
+        comment: reply.key(),
+        post: post.key(),
+        comment_by: reply.comment_by,
+        parent: reply.parent,
+        created_at: now,
+    });
+
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct CreateReply<'info> {
+    #[account(mut)]
+    pub commenter: Signer<'info>,
+    #[account(
+        init,
+        payer = commenter,
+        space = 8 + Comment::INIT_SPACE,
+        seeds = [
+            b"comment",
+            post.key().as_ref(),
+            &post.next_comment_index.to_le_bytes()
+        ],
+        bump,
+    )]
+    pub reply: Account<'info, Comment>,
+    #[account(mut, has_one = post)]
+    pub parent: Account<'info, Comment>,
+    #[account(mut)]
+    pub post: Account<'info, Post>,
+    pub system_program: Program<'info, System>,
+}
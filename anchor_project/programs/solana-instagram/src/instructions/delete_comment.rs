@@ -0,0 +1,66 @@
+use anchor_lang::prelude::*;
+use anchor_lang::AccountsExit;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+
+
+// Remove a comment, closing the account and refunding rent to its author.
+// Either the author or the current authority of the post's profile can remove
+// it. A reply must name its parent, whose reply count goes down while it still
+// exists; replies to a removed comment stay on the post.
+pub fn remove_comment(ctx: Context<DeleteComment>) -> Result<()> {
+    let authority = ctx.accounts.authority.key();
+    let comment = &ctx.accounts.comment;
+
+    require!(
+        authority == comment.comment_by || authority == ctx.accounts.profile.authority,
+        InstagramError::Unauthorized
+    );
+
+    match (comment.parent, ctx.accounts.parent.as_ref()) {
+        (Some(expected), Some(parent)) => {
+            require_keys_eq!(parent.key(), expected, InstagramError::InvalidParentComment);
+            let parent_info = parent.to_account_info();
+            if !parent_info.data_is_empty() {
+                let mut parent = Account::<Comment>::try_from(&parent_info)?;
+                parent.reply_count = parent.reply_count.saturating_sub(1);
+                parent.exit(ctx.program_id)?;
+            }
+        }
+        (Some(_), None) => return err!(InstagramError::MissingParentComment),
+        (None, Some(_)) => return err!(InstagramError::InvalidParentComment),
+        (None, None) => {}
+    }
+
+    let post = &mut ctx.accounts.post;
+    post.comment_count = post.comment_count.saturating_sub(1);
+    post.updated_at = Clock::get()?.unix_timestamp as u64;
+
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct DeleteComment<'info> {
+    pub authority: Signer<'info>,
+    #[account(
+        mut,
+        close = comment_by,
+        has_one = post,
+        has_one = comment_by,
+    )]
+    pub comment: Account<'info, Comment>,
+    /// CHECK: the comment's author, checked by `has_one`; receives the rent
+    #[account(mut)]
+    pub comment_by: UncheckedAccount<'info>,
+    /// CHECK: the reply's parent, required for replies and checked against
+    /// `comment.parent` in the instruction; it may already be closed
+    #[account(mut)]
+    pub parent: Option<UncheckedAccount<'info>>,
+    #[account(
+        mut,
+        has_one = profile
+    )]
+    pub post: Account<'info, Post>,
+    pub profile: Account<'info, UserProfile>,
+}
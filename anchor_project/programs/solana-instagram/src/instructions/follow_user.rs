@@ -2,6 +2,7 @@ use anchor_lang::prelude::*;
 
 use crate::states::*;
 use crate::errors::InstagramError;
+use crate::events::Followed;
 
 
 // FOLLOW someone
@@ -29,6 +30,14 @@ pub fn follow_user(ctx: Context<FollowUser>) -> Result<()> {
     
     follower_profile.updated_at = now;
     following_profile.updated_at = now;
+
+    emit!(Followed {
+        follow: follow.key(),
+        follower: follow.follower,
+        follower_profile: follower_profile.key(),
+        following_profile: following_profile.key(),
+        created_at: now,
+    });
     
     Ok(())
 }
@@ -37,14 +46,16 @@ pub fn follow_user(ctx: Context<FollowUser>) -> Result<()> {
 pub struct FollowUser<'info> {
     #[account(mut)]
     pub follower: Signer<'info>,
+    // Seeded by the two profiles, which keep their addresses when they change
+    // hands, so a transfer can't make room for a second follow between them
     #[account(
         init,
         payer = follower,
         space = 8 + Follow::INIT_SPACE,
         seeds = [
             b"follow",
-            follower.key().as_ref(),
-            following_profile.authority.as_ref()
+            follower_profile.key().as_ref(),
+            following_profile.key().as_ref()
         ],
         bump,
     )]
@@ -0,0 +1,40 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+
+
+// Like a comment. The like account's address is unique per liker, so liking
+// twice fails when the account already exists.
+pub fn add_comment_like(ctx: Context<LikeComment>) -> Result<()> {
+    let like = &mut ctx.accounts.like;
+    let comment = &mut ctx.accounts.comment;
+
+    like.comment = comment.key();
+    like.liker = ctx.accounts.liker.key();
+    like.created_at = Clock::get()?.unix_timestamp as u64;
+
+    comment.like_count = comment.like_count.saturating_add(1);
+
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct LikeComment<'info> {
+    #[account(mut)]
+    pub liker: Signer<'info>,
+    #[account(
+        init,
+        payer = liker,
+        space = 8 + CommentLike::INIT_SPACE,
+        seeds = [
+            b"comment_like",
+            comment.key().as_ref(),
+            liker.key().as_ref()
+        ],
+        bump,
+    )]
+    pub like: Account<'info, CommentLike>,
+    #[account(mut)]
+    pub comment: Account<'info, Comment>,
+    pub system_program: Program<'info, System>,
+}
@@ -1,17 +1,59 @@
 pub use profile::*;
 pub mod profile;
 
+pub use authority_transfer::*;
+pub mod authority_transfer;
+
 pub use post::*;
 pub mod post;
 
 pub use add_comment::*;
 pub mod add_comment;
 
+pub use create_reply::*;
+pub mod create_reply;
+
+pub use update_comment::*;
+pub mod update_comment;
+
+pub use delete_comment::*;
+pub mod delete_comment;
+
+pub use like_comment::*;
+pub mod like_comment;
+
+pub use unlike_comment::*;
+pub mod unlike_comment;
+
 pub use add_reaction::*;
 pub mod add_reaction;
 
+pub use update_reaction::*;
+pub mod update_reaction;
+
+pub use remove_reaction::*;
+pub mod remove_reaction;
+
+pub use close_orphaned_comment::*;
+pub mod close_orphaned_comment;
+
+pub use close_orphaned_reaction::*;
+pub mod close_orphaned_reaction;
+
+pub use close_orphaned_comment_like::*;
+pub mod close_orphaned_comment_like;
+
+pub use add_bookmark::*;
+pub mod add_bookmark;
+
+pub use remove_bookmark::*;
+pub mod remove_bookmark;
+
 pub use follow_user::*;
 pub mod follow_user;
 
 pub use unfollow_user::*;
-pub mod unfollow_user;
\ No newline at end of file
+pub mod unfollow_user;
+
+pub use remove_follower::*;
+pub mod remove_follower;
\ No newline at end of file
@@ -1,8 +1,8 @@
 use anchor_lang::prelude::*;
-use anchor_lang::solana_program::hash::hash;
 
 use crate::states::*;
 use crate::errors::InstagramError;
+use crate::events::{PostCreated, PostDeleted};
 
 
 pub fn add_post(ctx: Context<AddPost>, media_uri: String, content: String) -> Result<()> {
@@ -18,20 +18,56 @@ pub fn add_post(ctx: Context<AddPost>, media_uri: String, content: String) -> Re
     post.profile = profile.key();
     post.like_count = 0;
     post.comment_count = 0;
+    post.next_comment_index = 0;
+    post.revision_count = 0;
+
+    profile.post_count = profile.post_count.saturating_add(1);
 
     let now = Clock::get()?.unix_timestamp as u64;
     post.created_at = now;
     post.updated_at = now;
 
+    emit!(PostCreated {
+        post: post.key(),
+        profile: post.profile,
+        creator: post.creator,
+        created_at: now,
+    });
+
+    Ok(())
+}
+
+// Change a post's caption, keeping the old one in a new `PostRevision`.
+// Only the profile's authority can edit, and the media stays as it was.
+pub fn edit_post(ctx: Context<UpdatePost>, content: String) -> Result<()> {
+    require!((1..=MAX_TEXT_LENGTH).contains(&content.len()), InstagramError::InvalidContentLength);
+
+    let post = &mut ctx.accounts.post;
+    require!(post.content != content, InstagramError::ContentUnchanged);
+
+    let now = Clock::get()?.unix_timestamp as u64;
+    let revision = &mut ctx.accounts.revision;
+    revision.post = post.key();
+    revision.index = post.revision_count;
+    revision.content = std::mem::replace(&mut post.content, content);
+    revision.replaced_at = now;
+
+    post.revision_count = post.revision_count.saturating_add(1);
+    post.updated_at = now;
+
     Ok(())
 }
 
-pub fn delete_post(_ctx: Context<DeletePost>) -> Result<()> {
+pub fn delete_post(ctx: Context<DeletePost>) -> Result<()> {
+    emit!(PostDeleted {
+        post: ctx.accounts.post.key(),
+        profile: ctx.accounts.profile.key(),
+    });
+
     Ok(())
 }
 
 #[derive(Accounts)]
-#[instruction(media_uri: String)]
 pub struct AddPost<'info> {
     #[account(mut)]
     pub creator: Signer<'info>,
@@ -42,32 +78,65 @@ pub struct AddPost<'info> {
         seeds = [
             b"post",
             creator.key().as_ref(),
-            &hash(media_uri.as_bytes()).to_bytes()[..4],
-            profile.key().as_ref()
+            &profile.created_slot.to_le_bytes(),
+            &profile.post_count.to_le_bytes()
         ],
         bump,
     )]
     pub post: Account<'info, Post>,
+    #[account(
+        mut,
+        constraint = profile.authority == creator.key() @ InstagramError::Unauthorized
+    )]
     pub profile: Account<'info, UserProfile>,
     pub system_program: Program<'info, System>,
 }
 
 #[derive(Accounts)]
-pub struct DeletePost<'info> {
+pub struct UpdatePost<'info> {
     #[account(mut)]
     pub creator: Signer<'info>,
     #[account(
         mut,
-        close = creator,
+        has_one = profile
+    )]
+    pub post: Account<'info, Post>,
+    // The profile's current authority can edit, whichever wallet wrote the post
+    #[account(
+        constraint = profile.authority == creator.key() @ InstagramError::Unauthorized
+    )]
+    pub profile: Account<'info, UserProfile>,
+    #[account(
+        init,
+        payer = creator,
+        space = 8 + PostRevision::INIT_SPACE,
         seeds = [
-            b"post",
-            creator.key().as_ref(),
-            &hash(post.media_uri.as_bytes()).to_bytes()[..4],
-            post.profile.as_ref()
+            b"post_revision",
+            post.key().as_ref(),
+            &post.revision_count.to_le_bytes()
         ],
         bump,
-        constraint = post.creator == creator.key()
+    )]
+    pub revision: Account<'info, PostRevision>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct DeletePost<'info> {
+    #[account(mut)]
+    pub creator: Signer<'info>,
+    // Checked against the stored profile instead of the seeds, so posts
+    // addressed by the old media URI hash, or written by a wallet the profile
+    // was transferred from, can still be deleted
+    #[account(
+        mut,
+        close = creator,
+        has_one = profile
     )]
     pub post: Account<'info, Post>,
+    #[account(
+        constraint = profile.authority == creator.key() @ InstagramError::Unauthorized
+    )]
+    pub profile: Account<'info, UserProfile>,
     pub system_program: Program<'info, System>,
 }
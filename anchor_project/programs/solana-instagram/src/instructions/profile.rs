@@ -1,7 +1,9 @@
 use anchor_lang::prelude::*;
+use anchor_lang::AccountsClose;
 
 use crate::states::*;
 use crate::errors::InstagramError;
+use crate::events::ProfileCreated;
 
 
 pub fn initialize_profile(ctx: Context<InitializeProfile>, handle: String, bio: String, avatar_uri: String) -> Result<()> {
@@ -10,14 +12,28 @@ pub fn initialize_profile(ctx: Context<InitializeProfile>, handle: String, bio:
     require!((1..=MAX_URI_LENGTH).contains(&avatar_uri.len()), InstagramError::InvalidAvatarUriLength);
 
     let profile = &mut ctx.accounts.profile;
-    
+    let handle_record = &mut ctx.accounts.handle_record;
+    let now = Clock::get()?.unix_timestamp as u64;
+
+    // A freshly created record has a zeroed profile; anything else belongs to someone
+    require!(handle_record.profile == Pubkey::default(), InstagramError::HandleTaken);
+    handle_record.profile = profile.key();
+    handle_record.created_at = now;
+
     profile.authority = ctx.accounts.user.key();
     profile.handle = handle;
     profile.bio = bio;
     profile.avatar_uri = avatar_uri;
-    let now = Clock::get()?.unix_timestamp as u64;
     profile.created_at = now;
     profile.updated_at = now;
+    profile.created_slot = Clock::get()?.slot;
+
+    emit!(ProfileCreated {
+        profile: profile.key(),
+        authority: profile.authority,
+        handle: profile.handle.clone(),
+        created_at: now,
+    });
 
     Ok(())
 }
@@ -29,23 +45,89 @@ pub fn update_profile(ctx: Context<UpdateProfile>, handle: Option<String>, bio:
     );
 
     let profile = &mut ctx.accounts.profile;
+    let now = Clock::get()?.unix_timestamp as u64;
 
     if let Some(h) = handle {
         require!((1..=MAX_HANDLE_LENGTH).contains(&h.len()), InstagramError::InvalidHandleLength);
+
+        // Only a change of the normalized handle moves the registry entry;
+        // a case-only change keeps the existing record
+        if normalize_handle(&h) != normalize_handle(&profile.handle) {
+            let new_record = ctx.accounts.new_handle_record
+                .as_mut()
+                .ok_or(InstagramError::MissingHandleRecord)?;
+            require!(new_record.profile == Pubkey::default(), InstagramError::HandleTaken);
+            new_record.profile = profile.key();
+            new_record.created_at = now;
+
+            release_handle_record(
+                &ctx.accounts.old_handle_record.to_account_info(),
+                &profile.key(),
+                &ctx.accounts.user.to_account_info(),
+            )?;
+        }
+
         profile.handle = h;
     }
-    
+
     if let Some(b) = bio {
         require!((1..=MAX_BIO_LENGTH).contains(&b.len()), InstagramError::InvalidBioLength);
         profile.bio = b;
     }
-    
+
     if let Some(uri) = avatar_uri {
         require!((1..=MAX_URI_LENGTH).contains(&uri.len()), InstagramError::InvalidAvatarUriLength);
         profile.avatar_uri = uri;
     }
-    
-    profile.updated_at = Clock::get()?.unix_timestamp as u64;
+
+    profile.updated_at = now;
+    Ok(())
+}
+
+// Delete a profile, refunding its rent and that of its handle record so the
+// handle can be claimed again. Posts, comments, reactions and follows are left
+// alone; the client's account wipe closes them first, since posts can't be
+// deleted once their profile is gone. A profile created again later restarts
+// `post_count` but gets a later `created_slot`, so its posts get new addresses;
+// closing in the creation slot is refused to keep it that way. The wallet's
+// own `AuthorityRecord` is closed too; other wallets the profile passed through
+// keep theirs.
+pub fn delete_profile(ctx: Context<CloseProfile>) -> Result<()> {
+    require!(
+        Clock::get()?.slot > ctx.accounts.profile.created_slot,
+        InstagramError::ProfileTooNew
+    );
+
+    release_handle_record(
+        &ctx.accounts.handle_record.to_account_info(),
+        &ctx.accounts.profile.key(),
+        &ctx.accounts.user.to_account_info(),
+    )?;
+
+    let record_info = ctx.accounts.authority_record.to_account_info();
+    if !record_info.data_is_empty() {
+        let record = Account::<AuthorityRecord>::try_from(&record_info)?;
+        require_keys_eq!(record.profile, ctx.accounts.profile.key(), InstagramError::Unauthorized);
+        record.close(ctx.accounts.user.to_account_info())?;
+    }
+    Ok(())
+}
+
+// Closes the registry entry found at the profile's handle seeds, refunding `user`.
+// Profiles created before the registry existed have none, and their handle may
+// since have been claimed by another profile, whose record stays.
+fn release_handle_record<'info>(
+    record_info: &AccountInfo<'info>,
+    profile: &Pubkey,
+    user: &AccountInfo<'info>,
+) -> Result<()> {
+    if record_info.data_is_empty() {
+        return Ok(());
+    }
+    let record = Account::<HandleRecord>::try_from(record_info)?;
+    if record.profile == *profile {
+        record.close(user.clone())?;
+    }
     Ok(())
 }
 
@@ -62,6 +144,22 @@ pub struct InitializeProfile<'info> {
         bump,
     )]
     pub profile: Account<'info, UserProfile>,
+    #[account(
+        init_if_needed,
+        payer = user,
+        space = 8 + HandleRecord::INIT_SPACE,
+        seeds = [b"handle", normalize_handle(&handle).as_bytes()],
+        bump,
+    )]
+    pub handle_record: Account<'info, HandleRecord>,
+    /// CHECK: set when a profile was transferred to or from this wallet, which
+    /// then can't create another one
+    #[account(
+        seeds = [b"authority", user.key().as_ref()],
+        bump,
+        constraint = authority_record.data_is_empty() @ InstagramError::AuthorityHasProfile
+    )]
+    pub authority_record: UncheckedAccount<'info>,
     pub system_program: Program<'info, System>,
 }
 
@@ -70,11 +168,58 @@ pub struct InitializeProfile<'info> {
 pub struct UpdateProfile<'info> {
     #[account(mut)]
     pub user: Signer<'info>,
+    // Found by its authority rather than its seeds, which name the wallet that
+    // created it and so go stale after a transfer
     #[account(
         mut,
-        seeds = [b"profile", user.key().as_ref()],
+        constraint = profile.authority == user.key() @ InstagramError::Unauthorized
+    )]
+    pub profile: Account<'info, UserProfile>,
+    /// CHECK: the registry entry of the current handle, checked by its seeds
+    /// and released if the handle changes. Always required so a handle change
+    /// can't leave the old handle claimed.
+    #[account(
+        mut,
+        seeds = [b"handle", normalize_handle(&profile.handle).as_bytes()],
+        bump
+    )]
+    pub old_handle_record: UncheckedAccount<'info>,
+    // Only needed when the normalized handle changes
+    #[account(
+        init_if_needed,
+        payer = user,
+        space = 8 + HandleRecord::INIT_SPACE,
+        seeds = [b"handle", normalize_handle(handle.as_deref().unwrap_or_default()).as_bytes()],
         bump,
-        constraint = profile.authority == user.key()
+    )]
+    pub new_handle_record: Option<Account<'info, HandleRecord>>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct CloseProfile<'info> {
+    #[account(mut)]
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        close = user,
+        constraint = profile.authority == user.key() @ InstagramError::Unauthorized
     )]
     pub profile: Account<'info, UserProfile>,
-}
\ No newline at end of file
+    /// CHECK: the registry entry of the profile's handle, checked by its seeds
+    /// and closed with the profile so the handle can't stay claimed
+    #[account(
+        mut,
+        seeds = [b"handle", normalize_handle(&profile.handle).as_bytes()],
+        bump
+    )]
+    pub handle_record: UncheckedAccount<'info>,
+    /// CHECK: the wallet's registry entry if the profile was transferred to it;
+    /// closed along with the profile so the wallet can sign up again
+    #[account(
+        mut,
+        seeds = [b"authority", user.key().as_ref()],
+        bump
+    )]
+    pub authority_record: UncheckedAccount<'info>,
+}
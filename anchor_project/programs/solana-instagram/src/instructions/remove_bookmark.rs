@@ -0,0 +1,23 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+
+
+// Unsave a post, closing the bookmark and refunding rent to its owner. The
+// post isn't needed, so bookmarks of deleted posts can still be removed.
+pub fn delete_bookmark(_ctx: Context<RemoveBookmark>) -> Result<()> {
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct RemoveBookmark<'info> {
+    #[account(mut)]
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        close = user,
+        constraint = bookmark.user == user.key() @ InstagramError::Unauthorized
+    )]
+    pub bookmark: Account<'info, Bookmark>,
+}
@@ -0,0 +1,85 @@
+use anchor_lang::prelude::*;
+use anchor_lang::AccountsExit;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+use crate::events::Unfollowed;
+
+
+// Remove someone who follows `user`, refunding the follow's rent to them.
+// Their `following_count` goes down too, unless they have closed their profile.
+// A follow at the address the two profiles seed needs no further checks;
+// older follows are matched through the wallets they store.
+pub fn drop_follower(ctx: Context<RemoveFollower>) -> Result<()> {
+    let now = Clock::get()?.unix_timestamp as u64;
+    let follower_profile_info = ctx.accounts.follower_profile.to_account_info();
+    let seeded = follow_seeded_by(
+        &ctx.accounts.follow.key(),
+        &follower_profile_info.key(),
+        &ctx.accounts.profile.key(),
+    );
+
+    let profile = &mut ctx.accounts.profile;
+    require!(
+        seeded || profile_named_by(profile, &ctx.accounts.follow.following),
+        InstagramError::Unauthorized
+    );
+    profile.follower_count = profile.follower_count.saturating_sub(1);
+    profile.updated_at = now;
+
+    if follower_profile_info.data_is_empty() {
+        // Only the address the follower's own wallet seeds may stand in for a
+        // closed profile, unless the follow's seeds already name it
+        let (closed_profile, _) = Pubkey::find_program_address(
+            &[b"profile", ctx.accounts.follower.key().as_ref()],
+            ctx.program_id,
+        );
+        require!(
+            seeded || follower_profile_info.key() == closed_profile,
+            InstagramError::Unauthorized
+        );
+    } else {
+        let mut follower_profile = Account::<UserProfile>::try_from(&follower_profile_info)?;
+        require!(
+            seeded || profile_named_by(&follower_profile, &ctx.accounts.follower.key()),
+            InstagramError::Unauthorized
+        );
+        follower_profile.following_count = follower_profile.following_count.saturating_sub(1);
+        follower_profile.updated_at = now;
+        follower_profile.exit(ctx.program_id)?;
+    }
+
+    emit!(Unfollowed {
+        follow: ctx.accounts.follow.key(),
+        follower: ctx.accounts.follower.key(),
+        follower_profile: follower_profile_info.key(),
+        following_profile: ctx.accounts.profile.key(),
+    });
+
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct RemoveFollower<'info> {
+    pub user: Signer<'info>,
+    // Matched to the profiles in the instruction, by its seeds or, for older
+    // follows, through the wallets it stores
+    #[account(
+        mut,
+        close = follower,
+        has_one = follower
+    )]
+    pub follow: Account<'info, Follow>,
+    /// CHECK: the follower's wallet as stored in the follow, checked by `has_one`; receives the rent
+    #[account(mut)]
+    pub follower: UncheckedAccount<'info>,
+    /// CHECK: the follower's profile, which may already be closed; it is
+    /// checked against the follower and updated while it still holds an account
+    #[account(mut)]
+    pub follower_profile: UncheckedAccount<'info>,
+    #[account(
+        mut,
+        constraint = profile.authority == user.key() @ InstagramError::Unauthorized
+    )]
+    pub profile: Account<'info, UserProfile>,
+}
@@ -0,0 +1,34 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+
+
+// Take a reaction back, closing the account and refunding rent to the reactioner
+pub fn delete_reaction(ctx: Context<RemoveReaction>) -> Result<()> {
+    let reaction = &ctx.accounts.reaction;
+    let post = &mut ctx.accounts.post;
+
+    post.decrement_reaction_count(&reaction.reaction_type);
+    post.updated_at = Clock::get()?.unix_timestamp as u64;
+
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct RemoveReaction<'info> {
+    #[account(mut)]
+    pub reactioner: Signer<'info>,
+    #[account(
+        mut,
+        close = reactioner,
+        seeds = [
+            b"reaction",
+            post.key().as_ref(),
+            reactioner.key().as_ref()],
+        bump,
+        constraint = reaction.reaction_by == reactioner.key()
+    )]
+    pub reaction: Account<'info, Reaction>,
+    #[account(mut)]
+    pub post: Account<'info, Post>,
+}
@@ -1,6 +1,8 @@
 use anchor_lang::prelude::*;
 
 use crate::states::*;
+use crate::errors::InstagramError;
+use crate::events::Unfollowed;
 
 
 // UNFOLLOW someone
@@ -16,6 +18,13 @@ pub fn unfollow_user(ctx: Context<UnfollowUser>) -> Result<()> {
     
     follower_profile.updated_at = now;
     following_profile.updated_at = now;
+
+    emit!(Unfollowed {
+        follow: ctx.accounts.follow.key(),
+        follower: ctx.accounts.follow.follower,
+        follower_profile: follower_profile.key(),
+        following_profile: following_profile.key(),
+    });
     
     Ok(())
 }
@@ -24,12 +33,15 @@ pub fn unfollow_user(ctx: Context<UnfollowUser>) -> Result<()> {
 pub struct UnfollowUser<'info> {
     #[account(mut)]
     pub follower: Signer<'info>,
+    // Matched by its seeds, so it can be undone however often either profile
+    // moved; follows from before the seeds named profiles are matched through
+    // the wallets they store
     #[account(
         mut,
         close = follower,
-        seeds = [b"follow", follower.key().as_ref(), following_profile.authority.as_ref()],
-        bump,
-        constraint = follow.follower == follower.key()
+        constraint = follow_seeded_by(&follow.key(), &follower_profile.key(), &following_profile.key())
+            || (profile_named_by(&follower_profile, &follow.follower)
+                && profile_named_by(&following_profile, &follow.following)) @ InstagramError::Unauthorized
     )]
     pub follow: Account<'info, Follow>,
     #[account(
@@ -54,8 +66,8 @@ pub struct IsFollowing<'info> {
         bump,
     )]
     pub follow: Account<'info, Follow>,
-    /// CHECK: This is just used for the seed
+    /// CHECK: the follower's profile, only used for the seed
     pub follower: AccountInfo<'info>,
-    /// CHECK: This is just used for the seed  
+    /// CHECK: the followed profile, only used for the seed
     pub following: AccountInfo<'info>,
 }
\ No newline at end of file
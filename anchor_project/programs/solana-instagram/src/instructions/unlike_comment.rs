@@ -0,0 +1,33 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+
+
+// Take a like back, closing the account and refunding rent to the liker
+pub fn remove_comment_like(ctx: Context<UnlikeComment>) -> Result<()> {
+    let comment = &mut ctx.accounts.comment;
+
+    comment.like_count = comment.like_count.saturating_sub(1);
+
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct UnlikeComment<'info> {
+    #[account(mut)]
+    pub liker: Signer<'info>,
+    #[account(
+        mut,
+        close = liker,
+        seeds = [
+            b"comment_like",
+            comment.key().as_ref(),
+            liker.key().as_ref()
+        ],
+        bump,
+        constraint = like.liker == liker.key()
+    )]
+    pub like: Account<'info, CommentLike>,
+    #[account(mut)]
+    pub comment: Account<'info, Comment>,
+}
@@ -0,0 +1,28 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+
+
+// Rewrite a comment's text; only its author can edit it. The address is
+// seeded by the post's comment counter, so it doesn't change.
+pub fn edit_comment(ctx: Context<UpdateComment>, content: String) -> Result<()> {
+    require!((1..=MAX_TEXT_LENGTH).contains(&content.len()), InstagramError::InvalidCommentLength);
+
+    let comment = &mut ctx.accounts.comment;
+    require!(comment.content != content, InstagramError::ContentUnchanged);
+    comment.content = content;
+    comment.updated_at = Clock::get()?.unix_timestamp as u64;
+
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct UpdateComment<'info> {
+    pub commenter: Signer<'info>,
+    #[account(
+        mut,
+        constraint = comment.comment_by == commenter.key() @ InstagramError::Unauthorized
+    )]
+    pub comment: Account<'info, Comment>,
+}
@@ -0,0 +1,41 @@
+use anchor_lang::prelude::*;
+
+use crate::states::*;
+use crate::errors::InstagramError;
+
+
+// Switch an existing reaction to another type, moving the count between counters
+pub fn change_reaction(ctx: Context<UpdateReaction>, reaction_type: ReactionType) -> Result<()> {
+    let reaction = &mut ctx.accounts.reaction;
+    let post = &mut ctx.accounts.post;
+
+    require!(reaction.reaction_type != reaction_type, InstagramError::ReactionUnchanged);
+
+    post.decrement_reaction_count(&reaction.reaction_type);
+    post.increment_reaction_count(&reaction_type);
+    reaction.reaction_type = reaction_type;
+
+    let now = Clock::get()?.unix_timestamp as u64;
+    reaction.updated_at = now;
+    post.updated_at = now;
+
+    Ok(())
+}
+
+#[derive(Accounts)]
+#[instruction(reaction_type: ReactionType)]
+pub struct UpdateReaction<'info> {
+    pub reactioner: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [
+            b"reaction",
+            post.key().as_ref(),
+            reactioner.key().as_ref()],
+        bump,
+        constraint = reaction.reaction_by == reactioner.key()
+    )]
+    pub reaction: Account<'info, Reaction>,
+    #[account(mut)]
+    pub post: Account<'info, Post>,
+}
@@ -6,6 +6,7 @@ use crate::states::*;
 use anchor_lang::prelude::*;
 
 pub mod errors;
+pub mod events;
 pub mod states;
 pub mod instructions;
 
@@ -23,10 +24,30 @@ pub mod solana_instagram {
         update_profile(ctx, handle, bio, avatar_uri)
     }
 
+    pub fn close_profile(ctx: Context<CloseProfile>) -> Result<()> {
+        delete_profile(ctx)
+    }
+
+    pub fn propose_authority_transfer(ctx: Context<ProposeAuthorityTransfer>, new_authority: Pubkey) -> Result<()> {
+        start_authority_transfer(ctx, new_authority)
+    }
+
+    pub fn accept_authority_transfer(ctx: Context<AcceptAuthorityTransfer>) -> Result<()> {
+        complete_authority_transfer(ctx)
+    }
+
+    pub fn cancel_authority_transfer(ctx: Context<CancelAuthorityTransfer>) -> Result<()> {
+        abort_authority_transfer(ctx)
+    }
+
     pub fn create_post(ctx: Context<AddPost>, media_uri: String, content: String) -> Result<()> {
         add_post(ctx, media_uri, content)
     }
 
+    pub fn update_post(ctx: Context<UpdatePost>, content: String) -> Result<()> {
+        edit_post(ctx, content)
+    }
+
     pub fn delete_user_post(ctx: Context<DeletePost>) -> Result<()> {
         delete_post(ctx)
     }
@@ -35,10 +56,58 @@ pub mod solana_instagram {
         add_comment(ctx, content)
     }
 
+    pub fn create_reply(ctx: Context<CreateReply>, content: String) -> Result<()> {
+        add_reply(ctx, content)
+    }
+
+    pub fn update_comment(ctx: Context<UpdateComment>, content: String) -> Result<()> {
+        edit_comment(ctx, content)
+    }
+
+    pub fn delete_comment(ctx: Context<DeleteComment>) -> Result<()> {
+        remove_comment(ctx)
+    }
+
+    pub fn like_comment(ctx: Context<LikeComment>) -> Result<()> {
+        add_comment_like(ctx)
+    }
+
+    pub fn unlike_comment(ctx: Context<UnlikeComment>) -> Result<()> {
+        remove_comment_like(ctx)
+    }
+
     pub fn create_reaction(ctx: Context<AddReaction>, reaction_type: ReactionType) -> Result<()> {
         add_reaction(ctx, reaction_type)
     }
 
+    pub fn update_reaction(ctx: Context<UpdateReaction>, reaction_type: ReactionType) -> Result<()> {
+        change_reaction(ctx, reaction_type)
+    }
+
+    pub fn remove_reaction(ctx: Context<RemoveReaction>) -> Result<()> {
+        delete_reaction(ctx)
+    }
+
+    pub fn close_orphaned_comment(ctx: Context<CloseOrphanedComment>) -> Result<()> {
+        reclaim_orphaned_comment(ctx)
+    }
+
+    pub fn close_orphaned_reaction(ctx: Context<CloseOrphanedReaction>) -> Result<()> {
+        reclaim_orphaned_reaction(ctx)
+    }
+
+    pub fn close_orphaned_comment_like(ctx: Context<CloseOrphanedCommentLike>) -> Result<()> {
+        reclaim_orphaned_comment_like(ctx)
+    }
+
+    pub fn create_bookmark(ctx: Context<AddBookmark>) -> Result<()> {
+        add_bookmark(ctx)
+    }
+
+    pub fn remove_bookmark(ctx: Context<RemoveBookmark>) -> Result<()> {
+        delete_bookmark(ctx)
+    }
+
     pub fn follow_user_profile(ctx: Context<FollowUser>) -> Result<()> {
         follow_user(ctx)
     }
@@ -47,4 +116,8 @@ pub mod solana_instagram {
         unfollow_user(ctx)
     }
 
+    pub fn remove_follower(ctx: Context<RemoveFollower>) -> Result<()> {
+        drop_follower(ctx)
+    }
+
 }
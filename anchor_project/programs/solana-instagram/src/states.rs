@@ -6,6 +6,11 @@ pub const MAX_BIO_LENGTH: usize = 160;
 pub const MAX_URI_LENGTH: usize = 200;
 pub const MAX_TEXT_LENGTH: usize = 280;
 
+// Handles are unique case-insensitively; the registry PDA is seeded by this form
+pub fn normalize_handle(handle: &str) -> String {
+    handle.to_ascii_lowercase()
+}
+
 #[derive(AnchorSerialize, AnchorDeserialize, Clone, InitSpace, PartialEq)]
 pub enum ReactionType {
     Like,
@@ -31,6 +36,58 @@ pub struct UserProfile {
     pub following_count: u64,
     pub created_at: u64,
     pub updated_at: u64,
+    // Posts ever created, never decremented; seeds the next post's address
+    pub post_count: u64,
+    // Slot the profile was created in, also seeding its posts' addresses, so a
+    // profile closed and created again doesn't reuse the addresses of the last one
+    pub created_slot: u64,
+}
+
+// Registry entry claiming a handle, seeded by [b"handle", normalize_handle(handle)]
+#[account]
+#[derive(InitSpace)]
+pub struct HandleRecord {
+    pub profile: Pubkey,
+    pub created_at: u64,
+}
+
+// A move of `profile` to `new_authority` proposed by its current authority,
+// seeded by [b"authority_transfer", profile]. Closed when accepted or cancelled.
+#[account]
+#[derive(InitSpace)]
+pub struct AuthorityTransfer {
+    pub profile: Pubkey,
+    pub current_authority: Pubkey,
+    pub new_authority: Pubkey,
+    pub created_at: u64,
+}
+
+// Registry entry tying a wallet a profile was transferred from or to back to
+// that profile, seeded by [b"authority", authority]. A profile that never moved
+// has none; its address is derived from its wallet instead.
+#[account]
+#[derive(InitSpace)]
+pub struct AuthorityRecord {
+    pub profile: Pubkey,
+    pub authority: Pubkey,
+    pub created_at: u64,
+}
+
+// Whether `follow` is at the address seeded by the two profiles, which ties it
+// to them whichever wallets have held either profile since it was made
+pub fn follow_seeded_by(follow: &Pubkey, follower_profile: &Pubkey, following_profile: &Pubkey) -> bool {
+    Pubkey::find_program_address(
+        &[b"follow", follower_profile.as_ref(), following_profile.as_ref()],
+        &crate::ID,
+    ).0 == *follow
+}
+
+// Whether `wallet`, as stored in a follow, names `profile`: it is either the
+// profile's current authority or the wallet that created it and seeds its address.
+// Only needed for follows from before they were seeded by profile.
+pub fn profile_named_by(profile: &Account<UserProfile>, wallet: &Pubkey) -> bool {
+    profile.authority == *wallet
+        || Pubkey::find_program_address(&[b"profile", wallet.as_ref()], &crate::ID).0 == profile.key()
 }
 
 #[account]
@@ -38,6 +95,11 @@ pub struct UserProfile {
 pub struct Post {
     pub profile: Pubkey,
     pub creator: Pubkey,
+    // Kept ahead of the strings so feeds can read it at a fixed offset via
+    // `dataSlice`. Moving it here changed the layout: posts written by older
+    // builds don't decode, so upgrading needs a fresh deployment (see README).
+    pub created_at: u64,
+    pub updated_at: u64,
     #[max_len(MAX_TEXT_LENGTH)]
     pub content: String,
     #[max_len(MAX_URI_LENGTH)]
@@ -50,8 +112,48 @@ pub struct Post {
     pub sad_count: u64,
     pub angry_count: u64,
     pub comment_count: u64,
-    pub created_at: u64,
-    pub updated_at: u64,
+    // Comments ever added; unlike `comment_count` it never goes down, so it can
+    // seed the next comment's address without reusing a live one
+    pub next_comment_index: u64,
+    // Edits so far; seeds the next `PostRevision`
+    pub revision_count: u64,
+}
+
+// A caption a post had before an edit. Revision `index` holds the caption
+// written at the previous revision's `replaced_at` (or at the post's
+// `created_at` for index 0) and replaced at `replaced_at`.
+#[account]
+#[derive(InitSpace)]
+pub struct PostRevision {
+    pub post: Pubkey,
+    pub index: u64,
+    #[max_len(MAX_TEXT_LENGTH)]
+    pub content: String,
+    pub replaced_at: u64,
+}
+
+impl Post {
+    pub fn increment_reaction_count(&mut self, reaction_type: &ReactionType) {
+        let count = self.reaction_count_mut(reaction_type);
+        *count = count.saturating_add(1);
+    }
+
+    pub fn decrement_reaction_count(&mut self, reaction_type: &ReactionType) {
+        let count = self.reaction_count_mut(reaction_type);
+        *count = count.saturating_sub(1);
+    }
+
+    fn reaction_count_mut(&mut self, reaction_type: &ReactionType) -> &mut u64 {
+        match reaction_type {
+            ReactionType::Like => &mut self.like_count,
+            ReactionType::Dislike => &mut self.dislike_count,
+            ReactionType::Love => &mut self.love_count,
+            ReactionType::Haha => &mut self.haha_count,
+            ReactionType::Wow => &mut self.wow_count,
+            ReactionType::Sad => &mut self.sad_count,
+            ReactionType::Angry => &mut self.angry_count,
+        }
+    }
 }
 
 #[account]
@@ -73,8 +175,32 @@ pub struct Comment {
     pub content: String,
     pub created_at: u64,
     pub updated_at: u64,
+    // Comment this one replies to; None for top-level comments
+    pub parent: Option<Pubkey>,
+    pub reply_count: u64,
+    pub like_count: u64,
+}
+
+#[account]
+#[derive(InitSpace)]
+pub struct CommentLike {
+    pub comment: Pubkey,
+    pub liker: Pubkey,
+    pub created_at: u64,
+}
+
+// A post saved by `user`. Outlives the post: closing a post leaves its
+// bookmarks behind until their owners remove them.
+#[account]
+#[derive(InitSpace)]
+pub struct Bookmark {
+    pub user: Pubkey,
+    pub post: Pubkey,
+    pub created_at: u64,
 }
 
+// Seeded by [b"follow", follower_profile, following_profile]; stores the wallets
+// the two profiles had when the follow was made
 #[account]
 #[derive(InitSpace)]
 pub struct Follow {
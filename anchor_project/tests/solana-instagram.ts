@@ -4,6 +4,13 @@ import { SolanaInstagram } from "../target/types/solana_instagram";
 import { expect } from "chai";
 import * as assert from "assert";
 import crypto from "crypto";
+import { SolagramClient } from "../../frontend/src/lib/solagram/client";
+import { deriveCommentPda, deriveHandleRecordPda, derivePostPda, indexSeed } from "../../frontend/src/lib/solagram/pda";
+
+// Handles are unique on-chain, so fixtures that run many times need a fresh one
+function uniqueHandle(base: string): string {
+  return `${base}_${Math.random().toString(36).slice(2)}`.slice(0, 24);
+}
 
 describe("Create Profile", () => {
   // Configure the client to use the local cluster.
@@ -32,7 +39,8 @@ describe("Create Profile", () => {
     const [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
     await program.methods.initialize("user144", "Test user", "https://test.com/avatar.png").accounts({
-      user: user.publicKey
+      user: user.publicKey,
+      handleRecord: deriveHandleRecordPda("user144", program.programId)
     })
       .signers([user])
       .rpc();
@@ -57,7 +65,8 @@ describe("Create Profile", () => {
     await program.methods
       .initialize("a", "b", "c")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda("a", program.programId)
       })
       .signers([user])
       .rpc();
@@ -81,7 +90,8 @@ describe("Create Profile", () => {
     await program.methods
       .initialize(maxHandle, maxBio, maxUri)
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(maxHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -103,7 +113,8 @@ describe("Create Profile", () => {
     await program.methods
       .initialize("timestamptest", "Testing timestamps", "https://test.com")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda("timestamptest", program.programId)
       })
       .signers([user])
       .rpc();
@@ -127,7 +138,8 @@ describe("Create Profile", () => {
       await program.methods
         .initialize("", "Valid bio", "https://example.com")
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          handleRecord: deriveHandleRecordPda("", program.programId)
         })
         .signers([user])
         .rpc({ commitment: "confirmed" });
@@ -149,7 +161,8 @@ describe("Create Profile", () => {
       await program.methods
         .initialize(tooLongHandle, "Valid bio", "https://example.com")
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          handleRecord: deriveHandleRecordPda(tooLongHandle, program.programId)
         })
         .signers([user])
         .rpc();
@@ -169,7 +182,8 @@ describe("Create Profile", () => {
       await program.methods
         .initialize("validhandle", "", "https://example.com")
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          handleRecord: deriveHandleRecordPda("validhandle", program.programId)
         })
         .signers([user])
         .rpc();
@@ -191,7 +205,8 @@ describe("Create Profile", () => {
       await program.methods
         .initialize("validhandle", tooLongBio, "https://example.com")
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          handleRecord: deriveHandleRecordPda("validhandle", program.programId)
         })
         .signers([user])
         .rpc();
@@ -209,7 +224,8 @@ describe("Create Profile", () => {
       await program.methods
         .initialize("validhandle", "Valid bio", "")
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          handleRecord: deriveHandleRecordPda("validhandle", program.programId)
         })
         .signers([user])
         .rpc();
@@ -229,7 +245,8 @@ describe("Create Profile", () => {
       await program.methods
         .initialize("validhandle", "Valid bio", tooLongUri)
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          handleRecord: deriveHandleRecordPda("validhandle", program.programId)
         })
         .signers([user])
         .rpc();
@@ -248,7 +265,8 @@ describe("Create Profile", () => {
     await program.methods
       .initialize("firstprofile", "First profile bio", "https://first.com")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda("firstprofile", program.programId)
       })
       .signers([user])
       .rpc();
@@ -260,7 +278,8 @@ describe("Create Profile", () => {
       await program.methods
         .initialize("secondprofile", "Second profile bio", "https://second.com")
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          handleRecord: deriveHandleRecordPda("secondprofile", program.programId)
         })
         .signers([user])
         .rpc();
@@ -292,7 +311,8 @@ describe("Create Profile", () => {
     await program.methods
       .initialize("correctpda", "Correct PDA test", "https://correct.com")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda("correctpda", program.programId)
       })
       .signers([user])
       .rpc();
@@ -304,7 +324,8 @@ describe("Create Profile", () => {
       await program.methods
         .initialize("wrongpda", "Wrong PDA test", "https://wrong.com")
         .accounts({
-          user: user2.publicKey
+          user: user2.publicKey,
+          handleRecord: deriveHandleRecordPda("wrongpda", program.programId)
         })
         .signers([user2])
         .rpc();
@@ -322,6 +343,7 @@ describe("Create Profile", () => {
 describe("Update Profile", () => {
   let user: anchor.web3.Keypair;
   let userProfilePda: anchor.web3.PublicKey;
+  let initialHandle: string;
 
   const provider = anchor.AnchorProvider.env();
   anchor.setProvider(provider);
@@ -346,10 +368,12 @@ describe("Update Profile", () => {
     [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
     // Create initial profile first
+    initialHandle = uniqueHandle("initialhandle");
     await program.methods
-      .initialize("initialhandle", "Initial bio", "https://initial.com/avatar.png")
+      .initialize(initialHandle, "Initial bio", "https://initial.com/avatar.png")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(initialHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -363,7 +387,10 @@ describe("Update Profile", () => {
     await program.methods
       .updateUserProfile(newHandle, null, null)
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        profile: userProfilePda,
+        oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+        newHandleRecord: deriveHandleRecordPda(newHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -383,13 +410,16 @@ describe("Update Profile", () => {
     await program.methods
       .updateUserProfile(null, newBio, null)
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        profile: userProfilePda,
+        oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+        newHandleRecord: null
       })
       .signers([user])
       .rpc();
 
     const updatedProfile = await program.account.userProfile.fetch(userProfilePda);
-    expect(updatedProfile.handle).to.equal("initialhandle");
+    expect(updatedProfile.handle).to.equal(initialHandle);
     expect(updatedProfile.bio).to.equal(newBio);
     expect(updatedProfile.avatarUri).to.equal("https://initial.com/avatar.png");
     expect(updatedProfile.updatedAt.toNumber()).to.be.greaterThan(updatedProfile.createdAt.toNumber());
@@ -403,13 +433,16 @@ describe("Update Profile", () => {
     await program.methods
       .updateUserProfile(null, null, newAvatarUri)
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        profile: userProfilePda,
+        oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+        newHandleRecord: null
       })
       .signers([user])
       .rpc();
 
     const updatedProfile = await program.account.userProfile.fetch(userProfilePda);
-    expect(updatedProfile.handle).to.equal("initialhandle");
+    expect(updatedProfile.handle).to.equal(initialHandle);
     expect(updatedProfile.bio).to.equal("Initial bio");
     expect(updatedProfile.avatarUri).to.equal(newAvatarUri);
     expect(updatedProfile.updatedAt.toNumber()).to.be.greaterThan(updatedProfile.createdAt.toNumber());
@@ -425,7 +458,10 @@ describe("Update Profile", () => {
     await program.methods
       .updateUserProfile(newHandle, newBio, newAvatarUri)
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        profile: userProfilePda,
+        oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+        newHandleRecord: deriveHandleRecordPda(newHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -442,7 +478,10 @@ describe("Update Profile", () => {
       await program.methods
         .updateUserProfile(null, null, null)
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          profile: userProfilePda,
+          oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+          newHandleRecord: null
         })
         .signers([user])
         .rpc();
@@ -461,7 +500,10 @@ describe("Update Profile", () => {
       await program.methods
         .updateUserProfile(tooLongHandle, null, null)
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          profile: userProfilePda,
+          oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+          newHandleRecord: deriveHandleRecordPda(tooLongHandle, program.programId)
         })
         .signers([user])
         .rpc();
@@ -480,7 +522,10 @@ describe("Update Profile", () => {
       await program.methods
         .updateUserProfile(null, tooLongBio, null)
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          profile: userProfilePda,
+          oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+          newHandleRecord: null
         })
         .signers([user])
         .rpc();
@@ -499,7 +544,10 @@ describe("Update Profile", () => {
       await program.methods
         .updateUserProfile(null, null, tooLongUri)
         .accounts({
-          user: user.publicKey
+          user: user.publicKey,
+          profile: userProfilePda,
+          oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+          newHandleRecord: null
         })
         .signers([user])
         .rpc();
@@ -520,6 +568,8 @@ describe("Update Profile", () => {
         .updateUserProfile("unauthorized", null, null)
         .accounts({
           user: unauthorizedUser.publicKey,
+          oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+          newHandleRecord: null,
           profile: userProfilePda
         })
         .signers([unauthorizedUser])
@@ -527,8 +577,8 @@ describe("Update Profile", () => {
 
       expect.fail("Should have thrown an error");
     } catch (error) {
-      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
-      expect(error.error.errorCode.number).to.equal(2006);
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+      expect(error.error.errorCode.number).to.equal(6012);
     }
   });
 
@@ -542,7 +592,10 @@ describe("Update Profile", () => {
     await program.methods
       .updateUserProfile(null, "Updated bio only", null)
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        profile: userProfilePda,
+        oldHandleRecord: deriveHandleRecordPda(initialHandle, program.programId),
+        newHandleRecord: null
       })
       .signers([user])
       .rpc();
@@ -550,7 +603,7 @@ describe("Update Profile", () => {
     const updatedProfile = await program.account.userProfile.fetch(userProfilePda);
 
     // Check that unchanged fields remain the same
-    expect(updatedProfile.handle).to.equal("initialhandle");
+    expect(updatedProfile.handle).to.equal(initialHandle);
     expect(updatedProfile.avatarUri).to.equal("https://initial.com/avatar.png");
     expect(updatedProfile.createdAt.toNumber()).to.equal(originalCreatedAt);
 
@@ -560,6 +613,205 @@ describe("Update Profile", () => {
   });
 });
 
+// ========================================
+// HANDLE REGISTRY TESTS
+// ========================================
+
+describe("Handle Registry", () => {
+  let user: anchor.web3.Keypair;
+  let userProfilePda: anchor.web3.PublicKey;
+  let handle: string;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+
+  function pda(seeds: (Buffer | Uint8Array)[]) {
+    return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
+  }
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  async function createProfile(owner: anchor.web3.Keypair, ownerHandle: string) {
+    await program.methods
+      .initialize(ownerHandle, "Registry bio", "https://registry.com/avatar.png")
+      .accounts({
+        user: owner.publicKey,
+        handleRecord: deriveHandleRecordPda(ownerHandle, program.programId)
+      })
+      .signers([owner])
+      .rpc();
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
+
+    handle = uniqueHandle("registry");
+    await createProfile(user, handle);
+  });
+
+  it("Should register the handle when creating a profile", async () => {
+    const record = await program.account.handleRecord.fetch(deriveHandleRecordPda(handle, program.programId));
+    expect(record.profile.toBase58()).to.equal(userProfilePda.toBase58());
+    expect(record.createdAt.toNumber()).to.be.greaterThan(0);
+  });
+
+  it("Should fail to create a profile with a taken handle", async () => {
+    const otherUser = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, otherUser.publicKey);
+
+    try {
+      await createProfile(otherUser, handle);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("HandleTaken");
+      expect(error.error.errorCode.number).to.equal(6014);
+    }
+  });
+
+  it("Should treat handles that differ only in case as taken", async () => {
+    const otherUser = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, otherUser.publicKey);
+
+    try {
+      await createProfile(otherUser, handle.toUpperCase());
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("HandleTaken");
+    }
+  });
+
+  it("Should move the registry entry when the handle changes", async () => {
+    const newHandle = uniqueHandle("moved");
+
+    await program.methods
+      .updateUserProfile(newHandle, null, null)
+      .accounts({
+        user: user.publicKey,
+        profile: userProfilePda,
+        oldHandleRecord: deriveHandleRecordPda(handle, program.programId),
+        newHandleRecord: deriveHandleRecordPda(newHandle, program.programId)
+      })
+      .signers([user])
+      .rpc();
+
+    const newRecord = await program.account.handleRecord.fetch(deriveHandleRecordPda(newHandle, program.programId));
+    expect(newRecord.profile.toBase58()).to.equal(userProfilePda.toBase58());
+
+    const oldRecord = await program.account.handleRecord.fetchNullable(deriveHandleRecordPda(handle, program.programId));
+    expect(oldRecord).to.be.null;
+
+    // The released handle can be claimed by someone else
+    const otherUser = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, otherUser.publicKey);
+    await createProfile(otherUser, handle);
+
+    const [otherProfilePda] = pda([Buffer.from("profile"), otherUser.publicKey.toBuffer()]);
+    const reclaimed = await program.account.handleRecord.fetch(deriveHandleRecordPda(handle, program.programId));
+    expect(reclaimed.profile.toBase58()).to.equal(otherProfilePda.toBase58());
+  });
+
+  it("Should keep the registry entry when only the case changes", async () => {
+    await program.methods
+      .updateUserProfile(handle.toUpperCase(), null, null)
+      .accounts({
+        user: user.publicKey,
+        profile: userProfilePda,
+        oldHandleRecord: deriveHandleRecordPda(handle, program.programId),
+        newHandleRecord: null
+      })
+      .signers([user])
+      .rpc();
+
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.handle).to.equal(handle.toUpperCase());
+
+    const record = await program.account.handleRecord.fetch(deriveHandleRecordPda(handle, program.programId));
+    expect(record.profile.toBase58()).to.equal(userProfilePda.toBase58());
+  });
+
+  it("Should fail to change to a handle that is taken", async () => {
+    const otherUser = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, otherUser.publicKey);
+    const otherHandle = uniqueHandle("other");
+    await createProfile(otherUser, otherHandle);
+
+    try {
+      await program.methods
+        .updateUserProfile(otherHandle, null, null)
+        .accounts({
+          user: user.publicKey,
+          profile: userProfilePda,
+          oldHandleRecord: deriveHandleRecordPda(handle, program.programId),
+          newHandleRecord: deriveHandleRecordPda(otherHandle, program.programId)
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("HandleTaken");
+      expect(error.error.errorCode.number).to.equal(6014);
+    }
+
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.handle).to.equal(handle);
+  });
+
+  it("Should fail to change the handle without the new registry account", async () => {
+    try {
+      await program.methods
+        .updateUserProfile(uniqueHandle("missing"), null, null)
+        .accounts({
+          user: user.publicKey,
+          profile: userProfilePda,
+          oldHandleRecord: deriveHandleRecordPda(handle, program.programId),
+          newHandleRecord: null
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("MissingHandleRecord");
+      expect(error.error.errorCode.number).to.equal(6015);
+    }
+  });
+
+  it("Should fail to change the handle while keeping the old registry entry", async () => {
+    const otherUser = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, otherUser.publicKey);
+    const otherHandle = uniqueHandle("bystander");
+    await createProfile(otherUser, otherHandle);
+    const newHandle = uniqueHandle("keeper");
+
+    try {
+      await program.methods
+        .updateUserProfile(newHandle, null, null)
+        .accounts({
+          user: user.publicKey,
+          profile: userProfilePda,
+          oldHandleRecord: deriveHandleRecordPda(otherHandle, program.programId),
+          newHandleRecord: deriveHandleRecordPda(newHandle, program.programId)
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
+    }
+
+    const record = await program.account.handleRecord.fetch(deriveHandleRecordPda(handle, program.programId));
+    expect(record.profile.toBase58()).to.equal(userProfilePda.toBase58());
+  });
+});
+
 // ========================================
 // ADD POST TESTS
 // ========================================
@@ -572,6 +824,7 @@ describe("Add Post", () => {
   anchor.setProvider(provider);
 
   const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
 
   function pda(seeds: (Buffer | Uint8Array)[]) {
     return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
@@ -591,10 +844,12 @@ describe("Add Post", () => {
     [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
     // Create profile first (required for posting)
+    const userHandle = uniqueHandle("postuser");
     await program.methods
-      .initialize("postuser", "User who posts", "https://postuser.com/avatar.png")
+      .initialize(userHandle, "User who posts", "https://postuser.com/avatar.png")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -604,16 +859,11 @@ describe("Add Post", () => {
     const mediaUri = "https://example.com/image.jpg";
     const content = "This is my first post content!";
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -635,16 +885,11 @@ describe("Add Post", () => {
     const mediaUri = "a";
     const content = "b";
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -661,16 +906,11 @@ describe("Add Post", () => {
     const maxContent = generateString(280); // MAX_TEXT_LENGTH
     const maxMediaUri = generateString(200); // MAX_URI_LENGTH
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(maxMediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(maxMediaUri, maxContent)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -687,18 +927,13 @@ describe("Add Post", () => {
     const mediaUri = "https://timestamp.com/image.jpg";
     const content = "Testing post timestamps";
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     const beforeTime = Math.floor(Date.now() / 1000) - 10;
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -717,21 +952,47 @@ describe("Add Post", () => {
     expect(createdAt).to.equal(updatedAt);
   });
 
+  it("Should store created_at at a fixed offset for sliced reads", async () => {
+    const mediaUri = "https://slice.com/image.jpg";
+    const content = "Content before and after the timestamp varies in length";
+
+    const postPda = await client.nextPostPda(user.publicKey);
+
+    await program.methods
+      .createPost(mediaUri, content)
+      .accountsPartial({
+        creator: user.publicKey,
+        post: postPda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+
+    // discriminator + profile + creator
+    const accounts = await provider.connection.getProgramAccounts(program.programId, {
+      dataSlice: { offset: 8 + 32 + 32, length: 8 },
+      filters: [
+        { memcmp: program.coder.accounts.memcmp("post") },
+        { memcmp: { offset: 8, bytes: userProfilePda.toBase58() } }
+      ]
+    });
+
+    const post = await program.account.post.fetch(postPda);
+    expect(accounts.length).to.equal(1);
+    expect(accounts[0].pubkey.toBase58()).to.equal(postPda.toBase58());
+    expect(Number(accounts[0].account.data.readBigUInt64LE(0))).to.equal(post.createdAt.toNumber());
+  });
+
   it("Should fail with empty content", async () => {
     const mediaUri = "https://example.com/image.jpg";
     const content = "";
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     try {
       await program.methods
         .createPost(mediaUri, content)
-        .accounts({
+        .accountsPartial({
           creator: user.publicKey,
           post: postPda,
           profile: userProfilePda
@@ -750,17 +1011,12 @@ describe("Add Post", () => {
     const mediaUri = "https://example.com/image.jpg";
     const tooLongContent = generateString(281); // MAX_TEXT_LENGTH + 1
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     try {
       await program.methods
         .createPost(mediaUri, tooLongContent)
-        .accounts({
+        .accountsPartial({
           creator: user.publicKey,
           post: postPda,
           profile: userProfilePda
@@ -779,17 +1035,12 @@ describe("Add Post", () => {
     const mediaUri = "";
     const content = "Valid content";
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     try {
       await program.methods
         .createPost(mediaUri, content)
-        .accounts({
+        .accountsPartial({
           creator: user.publicKey,
           post: postPda,
           profile: userProfilePda
@@ -808,17 +1059,12 @@ describe("Add Post", () => {
     const tooLongMediaUri = generateString(201); // MAX_URI_LENGTH + 1
     const content = "Valid content";
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(tooLongMediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     try {
       await program.methods
         .createPost(tooLongMediaUri, content)
-        .accounts({
+        .accountsPartial({
           creator: user.publicKey,
           post: postPda,
           profile: userProfilePda
@@ -838,26 +1084,16 @@ describe("Add Post", () => {
     const mediaUri2 = "https://example.com/image2.jpg";
     const content = "Same content, different media";
 
-    const [postPda1] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri1, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
-
-    const [postPda2] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri2, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const { createdSlot, postCount } = await program.account.userProfile.fetch(userProfilePda);
+    const postPda1 = derivePostPda(user.publicKey, createdSlot.toNumber(), postCount.toNumber(), program.programId);
+    const postPda2 = derivePostPda(user.publicKey, createdSlot.toNumber(), postCount.toNumber() + 1, program.programId);
 
     expect(postPda1.toBase58()).to.not.equal(postPda2.toBase58());
 
     // Create both posts
     await program.methods
       .createPost(mediaUri1, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda1,
         profile: userProfilePda
@@ -867,7 +1103,7 @@ describe("Add Post", () => {
 
     await program.methods
       .createPost(mediaUri2, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda2,
         profile: userProfilePda
@@ -886,16 +1122,11 @@ describe("Add Post", () => {
     const mediaUri = "https://reactions.com/image.jpg";
     const content = "Testing reaction counts";
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -917,24 +1148,18 @@ describe("Add Post", () => {
     const mediaUri = "https://correctpda.com/image.jpg";
     const content = "Correct PDA test";
 
-    const [correctPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const correctPda = await client.nextPostPda(user.publicKey);
 
     const [wrongPda] = pda([
       Buffer.from("wrong_seed"),
       user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
+      indexSeed(1)
     ]);
 
     // This should succeed with correct PDA
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: correctPda,
         profile: userProfilePda
@@ -948,7 +1173,7 @@ describe("Add Post", () => {
     try {
       await program.methods
         .createPost(mediaUri, content)
-        .accounts({
+        .accountsPartial({
           creator: user2.publicKey,
           post: wrongPda,
           profile: userProfilePda
@@ -967,16 +1192,11 @@ describe("Add Post", () => {
     const mediaUri = "https://profiletest.com/image.jpg";
     const content = "Testing profile association";
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -993,17 +1213,12 @@ describe("Add Post", () => {
     const mediaUri = "https://wrongprofile.com/image.jpg";
     const content = "Testing wrong profile access";
 
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user.publicKey);
 
     // Create post with correct profile
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -1039,6 +1254,7 @@ describe("Delete Post", () => {
   anchor.setProvider(provider);
 
   const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
 
   function pda(seeds: (Buffer | Uint8Array)[]) {
     return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
@@ -1054,10 +1270,12 @@ describe("Delete Post", () => {
     [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
     // Create profile first
+    const userHandle = uniqueHandle("deleteuser");
     await program.methods
-      .initialize("deleteuser", "User who deletes posts", "https://deleteuser.com/avatar.png")
+      .initialize(userHandle, "User who deletes posts", "https://deleteuser.com/avatar.png")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -1065,16 +1283,11 @@ describe("Delete Post", () => {
     // Create a post to delete
     const mediaUri = "https://example.com/deletepost.jpg";
     const content = "Post to be deleted";
-    [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -1144,8 +1357,8 @@ describe("Delete Post", () => {
 
       expect.fail("Should have thrown an error");
     } catch (error) {
-      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
-      expect(error.error.errorCode.number).to.equal(2006);
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+      expect(error.error.errorCode.number).to.equal(6012);
     }
   });
 
@@ -1165,19 +1378,14 @@ describe("Delete Post", () => {
 
       expect.fail("Should have thrown an error");
     } catch (error) {
-      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
-      expect(error.error.errorCode.number).to.equal(2006);
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+      expect(error.error.errorCode.number).to.equal(6012);
     }
   });
 
   it("Should fail when trying to delete non-existent post", async () => {
     const nonExistentPost = anchor.web3.Keypair.generate();
-    const [nonExistentPostPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from("nonexistent", 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const nonExistentPostPda = await client.nextPostPda(user.publicKey);
 
     try {
       await program.methods
@@ -1200,16 +1408,11 @@ describe("Delete Post", () => {
     // Create second post
     const mediaUri2 = "https://example.com/post2.jpg";
     const content2 = "Second post to delete";
-    const [postPda2] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri2, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda2 = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri2, content2)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda2,
         profile: userProfilePda,
@@ -1288,26 +1491,23 @@ describe("Delete Post", () => {
     await airdrop(provider.connection, user2.publicKey);
     const [user2ProfilePda] = pda([Buffer.from("profile"), user2.publicKey.toBuffer()]);
 
+    const user2Handle = uniqueHandle("user2");
     await program.methods
-      .initialize("user2", "Second user", "https://user2.com/avatar.png")
+      .initialize(user2Handle, "Second user", "https://user2.com/avatar.png")
       .accounts({
-        user: user2.publicKey
+        user: user2.publicKey,
+        handleRecord: deriveHandleRecordPda(user2Handle, program.programId)
       })
       .signers([user2])
       .rpc();
 
     const mediaUri2 = "https://example.com/user2post.jpg";
     const content2 = "User2's post";
-    const [postPda2] = pda([
-      Buffer.from("post"),
-      user2.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri2, 'utf8')).digest().slice(0, 4),
-      user2ProfilePda.toBuffer()
-    ]);
+    const postPda2 = await client.nextPostPda(user2.publicKey);
 
     await program.methods
       .createPost(mediaUri2, content2)
-      .accounts({
+      .accountsPartial({
         creator: user2.publicKey,
         post: postPda2,
         profile: user2ProfilePda,
@@ -1328,8 +1528,8 @@ describe("Delete Post", () => {
 
       expect.fail("Should have thrown an error");
     } catch (error) {
-      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
-      expect(error.error.errorCode.number).to.equal(2006);
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+      expect(error.error.errorCode.number).to.equal(6012);
     }
   });
 });
@@ -1347,6 +1547,7 @@ describe("Add Comment", () => {
   anchor.setProvider(provider);
 
   const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
 
   function pda(seeds: (Buffer | Uint8Array)[]) {
     return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
@@ -1366,10 +1567,12 @@ describe("Add Comment", () => {
     [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
     // Create profile first
+    const userHandle = uniqueHandle("commentuser");
     await program.methods
-      .initialize("commentuser", "User who comments", "https://commentuser.com/avatar.png")
+      .initialize(userHandle, "User who comments", "https://commentuser.com/avatar.png")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -1377,16 +1580,11 @@ describe("Add Comment", () => {
     // Create a post to comment on
     const mediaUri = "https://example.com/post.jpg";
     const content = "Original post content";
-    [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -1397,16 +1595,11 @@ describe("Add Comment", () => {
 
   it("Should create comment with valid inputs", async () => {
     const commentContent = "This is a great comment!";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     await program.methods
       .createComment(commentContent)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda,
         post: postPda,
@@ -1424,16 +1617,11 @@ describe("Add Comment", () => {
 
   it("Should create comment with minimum length content", async () => {
     const commentContent = "a";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     await program.methods
       .createComment(commentContent)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda,
         post: postPda
@@ -1447,16 +1635,11 @@ describe("Add Comment", () => {
 
   it("Should create comment with maximum length content", async () => {
     const commentContent = generateString(280); // MAX_TEXT_LENGTH
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     await program.methods
       .createComment(commentContent)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda,
         post: postPda
@@ -1470,18 +1653,13 @@ describe("Add Comment", () => {
 
   it("Should set correct timestamps for comment", async () => {
     const commentContent = "Testing comment timestamps";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     const beforeTime = Math.floor(Date.now() / 1000) - 10;
 
     await program.methods
       .createComment(commentContent)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda,
         post: postPda
@@ -1502,17 +1680,12 @@ describe("Add Comment", () => {
 
   it("Should fail with empty content", async () => {
     const commentContent = "";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     try {
       await program.methods
         .createComment(commentContent)
-        .accounts({
+        .accountsPartial({
           commenter: user.publicKey,
           comment: commentPda,
           post: postPda
@@ -1529,17 +1702,12 @@ describe("Add Comment", () => {
 
   it("Should fail with content too long (281 chars)", async () => {
     const commentContent = generateString(281); // MAX_TEXT_LENGTH + 1
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     try {
       await program.methods
         .createComment(commentContent)
-        .accounts({
+        .accountsPartial({
           commenter: user.publicKey,
           comment: commentPda,
           post: postPda
@@ -1559,16 +1727,11 @@ describe("Add Comment", () => {
     const originalCommentCount = originalPost.commentCount.toNumber();
 
     const commentContent = "Comment that increments count";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     await program.methods
       .createComment(commentContent)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda,
         post: postPda
@@ -1587,16 +1750,11 @@ describe("Add Comment", () => {
     await new Promise(resolve => setTimeout(resolve, 1000));
 
     const commentContent = "Comment that updates timestamp";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     await program.methods
       .createComment(commentContent)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda,
         post: postPda
@@ -1612,26 +1770,16 @@ describe("Add Comment", () => {
     const comment1 = "First comment";
     const comment2 = "Second comment";
 
-    const [commentPda1] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(comment1, 'utf8')).digest().slice(0, 4)
-    ]);
-
-    const [commentPda2] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(comment2, 'utf8')).digest().slice(0, 4)
-    ]);
+    const { nextCommentIndex } = await program.account.post.fetch(postPda);
+    const commentPda1 = deriveCommentPda(postPda, nextCommentIndex.toNumber(), program.programId);
+    const commentPda2 = deriveCommentPda(postPda, nextCommentIndex.toNumber() + 1, program.programId);
 
     expect(commentPda1.toBase58()).to.not.equal(commentPda2.toBase58());
 
     // Create both comments
     await program.methods
       .createComment(comment1)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda1,
         post: postPda
@@ -1641,7 +1789,7 @@ describe("Add Comment", () => {
 
     await program.methods
       .createComment(comment2)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda2,
         post: postPda
@@ -1658,24 +1806,18 @@ describe("Add Comment", () => {
 
   it("Should validate that comment PDA is derived correctly", async () => {
     const commentContent = "Correct PDA test";
-    const [correctPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const correctPda = await client.nextCommentPda(postPda);
 
     const [wrongPda] = pda([
       Buffer.from("wrong_seed"),
       postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
+      indexSeed(1)
     ]);
 
     // This should succeed with correct PDA
     await program.methods
       .createComment(commentContent)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: correctPda,
         post: postPda
@@ -1689,7 +1831,7 @@ describe("Add Comment", () => {
     try {
       await program.methods
         .createComment(commentContent)
-        .accounts({
+        .accountsPartial({
           commenter: user2.publicKey,
           comment: wrongPda,
           post: postPda
@@ -1719,6 +1861,7 @@ describe("Add Reaction", () => {
   anchor.setProvider(provider);
 
   const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
 
   function pda(seeds: (Buffer | Uint8Array)[]) {
     return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
@@ -1734,10 +1877,12 @@ describe("Add Reaction", () => {
     [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
     // Create profile first
+    const userHandle = uniqueHandle("reactionuser");
     await program.methods
-      .initialize("reactionuser", "User who reacts", "https://reactionuser.com/avatar.png")
+      .initialize(userHandle, "User who reacts", "https://reactionuser.com/avatar.png")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -1745,16 +1890,11 @@ describe("Add Reaction", () => {
     // Create a post to react to
     const mediaUri = "https://example.com/reactionpost.jpg";
     const content = "Post for reactions";
-    [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -2027,16 +2167,11 @@ describe("Add Reaction", () => {
     // Create second post
     const mediaUri2 = "https://example.com/post2.jpg";
     const content2 = "Second post for reactions";
-    const [postPda2] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri2, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    const postPda2 = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri2, content2)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda2,
         profile: userProfilePda
@@ -2094,18 +2229,22 @@ describe("Follow User", () => {
     [user2ProfilePda] = pda([Buffer.from("profile"), user2.publicKey.toBuffer()]);
 
     // Create profiles for both users
+    const user1Handle = uniqueHandle("user1");
     await program.methods
-      .initialize("user1", "First user", "https://user1.com/avatar.png")
+      .initialize(user1Handle, "First user", "https://user1.com/avatar.png")
       .accounts({
-        user: user1.publicKey
+        user: user1.publicKey,
+        handleRecord: deriveHandleRecordPda(user1Handle, program.programId)
       })
       .signers([user1])
       .rpc();
 
+    const user2Handle = uniqueHandle("user2");
     await program.methods
-      .initialize("user2", "Second user", "https://user2.com/avatar.png")
+      .initialize(user2Handle, "Second user", "https://user2.com/avatar.png")
       .accounts({
-        user: user2.publicKey
+        user: user2.publicKey,
+        handleRecord: deriveHandleRecordPda(user2Handle, program.programId)
       })
       .signers([user2])
       .rpc();
@@ -2114,8 +2253,8 @@ describe("Follow User", () => {
   it("Should follow user successfully", async () => {
     const [followPda] = pda([
       Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
-      user2.publicKey.toBuffer()
+      user1ProfilePda.toBuffer(),
+      user2ProfilePda.toBuffer()
     ]);
 
     await program.methods
@@ -2246,14 +2385,14 @@ describe("Follow User", () => {
   it("Should generate different PDAs for different follow relationships", async () => {
     const [followPda1] = pda([
       Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
-      user2.publicKey.toBuffer()
+      user1ProfilePda.toBuffer(),
+      user2ProfilePda.toBuffer()
     ]);
 
     const [followPda2] = pda([
       Buffer.from("follow"),
-      user2.publicKey.toBuffer(),
-      user1.publicKey.toBuffer()
+      user2ProfilePda.toBuffer(),
+      user1ProfilePda.toBuffer()
     ]);
 
     expect(followPda1.toBase58()).to.not.equal(followPda2.toBase58());
@@ -2293,7 +2432,7 @@ describe("Follow User", () => {
     const nonExistentProfile = anchor.web3.Keypair.generate();
     const [followPda] = pda([
       Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
+      user1ProfilePda.toBuffer(),
       nonExistentProfile.publicKey.toBuffer()
     ]);
 
@@ -2327,6 +2466,7 @@ describe("Fetch Profile Posts", () => {
   anchor.setProvider(provider);
 
   const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
 
   function pda(seeds: (Buffer | Uint8Array)[]) {
     return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
@@ -2342,46 +2482,34 @@ describe("Fetch Profile Posts", () => {
     [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
     // Create profile first
+    const userHandle = uniqueHandle("fetchuser");
     await program.methods
-      .initialize("fetchuser", "User who fetches posts", "https://fetchuser.com/avatar.png")
+      .initialize(userHandle, "User who fetches posts", "https://fetchuser.com/avatar.png")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
       })
       .signers([user])
       .rpc();
 
-    // Create multiple posts for the same profile
+    // Create multiple posts for the same profile; it is new, so they are numbered from 0
+    const { createdSlot } = await program.account.userProfile.fetch(userProfilePda);
     const mediaUri1 = "https://example.com/post1.jpg";
     const content1 = "First post content";
-    [postPda1] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri1, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    postPda1 = derivePostPda(user.publicKey, createdSlot.toNumber(), 0, program.programId);
 
     const mediaUri2 = "https://example.com/post2.jpg";
     const content2 = "Second post content";
-    [postPda2] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri2, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    postPda2 = derivePostPda(user.publicKey, createdSlot.toNumber(), 1, program.programId);
 
     const mediaUri3 = "https://example.com/post3.jpg";
     const content3 = "Third post content";
-    [postPda3] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri3, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    postPda3 = derivePostPda(user.publicKey, createdSlot.toNumber(), 2, program.programId);
 
     // Create all three posts
     await program.methods
       .createPost(mediaUri1, content1)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda1,
         profile: userProfilePda
@@ -2391,7 +2519,7 @@ describe("Fetch Profile Posts", () => {
 
     await program.methods
       .createPost(mediaUri2, content2)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda2,
         profile: userProfilePda
@@ -2401,7 +2529,7 @@ describe("Fetch Profile Posts", () => {
 
     await program.methods
       .createPost(mediaUri3, content3)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda3,
         profile: userProfilePda
@@ -2446,7 +2574,8 @@ describe("Fetch Profile Posts", () => {
     await program.methods
       .initialize("otheruser", "Other user", "https://other.com/avatar.png")
       .accounts({
-        user: otherUser.publicKey
+        user: otherUser.publicKey,
+        handleRecord: deriveHandleRecordPda("otheruser", program.programId)
       })
       .signers([otherUser])
       .rpc();
@@ -2454,16 +2583,11 @@ describe("Fetch Profile Posts", () => {
     // Create a post for the other profile
     const otherMediaUri = "https://other.com/post.jpg";
     const otherContent = "Other user's post";
-    const [otherPostPda] = pda([
-      Buffer.from("post"),
-      otherUser.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(otherMediaUri, 'utf8')).digest().slice(0, 4),
-      otherProfilePda.toBuffer()
-    ]);
+    const otherPostPda = await client.nextPostPda(otherUser.publicKey);
 
     await program.methods
       .createPost(otherMediaUri, otherContent)
-      .accounts({
+      .accountsPartial({
         creator: otherUser.publicKey,
         post: otherPostPda,
         profile: otherProfilePda
@@ -2499,7 +2623,8 @@ describe("Fetch Profile Posts", () => {
     await program.methods
       .initialize("newuser", "New user with no posts", "https://newuser.com/avatar.png")
       .accounts({
-        user: newUser.publicKey
+        user: newUser.publicKey,
+        handleRecord: deriveHandleRecordPda("newuser", program.programId)
       })
       .signers([newUser])
       .rpc();
@@ -2548,6 +2673,7 @@ describe("Fetch All Posts Across All Users", () => {
   anchor.setProvider(provider);
 
   const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
 
   function pda(seeds: (Buffer | Uint8Array)[]) {
     return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
@@ -2571,26 +2697,32 @@ describe("Fetch All Posts Across All Users", () => {
     [user3ProfilePda] = pda([Buffer.from("profile"), user3.publicKey.toBuffer()]);
 
     // Create profiles for all users
+    const user1Handle = uniqueHandle("user1");
     await program.methods
-      .initialize("user1", "First user", "https://user1.com/avatar.png")
+      .initialize(user1Handle, "First user", "https://user1.com/avatar.png")
       .accounts({
-        user: user1.publicKey
+        user: user1.publicKey,
+        handleRecord: deriveHandleRecordPda(user1Handle, program.programId)
       })
       .signers([user1])
       .rpc();
 
+    const user2Handle = uniqueHandle("user2");
     await program.methods
-      .initialize("user2", "Second user", "https://user2.com/avatar.png")
+      .initialize(user2Handle, "Second user", "https://user2.com/avatar.png")
       .accounts({
-        user: user2.publicKey
+        user: user2.publicKey,
+        handleRecord: deriveHandleRecordPda(user2Handle, program.programId)
       })
       .signers([user2])
       .rpc();
 
+    const user3Handle = uniqueHandle("user3");
     await program.methods
-      .initialize("user3", "Third user", "https://user3.com/avatar.png")
+      .initialize(user3Handle, "Third user", "https://user3.com/avatar.png")
       .accounts({
-        user: user3.publicKey
+        user: user3.publicKey,
+        handleRecord: deriveHandleRecordPda(user3Handle, program.programId)
       })
       .signers([user3])
       .rpc();
@@ -2600,46 +2732,27 @@ describe("Fetch All Posts Across All Users", () => {
     // Create posts for user1
     const mediaUri1 = "https://user1.com/post1.jpg";
     const content1 = "User1 first post";
-    const [postPda1] = pda([
-      Buffer.from("post"),
-      user1.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri1, 'utf8')).digest().slice(0, 4),
-      user1ProfilePda.toBuffer()
-    ]);
+    const { createdSlot: user1CreatedSlot, postCount: user1PostCount } = await program.account.userProfile.fetch(user1ProfilePda);
+    const postPda1 = derivePostPda(user1.publicKey, user1CreatedSlot.toNumber(), user1PostCount.toNumber(), program.programId);
 
     const mediaUri2 = "https://user1.com/post2.jpg";
     const content2 = "User1 second post";
-    const [postPda2] = pda([
-      Buffer.from("post"),
-      user1.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri2, 'utf8')).digest().slice(0, 4),
-      user1ProfilePda.toBuffer()
-    ]);
+    const postPda2 = derivePostPda(user1.publicKey, user1CreatedSlot.toNumber(), user1PostCount.toNumber() + 1, program.programId);
 
     // Create posts for user2
     const mediaUri3 = "https://user2.com/post1.jpg";
     const content3 = "User2 first post";
-    const [postPda3] = pda([
-      Buffer.from("post"),
-      user2.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri3, 'utf8')).digest().slice(0, 4),
-      user2ProfilePda.toBuffer()
-    ]);
+    const postPda3 = await client.nextPostPda(user2.publicKey);
 
     // Create post for user3
     const mediaUri4 = "https://user3.com/post1.jpg";
     const content4 = "User3 first post";
-    const [postPda4] = pda([
-      Buffer.from("post"),
-      user3.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri4, 'utf8')).digest().slice(0, 4),
-      user3ProfilePda.toBuffer()
-    ]);
+    const postPda4 = await client.nextPostPda(user3.publicKey);
 
     // Create all posts
     await program.methods
       .createPost(mediaUri1, content1)
-      .accounts({
+      .accountsPartial({
         creator: user1.publicKey,
         post: postPda1,
         profile: user1ProfilePda
@@ -2649,7 +2762,7 @@ describe("Fetch All Posts Across All Users", () => {
 
     await program.methods
       .createPost(mediaUri2, content2)
-      .accounts({
+      .accountsPartial({
         creator: user1.publicKey,
         post: postPda2,
         profile: user1ProfilePda
@@ -2659,7 +2772,7 @@ describe("Fetch All Posts Across All Users", () => {
 
     await program.methods
       .createPost(mediaUri3, content3)
-      .accounts({
+      .accountsPartial({
         creator: user2.publicKey,
         post: postPda3,
         profile: user2ProfilePda
@@ -2669,7 +2782,7 @@ describe("Fetch All Posts Across All Users", () => {
 
     await program.methods
       .createPost(mediaUri4, content4)
-      .accounts({
+      .accountsPartial({
         creator: user3.publicKey,
         post: postPda4,
         profile: user3ProfilePda
@@ -2707,16 +2820,11 @@ describe("Fetch All Posts Across All Users", () => {
     // Create a simple post for testing structure
     const mediaUri = "https://test.com/structure.jpg";
     const content = "Testing post structure";
-    const [postPda] = pda([
-      Buffer.from("post"),
-      user1.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      user1ProfilePda.toBuffer()
-    ]);
+    const postPda = await client.nextPostPda(user1.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user1.publicKey,
         post: postPda,
         profile: user1ProfilePda
@@ -2771,16 +2879,11 @@ describe("Fetch All Posts Across All Users", () => {
     // Create posts with delays to ensure different timestamps
     const mediaUri1 = "https://user1.com/old.jpg";
     const content1 = "Oldest post";
-    const [postPda1] = pda([
-      Buffer.from("post"),
-      user1.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri1, 'utf8')).digest().slice(0, 4),
-      user1ProfilePda.toBuffer()
-    ]);
+    const postPda1 = await client.nextPostPda(user1.publicKey);
 
     await program.methods
       .createPost(mediaUri1, content1)
-      .accounts({
+      .accountsPartial({
         creator: user1.publicKey,
         post: postPda1,
         profile: user1ProfilePda
@@ -2793,16 +2896,11 @@ describe("Fetch All Posts Across All Users", () => {
 
     const mediaUri2 = "https://user1.com/new.jpg";
     const content2 = "Newest post";
-    const [postPda2] = pda([
-      Buffer.from("post"),
-      user1.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri2, 'utf8')).digest().slice(0, 4),
-      user1ProfilePda.toBuffer()
-    ]);
+    const postPda2 = await client.nextPostPda(user1.publicKey);
 
     await program.methods
       .createPost(mediaUri2, content2)
-      .accounts({
+      .accountsPartial({
         creator: user1.publicKey,
         post: postPda2,
         profile: user1ProfilePda
@@ -2840,6 +2938,7 @@ describe("Comprehensive Comment Tests", () => {
   anchor.setProvider(provider);
 
   const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
 
   function pda(seeds: (Buffer | Uint8Array)[]) {
     return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
@@ -2859,10 +2958,12 @@ describe("Comprehensive Comment Tests", () => {
     [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
     // Create profile first
+    const userHandle = uniqueHandle("commentuser");
     await program.methods
-      .initialize("commentuser", "User who comments", "https://commentuser.com/avatar.png")
+      .initialize(userHandle, "User who comments", "https://commentuser.com/avatar.png")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -2870,16 +2971,11 @@ describe("Comprehensive Comment Tests", () => {
     // Create a post to comment on
     const mediaUri = "https://example.com/post.jpg";
     const content = "Original post content";
-    [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -2894,31 +2990,15 @@ describe("Comprehensive Comment Tests", () => {
     const comment2 = "Second comment";
     const comment3 = "Third comment";
 
-    const [commentPda1] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(comment1, 'utf8')).digest().slice(0, 4)
-    ]);
-
-    const [commentPda2] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(comment2, 'utf8')).digest().slice(0, 4)
-    ]);
-
-    const [commentPda3] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(comment3, 'utf8')).digest().slice(0, 4)
-    ]);
+    const { nextCommentIndex } = await program.account.post.fetch(postPda);
+    const commentPda1 = deriveCommentPda(postPda, nextCommentIndex.toNumber(), program.programId);
+    const commentPda2 = deriveCommentPda(postPda, nextCommentIndex.toNumber() + 1, program.programId);
+    const commentPda3 = deriveCommentPda(postPda, nextCommentIndex.toNumber() + 2, program.programId);
 
     // Create all three comments
     await program.methods
       .createComment(comment1)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda1,
         post: postPda
@@ -2928,7 +3008,7 @@ describe("Comprehensive Comment Tests", () => {
 
     await program.methods
       .createComment(comment2)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda2,
         post: postPda
@@ -2938,7 +3018,7 @@ describe("Comprehensive Comment Tests", () => {
 
     await program.methods
       .createComment(comment3)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda3,
         post: postPda
@@ -2962,16 +3042,11 @@ describe("Comprehensive Comment Tests", () => {
 
   it("Should create comments with special characters and emojis", async () => {
     const specialComment = "Comment with special chars: !@#$%^&*()_+-=[]{}|;':\",./<>? and emojis 🚀🎉💯";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(specialComment, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     await program.methods
       .createComment(specialComment)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda,
         post: postPda
@@ -2988,10 +3063,12 @@ describe("Comprehensive Comment Tests", () => {
     await airdrop(provider.connection, user2.publicKey);
     const [user2ProfilePda] = pda([Buffer.from("profile"), user2.publicKey.toBuffer()]);
 
+    const user2Handle = uniqueHandle("user2");
     await program.methods
-      .initialize("user2", "Second user", "https://user2.com/avatar.png")
+      .initialize(user2Handle, "Second user", "https://user2.com/avatar.png")
       .accounts({
-        user: user2.publicKey
+        user: user2.publicKey,
+        handleRecord: deriveHandleRecordPda(user2Handle, program.programId)
       })
       .signers([user2])
       .rpc();
@@ -2999,23 +3076,13 @@ describe("Comprehensive Comment Tests", () => {
     const comment1 = "Comment from user1";
     const comment2 = "Comment from user2";
 
-    const [commentPda1] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(comment1, 'utf8')).digest().slice(0, 4)
-    ]);
-
-    const [commentPda2] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user2.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(comment2, 'utf8')).digest().slice(0, 4)
-    ]);
+    const { nextCommentIndex } = await program.account.post.fetch(postPda);
+    const commentPda1 = deriveCommentPda(postPda, nextCommentIndex.toNumber(), program.programId);
+    const commentPda2 = deriveCommentPda(postPda, nextCommentIndex.toNumber() + 1, program.programId);
 
     await program.methods
       .createComment(comment1)
-      .accounts({
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda1,
         post: postPda
@@ -3025,7 +3092,7 @@ describe("Comprehensive Comment Tests", () => {
 
     await program.methods
       .createComment(comment2)
-      .accounts({
+      .accountsPartial({
         commenter: user2.publicKey,
         comment: commentPda2,
         post: postPda
@@ -3046,17 +3113,12 @@ describe("Comprehensive Comment Tests", () => {
   it("Should fail when trying to comment on non-existent post", async () => {
     const nonExistentPost = anchor.web3.Keypair.generate();
     const commentContent = "Comment on non-existent post";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      nonExistentPost.publicKey.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = deriveCommentPda(nonExistentPost.publicKey, 0, program.programId);
 
     try {
       await program.methods
         .createComment(commentContent)
-        .accounts({
+        .accountsPartial({
           commenter: user.publicKey,
           comment: commentPda,
           post: nonExistentPost.publicKey
@@ -3075,17 +3137,12 @@ describe("Comprehensive Comment Tests", () => {
     await airdrop(provider.connection, unauthorizedUser.publicKey);
 
     const commentContent = "Unauthorized comment";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      unauthorizedUser.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+    const commentPda = await client.nextCommentPda(postPda);
 
     try {
       await program.methods
         .createComment(commentContent)
-        .accounts({
+        .accountsPartial({
           commenter: unauthorizedUser.publicKey,
           comment: commentPda,
           post: postPda
@@ -3099,19 +3156,45 @@ describe("Comprehensive Comment Tests", () => {
     }
   });
 
-  it("Should fail when trying to create duplicate comment", async () => {
-    const commentContent = "Duplicate comment";
-    const [commentPda] = pda([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(commentContent, 'utf8')).digest().slice(0, 4)
-    ]);
+  it("Should allow the same comment text twice on one post", async () => {
+    const commentContent = "nice!";
+    const firstPda = await client.nextCommentPda(postPda);
 
-    // Create first comment
     await program.methods
       .createComment(commentContent)
-      .accounts({
+      .accountsPartial({
+        commenter: user.publicKey,
+        comment: firstPda,
+        post: postPda
+      })
+      .signers([user])
+      .rpc();
+
+    const secondPda = await client.nextCommentPda(postPda);
+    expect(secondPda.toBase58()).to.not.equal(firstPda.toBase58());
+
+    await program.methods
+      .createComment(commentContent)
+      .accountsPartial({
+        commenter: user.publicKey,
+        comment: secondPda,
+        post: postPda
+      })
+      .signers([user])
+      .rpc();
+
+    const first = await program.account.comment.fetch(firstPda);
+    const second = await program.account.comment.fetch(secondPda);
+    expect(first.content).to.equal(commentContent);
+    expect(second.content).to.equal(commentContent);
+  });
+
+  it("Should fail when reusing the address of an existing comment", async () => {
+    const commentPda = await client.nextCommentPda(postPda);
+
+    await program.methods
+      .createComment("Taken address")
+      .accountsPartial({
         commenter: user.publicKey,
         comment: commentPda,
         post: postPda
@@ -3119,11 +3202,10 @@ describe("Comprehensive Comment Tests", () => {
       .signers([user])
       .rpc();
 
-    // Try to create same comment again
     try {
       await program.methods
-        .createComment(commentContent)
-        .accounts({
+        .createComment("Taken address")
+        .accountsPartial({
           commenter: user.publicKey,
           comment: commentPda,
           post: postPda
@@ -3133,7 +3215,7 @@ describe("Comprehensive Comment Tests", () => {
 
       expect.fail("Should have thrown an error");
     } catch (error) {
-      expect(error).to.exist;
+      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
     }
   });
 });
@@ -3151,6 +3233,7 @@ describe("Comprehensive Reaction Tests", () => {
   anchor.setProvider(provider);
 
   const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
 
   function pda(seeds: (Buffer | Uint8Array)[]) {
     return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
@@ -3166,10 +3249,12 @@ describe("Comprehensive Reaction Tests", () => {
     [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
     // Create profile first
+    const userHandle = uniqueHandle("reactionuser");
     await program.methods
-      .initialize("reactionuser", "User who reacts", "https://reactionuser.com/avatar.png")
+      .initialize(userHandle, "User who reacts", "https://reactionuser.com/avatar.png")
       .accounts({
-        user: user.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
       })
       .signers([user])
       .rpc();
@@ -3177,16 +3262,11 @@ describe("Comprehensive Reaction Tests", () => {
     // Create a post to react to
     const mediaUri = "https://example.com/reactionpost.jpg";
     const content = "Post for reactions";
-    [postPda] = pda([
-      Buffer.from("post"),
-      user.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(mediaUri, 'utf8')).digest().slice(0, 4),
-      userProfilePda.toBuffer()
-    ]);
+    postPda = await client.nextPostPda(user.publicKey);
 
     await program.methods
       .createPost(mediaUri, content)
-      .accounts({
+      .accountsPartial({
         creator: user.publicKey,
         post: postPda,
         profile: userProfilePda
@@ -3463,21 +3543,41 @@ describe("Comprehensive Reaction Tests", () => {
 });
 
 // ========================================
-// COMPREHENSIVE FOLLOW USER TESTS
+// UPDATE AND REMOVE REACTION TESTS
 // ========================================
 
-describe("Comprehensive Follow User Tests", () => {
-  let user1: anchor.web3.Keypair;
-  let user2: anchor.web3.Keypair;
-  let user3: anchor.web3.Keypair;
-  let user1ProfilePda: anchor.web3.PublicKey;
-  let user2ProfilePda: anchor.web3.PublicKey;
-  let user3ProfilePda: anchor.web3.PublicKey;
+describe("Update And Remove Reaction Tests", () => {
+  let user: anchor.web3.Keypair;
+  let reactor: anchor.web3.Keypair;
+  let userProfilePda: anchor.web3.PublicKey;
+  let postPda: anchor.web3.PublicKey;
+  let reactionPda: anchor.web3.PublicKey;
 
   const provider = anchor.AnchorProvider.env();
   anchor.setProvider(provider);
 
   const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  const reactionTypes = [
+    { like: {} },
+    { dislike: {} },
+    { love: {} },
+    { haha: {} },
+    { wow: {} },
+    { sad: {} },
+    { angry: {} }
+  ];
+
+  const countFields = [
+    "likeCount",
+    "dislikeCount",
+    "loveCount",
+    "hahaCount",
+    "wowCount",
+    "sadCount",
+    "angryCount"
+  ];
 
   function pda(seeds: (Buffer | Uint8Array)[]) {
     return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
@@ -3487,131 +3587,2960 @@ describe("Comprehensive Follow User Tests", () => {
     await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
   }
 
+  async function reactionCounts() {
+    const post = await program.account.post.fetch(postPda);
+    return countFields.map((field) => post[field].toNumber());
+  }
+
   beforeEach(async () => {
-    user1 = anchor.web3.Keypair.generate();
-    user2 = anchor.web3.Keypair.generate();
-    user3 = anchor.web3.Keypair.generate();
-    
-    await airdrop(provider.connection, user1.publicKey);
-    await airdrop(provider.connection, user2.publicKey);
-    await airdrop(provider.connection, user3.publicKey);
-    
-    [user1ProfilePda] = pda([Buffer.from("profile"), user1.publicKey.toBuffer()]);
-    [user2ProfilePda] = pda([Buffer.from("profile"), user2.publicKey.toBuffer()]);
-    [user3ProfilePda] = pda([Buffer.from("profile"), user3.publicKey.toBuffer()]);
+    user = anchor.web3.Keypair.generate();
+    reactor = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, reactor.publicKey);
+    [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
 
-    // Create profiles for all users
+    const userHandle = uniqueHandle("reactionowner");
     await program.methods
-      .initialize("user1", "First user", "https://user1.com/avatar.png")
+      .initialize(userHandle, "Post owner", "https://reactionowner.com/avatar.png")
       .accounts({
-        user: user1.publicKey
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
       })
-      .signers([user1])
+      .signers([user])
       .rpc();
 
+    const mediaUri = "https://example.com/changereaction.jpg";
+    postPda = await client.nextPostPda(user.publicKey);
+
     await program.methods
-      .initialize("user2", "Second user", "https://user2.com/avatar.png")
-      .accounts({
-        user: user2.publicKey
+      .createPost(mediaUri, "Post for changing reactions")
+      .accountsPartial({
+        creator: user.publicKey,
+        post: postPda,
+        profile: userProfilePda
       })
-      .signers([user2])
+      .signers([user])
       .rpc();
 
+    [reactionPda] = pda([
+      Buffer.from("reaction"),
+      postPda.toBuffer(),
+      reactor.publicKey.toBuffer()
+    ]);
+
     await program.methods
-      .initialize("user3", "Third user", "https://user3.com/avatar.png")
+      .createReaction({ like: {} })
       .accounts({
-        user: user3.publicKey
+        reactioner: reactor.publicKey,
+        post: postPda
       })
-      .signers([user3])
+      .signers([reactor])
       .rpc();
   });
 
   // HAPPY PATH TESTS
-  it("Should create multiple follow relationships", async () => {
-    // User1 follows User2
-    const [followPda1] = pda([
-      Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
-      user2.publicKey.toBuffer()
-    ]);
-
+  it("Should switch reaction from Like to Love and rebalance counters", async () => {
     await program.methods
-      .followUserProfile()
+      .updateReaction({ love: {} })
       .accounts({
-        follower: user1.publicKey,
-        followerProfile: user1ProfilePda,
-        followingProfile: user2ProfilePda
+        reactioner: reactor.publicKey,
+        post: postPda
       })
-      .signers([user1])
+      .signers([reactor])
       .rpc();
 
-    // User1 follows User3
-    const [followPda2] = pda([
-      Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
-      user3.publicKey.toBuffer()
-    ]);
+    const reaction = await program.account.reaction.fetch(reactionPda);
+    expect(reaction.reactionType).to.deep.equal({ love: {} });
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.likeCount.toNumber()).to.equal(0);
+    expect(post.loveCount.toNumber()).to.equal(1);
+  });
+
+  it("Should rebalance counters for every reaction type transition", async () => {
+    // Start from Like and walk through every other type, then back to Like
+    const sequence = [1, 2, 3, 4, 5, 6, 0];
+
+    for (const next of sequence) {
+      await program.methods
+        .updateReaction(reactionTypes[next])
+        .accounts({
+          reactioner: reactor.publicKey,
+          post: postPda
+        })
+        .signers([reactor])
+        .rpc();
+
+      const reaction = await program.account.reaction.fetch(reactionPda);
+      expect(reaction.reactionType).to.deep.equal(reactionTypes[next]);
+
+      const counts = await reactionCounts();
+      counts.forEach((count, index) => {
+        expect(count).to.equal(index === next ? 1 : 0);
+      });
+    }
+  });
+
+  it("Should bump updated_at but keep created_at when switching", async () => {
+    const before = await program.account.reaction.fetch(reactionPda);
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
 
     await program.methods
-      .followUserProfile()
+      .updateReaction({ wow: {} })
       .accounts({
-        follower: user1.publicKey,
-        followerProfile: user1ProfilePda,
-        followingProfile: user3ProfilePda
+        reactioner: reactor.publicKey,
+        post: postPda
       })
-      .signers([user1])
+      .signers([reactor])
       .rpc();
 
-    // User2 follows User3
-    const [followPda3] = pda([
-      Buffer.from("follow"),
-      user2.publicKey.toBuffer(),
-      user3.publicKey.toBuffer()
-    ]);
+    const after = await program.account.reaction.fetch(reactionPda);
+    expect(after.createdAt.toNumber()).to.equal(before.createdAt.toNumber());
+    expect(after.updatedAt.toNumber()).to.be.greaterThan(before.updatedAt.toNumber());
+  });
 
+  it("Should remove reaction, close the account and decrement the counter", async () => {
     await program.methods
-      .followUserProfile()
+      .removeReaction()
       .accounts({
-        follower: user2.publicKey,
-        followerProfile: user2ProfilePda,
-        followingProfile: user3ProfilePda
+        reactioner: reactor.publicKey,
+        post: postPda
       })
-      .signers([user2])
+      .signers([reactor])
       .rpc();
 
-    // Verify all follow relationships exist
-    const follow1 = await program.account.follow.fetch(followPda1);
-    const follow2 = await program.account.follow.fetch(followPda2);
-    const follow3 = await program.account.follow.fetch(followPda3);
-
-    expect(follow1.follower.toBase58()).to.equal(user1.publicKey.toBase58());
-    expect(follow1.following.toBase58()).to.equal(user2.publicKey.toBase58());
-    expect(follow2.follower.toBase58()).to.equal(user1.publicKey.toBase58());
-    expect(follow2.following.toBase58()).to.equal(user3.publicKey.toBase58());
-    expect(follow3.follower.toBase58()).to.equal(user2.publicKey.toBase58());
-    expect(follow3.following.toBase58()).to.equal(user3.publicKey.toBase58());
-
-    // Verify follower counts are correct
-    const user1Profile = await program.account.userProfile.fetch(user1ProfilePda);
-    const user2Profile = await program.account.userProfile.fetch(user2ProfilePda);
-    const user3Profile = await program.account.userProfile.fetch(user3ProfilePda);
+    const reactionAccount = await provider.connection.getAccountInfo(reactionPda);
+    expect(reactionAccount).to.be.null;
 
-    expect(user1Profile.followingCount.toNumber()).to.equal(2);
-    expect(user1Profile.followerCount.toNumber()).to.equal(0);
-    expect(user2Profile.followingCount.toNumber()).to.equal(1);
-    expect(user2Profile.followerCount.toNumber()).to.equal(1);
-    expect(user3Profile.followingCount.toNumber()).to.equal(0);
-    expect(user3Profile.followerCount.toNumber()).to.equal(2);
+    const counts = await reactionCounts();
+    counts.forEach((count) => expect(count).to.equal(0));
   });
 
-  it("Should allow bidirectional following", async () => {
-    // User1 follows User2
+  it("Should refund rent to reactioner when removing reaction", async () => {
+    const balanceBefore = await provider.connection.getBalance(reactor.publicKey);
+
     await program.methods
-      .followUserProfile()
+      .removeReaction()
       .accounts({
-        follower: user1.publicKey,
-        followerProfile: user1ProfilePda,
-        followingProfile: user2ProfilePda
+        reactioner: reactor.publicKey,
+        post: postPda
+      })
+      .signers([reactor])
+      .rpc();
+
+    const balanceAfter = await provider.connection.getBalance(reactor.publicKey);
+    expect(balanceAfter).to.be.greaterThan(balanceBefore);
+  });
+
+  it("Should allow reacting again after removing a reaction", async () => {
+    await program.methods
+      .removeReaction()
+      .accounts({
+        reactioner: reactor.publicKey,
+        post: postPda
+      })
+      .signers([reactor])
+      .rpc();
+
+    await program.methods
+      .createReaction({ haha: {} })
+      .accounts({
+        reactioner: reactor.publicKey,
+        post: postPda
+      })
+      .signers([reactor])
+      .rpc();
+
+    const reaction = await program.account.reaction.fetch(reactionPda);
+    expect(reaction.reactionType).to.deep.equal({ haha: {} });
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.likeCount.toNumber()).to.equal(0);
+    expect(post.hahaCount.toNumber()).to.equal(1);
+  });
+
+  it("Should only touch the changed counters when several users react", async () => {
+    await program.methods
+      .createReaction({ like: {} })
+      .accounts({
+        reactioner: user.publicKey,
+        post: postPda
+      })
+      .signers([user])
+      .rpc();
+
+    await program.methods
+      .updateReaction({ sad: {} })
+      .accounts({
+        reactioner: reactor.publicKey,
+        post: postPda
+      })
+      .signers([reactor])
+      .rpc();
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.likeCount.toNumber()).to.equal(1);
+    expect(post.sadCount.toNumber()).to.equal(1);
+  });
+
+  // UNHAPPY PATH TESTS
+  it("Should fail when updating to the same reaction type", async () => {
+    try {
+      await program.methods
+        .updateReaction({ like: {} })
+        .accounts({
+          reactioner: reactor.publicKey,
+          post: postPda
+        })
+        .signers([reactor])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ReactionUnchanged");
+      expect(error.error.errorCode.number).to.equal(6013);
+    }
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.likeCount.toNumber()).to.equal(1);
+  });
+
+  it("Should fail when updating a reaction that does not exist", async () => {
+    try {
+      await program.methods
+        .updateReaction({ love: {} })
+        .accounts({
+          reactioner: user.publicKey,
+          post: postPda
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("AccountNotInitialized");
+    }
+  });
+
+  it("Should fail when removing a reaction that does not exist", async () => {
+    try {
+      await program.methods
+        .removeReaction()
+        .accounts({
+          reactioner: user.publicKey,
+          post: postPda
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("AccountNotInitialized");
+    }
+  });
+
+  it("Should fail when another user tries to change someone's reaction", async () => {
+    try {
+      await program.methods
+        .updateReaction({ angry: {} })
+        .accountsPartial({
+          reactioner: user.publicKey,
+          reaction: reactionPda,
+          post: postPda
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
+    }
+
+    const reaction = await program.account.reaction.fetch(reactionPda);
+    expect(reaction.reactionType).to.deep.equal({ like: {} });
+  });
+
+  it("Should fail when another user tries to remove someone's reaction", async () => {
+    try {
+      await program.methods
+        .removeReaction()
+        .accountsPartial({
+          reactioner: user.publicKey,
+          reaction: reactionPda,
+          post: postPda
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
+    }
+
+    const reactionAccount = await provider.connection.getAccountInfo(reactionPda);
+    expect(reactionAccount).to.not.be.null;
+  });
+
+  it("Should fail when removing the same reaction twice", async () => {
+    await program.methods
+      .removeReaction()
+      .accounts({
+        reactioner: reactor.publicKey,
+        post: postPda
+      })
+      .signers([reactor])
+      .rpc();
+
+    try {
+      await program.methods
+        .removeReaction()
+        .accounts({
+          reactioner: reactor.publicKey,
+          post: postPda
+        })
+        .signers([reactor])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error).to.exist;
+    }
+  });
+});
+
+describe("Update And Delete Comment Tests", () => {
+  let user: anchor.web3.Keypair;
+  let commenter: anchor.web3.Keypair;
+  let stranger: anchor.web3.Keypair;
+  let postPda: anchor.web3.PublicKey;
+  let commentPda: anchor.web3.PublicKey;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  const originalContent = "First take on this post";
+
+  function pda(seeds: (Buffer | Uint8Array)[]) {
+    return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
+  }
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    commenter = anchor.web3.Keypair.generate();
+    stranger = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, commenter.publicKey);
+    await airdrop(provider.connection, stranger.publicKey);
+    const [userProfilePda] = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
+
+    const userHandle = uniqueHandle("commentedowner");
+    await program.methods
+      .initialize(userHandle, "Post owner", "https://commentedowner.com/avatar.png")
+      .accounts({
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
+      })
+      .signers([user])
+      .rpc();
+
+    const mediaUri = "https://example.com/editcomments.jpg";
+    postPda = await client.nextPostPda(user.publicKey);
+
+    await program.methods
+      .createPost(mediaUri, "Post for editing comments")
+      .accountsPartial({
+        creator: user.publicKey,
+        post: postPda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+
+    commentPda = await client.nextCommentPda(postPda);
+
+    await program.methods
+      .createComment(originalContent)
+      .accountsPartial({
+        commenter: commenter.publicKey,
+        comment: commentPda,
+        post: postPda
+      })
+      .signers([commenter])
+      .rpc();
+  });
+
+  // HAPPY PATH TESTS
+  it("Should update comment content in place", async () => {
+    await program.methods
+      .updateComment("Second take on this post")
+      .accounts({
+        commenter: commenter.publicKey,
+        comment: commentPda
+      })
+      .signers([commenter])
+      .rpc();
+
+    const comment = await program.account.comment.fetch(commentPda);
+    expect(comment.content).to.equal("Second take on this post");
+    expect(comment.commentBy.toString()).to.equal(commenter.publicKey.toString());
+    expect(comment.post.toString()).to.equal(postPda.toString());
+  });
+
+  it("Should bump updated_at but keep created_at when editing", async () => {
+    const before = await program.account.comment.fetch(commentPda);
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    await program.methods
+      .updateComment("Edited after a second")
+      .accounts({
+        commenter: commenter.publicKey,
+        comment: commentPda
+      })
+      .signers([commenter])
+      .rpc();
+
+    const after = await program.account.comment.fetch(commentPda);
+    expect(after.createdAt.toNumber()).to.equal(before.createdAt.toNumber());
+    expect(after.updatedAt.toNumber()).to.be.greaterThan(before.updatedAt.toNumber());
+  });
+
+  it("Should delete comment, close the account and decrement comment count", async () => {
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: commenter.publicKey,
+        comment: commentPda,
+        parent: null
+      })
+      .signers([commenter])
+      .rpc();
+
+    const commentAccount = await provider.connection.getAccountInfo(commentPda);
+    expect(commentAccount).to.be.null;
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.commentCount.toNumber()).to.equal(0);
+  });
+
+  it("Should refund rent to the author when they delete their comment", async () => {
+    const balanceBefore = await provider.connection.getBalance(commenter.publicKey);
+
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: commenter.publicKey,
+        comment: commentPda,
+        parent: null
+      })
+      .signers([commenter])
+      .rpc();
+
+    const balanceAfter = await provider.connection.getBalance(commenter.publicKey);
+    expect(balanceAfter).to.be.greaterThan(balanceBefore);
+  });
+
+  it("Should let the post creator delete a comment and refund the author", async () => {
+    const authorBalanceBefore = await provider.connection.getBalance(commenter.publicKey);
+
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: user.publicKey,
+        comment: commentPda,
+        parent: null
+      })
+      .signers([user])
+      .rpc();
+
+    const commentAccount = await provider.connection.getAccountInfo(commentPda);
+    expect(commentAccount).to.be.null;
+
+    const authorBalanceAfter = await provider.connection.getBalance(commenter.publicKey);
+    expect(authorBalanceAfter).to.be.greaterThan(authorBalanceBefore);
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.commentCount.toNumber()).to.equal(0);
+  });
+
+  // UNHAPPY PATH TESTS
+  it("Should fail to update with empty content", async () => {
+    try {
+      await program.methods
+        .updateComment("")
+        .accounts({
+          commenter: commenter.publicKey,
+          comment: commentPda
+        })
+        .signers([commenter])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("InvalidCommentLength");
+      expect(error.error.errorCode.number).to.equal(6006);
+    }
+  });
+
+  it("Should fail to update with content too long (281 chars)", async () => {
+    try {
+      await program.methods
+        .updateComment("a".repeat(281))
+        .accounts({
+          commenter: commenter.publicKey,
+          comment: commentPda
+        })
+        .signers([commenter])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("InvalidCommentLength");
+    }
+  });
+
+  it("Should fail to update with the same content", async () => {
+    const before = await program.account.comment.fetch(commentPda);
+
+    try {
+      await program.methods
+        .updateComment(originalContent)
+        .accounts({
+          commenter: commenter.publicKey,
+          comment: commentPda
+        })
+        .signers([commenter])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ContentUnchanged");
+      expect(error.error.errorCode.number).to.equal(6017);
+    }
+
+    const after = await program.account.comment.fetch(commentPda);
+    expect(after.updatedAt.toNumber()).to.equal(before.updatedAt.toNumber());
+  });
+
+  it("Should fail when another user tries to edit someone's comment", async () => {
+    try {
+      await program.methods
+        .updateComment("Not my words")
+        .accounts({
+          commenter: user.publicKey,
+          comment: commentPda
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+      expect(error.error.errorCode.number).to.equal(6012);
+    }
+
+    const comment = await program.account.comment.fetch(commentPda);
+    expect(comment.content).to.equal(originalContent);
+  });
+
+  it("Should fail when someone other than the author or post creator deletes", async () => {
+    try {
+      await program.methods
+        .deleteComment()
+        .accounts({
+          authority: stranger.publicKey,
+          comment: commentPda,
+          parent: null
+        })
+        .signers([stranger])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+
+    const commentAccount = await provider.connection.getAccountInfo(commentPda);
+    expect(commentAccount).to.not.be.null;
+  });
+
+  it("Should fail when the rent is sent to someone other than the author", async () => {
+    try {
+      await program.methods
+        .deleteComment()
+        .accountsPartial({
+          authority: user.publicKey,
+          comment: commentPda,
+          commentBy: user.publicKey,
+          parent: null,
+          post: postPda
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintHasOne");
+    }
+  });
+
+  it("Should fail when deleting a comment twice", async () => {
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: commenter.publicKey,
+        comment: commentPda,
+        parent: null
+      })
+      .signers([commenter])
+      .rpc();
+
+    try {
+      await program.methods
+        .deleteComment()
+        .accountsPartial({
+          authority: commenter.publicKey,
+          comment: commentPda,
+          commentBy: commenter.publicKey,
+          parent: null,
+          post: postPda
+        })
+        .signers([commenter])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error).to.exist;
+    }
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.commentCount.toNumber()).to.equal(0);
+  });
+});
+
+// Posts used to be addressed by [b"post", creator, hash(media_uri)[..4], profile]
+// and comments by [b"comment", post, commenter, hash(content)[..4]], so the same
+// image or text could not be posted twice. Migration notes for accounts created
+// that way:
+// - There is no in-place migration. `post_count` and `next_comment_index` were
+//   added to the account layouts, and `Post` has since moved `created_at` ahead
+//   of its strings, so accounts written by older builds no longer decode.
+//   Upgrading needs a fresh deployment or a reset ledger (see the README's
+//   "Upgrading an existing deployment"), after which every account is created
+//   under the counter seeds.
+// - Instructions that take an existing post or comment check stored fields
+//   rather than re-deriving its seeds, so the address an account was created
+//   at doesn't matter to them.
+// - Counter seeds have a different shape than the hash seeds, so new addresses
+//   never land on an address the old scheme could produce; the tests below
+//   check that against the legacy derivation.
+describe("Counter Addressing Migration", () => {
+  let user: anchor.web3.Keypair;
+  let userProfilePda: anchor.web3.PublicKey;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  const mediaUri = "https://example.com/repost.jpg";
+
+  function legacyPostPda(creator: anchor.web3.PublicKey, profile: anchor.web3.PublicKey, uri: string) {
+    return anchor.web3.PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("post"),
+        creator.toBuffer(),
+        crypto.createHash('sha256').update(Buffer.from(uri, 'utf8')).digest().slice(0, 4),
+        profile.toBuffer()
+      ],
+      program.programId
+    )[0];
+  }
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  async function createPost(content: string) {
+    const postPda = await client.nextPostPda(user.publicKey);
+    await program.methods
+      .createPost(mediaUri, content)
+      .accountsPartial({
+        creator: user.publicKey,
+        post: postPda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+    return postPda;
+  }
+
+  async function createComment(postPda: anchor.web3.PublicKey, content: string) {
+    const commentPda = await client.nextCommentPda(postPda);
+    await program.methods
+      .createComment(content)
+      .accountsPartial({
+        commenter: user.publicKey,
+        comment: commentPda,
+        post: postPda
+      })
+      .signers([user])
+      .rpc();
+    return commentPda;
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    [userProfilePda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("profile"), user.publicKey.toBuffer()],
+      program.programId
+    );
+
+    const userHandle = uniqueHandle("counteruser");
+    await program.methods
+      .initialize(userHandle, "Counts posts", "https://counteruser.com/avatar.png")
+      .accounts({
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(userHandle, program.programId)
+      })
+      .signers([user])
+      .rpc();
+  });
+
+  it("Should start a new profile's post counter at zero", async () => {
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.postCount.toNumber()).to.equal(0);
+  });
+
+  it("Should allow posting the same media URI twice", async () => {
+    const first = await createPost("First time");
+    const second = await createPost("Second time");
+
+    const { createdSlot } = await program.account.userProfile.fetch(userProfilePda);
+    expect(first.toBase58()).to.equal(derivePostPda(user.publicKey, createdSlot.toNumber(), 0, program.programId).toBase58());
+    expect(second.toBase58()).to.equal(derivePostPda(user.publicKey, createdSlot.toNumber(), 1, program.programId).toBase58());
+
+    const firstPost = await program.account.post.fetch(first);
+    const secondPost = await program.account.post.fetch(second);
+    expect(firstPost.mediaUri).to.equal(mediaUri);
+    expect(secondPost.mediaUri).to.equal(mediaUri);
+  });
+
+  it("Should keep counting posts after one is deleted", async () => {
+    const first = await createPost("Soon gone");
+
+    await program.methods
+      .deleteUserPost()
+      .accounts({
+        creator: user.publicKey,
+        post: first
+      })
+      .signers([user])
+      .rpc();
+
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.postCount.toNumber()).to.equal(1);
+
+    const second = await createPost("Still here");
+    expect(second.toBase58()).to.not.equal(first.toBase58());
+  });
+
+  it("Should not reuse a live comment's address after another is deleted", async () => {
+    const postPda = await createPost("Comment counters");
+    const first = await createComment(postPda, "nice!");
+    const second = await createComment(postPda, "nice!");
+
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: user.publicKey,
+        comment: first,
+        parent: null
+      })
+      .signers([user])
+      .rpc();
+
+    let post = await program.account.post.fetch(postPda);
+    expect(post.commentCount.toNumber()).to.equal(1);
+    expect(post.nextCommentIndex.toNumber()).to.equal(2);
+
+    const third = await createComment(postPda, "nice!");
+    expect(third.toBase58()).to.equal(deriveCommentPda(postPda, 2, program.programId).toBase58());
+    expect(third.toBase58()).to.not.equal(second.toBase58());
+
+    post = await program.account.post.fetch(postPda);
+    expect(post.commentCount.toNumber()).to.equal(2);
+  });
+
+  it("Should never derive a legacy media-URI address", async () => {
+    const postPda = await createPost("Counter addressed");
+    expect(postPda.toBase58()).to.not.equal(legacyPostPda(user.publicKey, userProfilePda, mediaUri).toBase58());
+  });
+
+  it("Should fail to create a post against another user's profile", async () => {
+    const other = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, other.publicKey);
+    const { createdSlot } = await program.account.userProfile.fetch(userProfilePda);
+
+    try {
+      await program.methods
+        .createPost(mediaUri, "Not my counter")
+        .accountsPartial({
+          creator: other.publicKey,
+          post: derivePostPda(other.publicKey, createdSlot.toNumber(), 0, program.programId),
+          profile: userProfilePda
+        })
+        .signers([other])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.postCount.toNumber()).to.equal(0);
+  });
+});
+
+describe("Threaded Replies", () => {
+  let user: anchor.web3.Keypair;
+  let commenter: anchor.web3.Keypair;
+  let userProfilePda: anchor.web3.PublicKey;
+  let postPda: anchor.web3.PublicKey;
+  let rootPda: anchor.web3.PublicKey;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  async function createPost(content: string) {
+    const post = await client.nextPostPda(user.publicKey);
+    await program.methods
+      .createPost("https://example.com/threads.jpg", content)
+      .accountsPartial({
+        creator: user.publicKey,
+        post,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+    return post;
+  }
+
+  async function createReply(signer: anchor.web3.Keypair, post: anchor.web3.PublicKey, parent: anchor.web3.PublicKey, content: string) {
+    const reply = await client.nextCommentPda(post);
+    await program.methods
+      .createReply(content)
+      .accountsPartial({
+        commenter: signer.publicKey,
+        reply,
+        parent,
+        post
+      })
+      .signers([signer])
+      .rpc();
+    return reply;
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    commenter = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, commenter.publicKey);
+    [userProfilePda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("profile"), user.publicKey.toBuffer()],
+      program.programId
+    );
+
+    const handle = uniqueHandle("threads");
+    await program.methods
+      .initialize(handle, "Thread starter", "https://threads.com/avatar.png")
+      .accounts({
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(handle, program.programId)
+      })
+      .signers([user])
+      .rpc();
+
+    postPda = await createPost("Post with a thread");
+    rootPda = await client.nextCommentPda(postPda);
+
+    await program.methods
+      .createComment("Top-level comment")
+      .accountsPartial({
+        commenter: commenter.publicKey,
+        comment: rootPda,
+        post: postPda
+      })
+      .signers([commenter])
+      .rpc();
+  });
+
+  // HAPPY PATH TESTS
+  it("Should create top-level comments without a parent", async () => {
+    const root = await program.account.comment.fetch(rootPda);
+    expect(root.parent).to.be.null;
+    expect(root.replyCount.toNumber()).to.equal(0);
+  });
+
+  it("Should create a reply linked to its parent", async () => {
+    const replyPda = await createReply(user, postPda, rootPda, "Thanks for the comment");
+
+    const reply = await program.account.comment.fetch(replyPda);
+    expect(reply.parent.toString()).to.equal(rootPda.toString());
+    expect(reply.post.toString()).to.equal(postPda.toString());
+    expect(reply.commentBy.toString()).to.equal(user.publicKey.toString());
+    expect(reply.content).to.equal("Thanks for the comment");
+    expect(reply.replyCount.toNumber()).to.equal(0);
+
+    const root = await program.account.comment.fetch(rootPda);
+    expect(root.replyCount.toNumber()).to.equal(1);
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.commentCount.toNumber()).to.equal(2);
+    expect(post.nextCommentIndex.toNumber()).to.equal(2);
+  });
+
+  it("Should allow replying to a reply", async () => {
+    const replyPda = await createReply(user, postPda, rootPda, "First level");
+    const nestedPda = await createReply(commenter, postPda, replyPda, "Second level");
+
+    const nested = await program.account.comment.fetch(nestedPda);
+    expect(nested.parent.toString()).to.equal(replyPda.toString());
+
+    const reply = await program.account.comment.fetch(replyPda);
+    expect(reply.replyCount.toNumber()).to.equal(1);
+
+    // Only direct replies are counted on the root
+    const root = await program.account.comment.fetch(rootPda);
+    expect(root.replyCount.toNumber()).to.equal(1);
+  });
+
+  it("Should find a whole thread with the post's comment filter", async () => {
+    const replyPda = await createReply(user, postPda, rootPda, "In the thread");
+
+    const comments = await program.account.comment.all([
+      { memcmp: { offset: 8, bytes: postPda.toBase58() } }
+    ]);
+    const keys = comments.map((comment) => comment.publicKey.toString());
+    expect(keys).to.have.members([rootPda.toString(), replyPda.toString()]);
+  });
+
+  it("Should decrement the parent's reply count when a reply is deleted", async () => {
+    const replyPda = await createReply(user, postPda, rootPda, "Short-lived reply");
+
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: user.publicKey,
+        comment: replyPda,
+        parent: rootPda
+      })
+      .signers([user])
+      .rpc();
+
+    const root = await program.account.comment.fetch(rootPda);
+    expect(root.replyCount.toNumber()).to.equal(0);
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.commentCount.toNumber()).to.equal(1);
+  });
+
+  it("Should delete a reply whose parent is already gone", async () => {
+    const replyPda = await createReply(user, postPda, rootPda, "Outlives its parent");
+
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: commenter.publicKey,
+        comment: rootPda,
+        parent: null
+      })
+      .signers([commenter])
+      .rpc();
+
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: user.publicKey,
+        comment: replyPda,
+        parent: rootPda
+      })
+      .signers([user])
+      .rpc();
+
+    const replyAccount = await provider.connection.getAccountInfo(replyPda);
+    expect(replyAccount).to.be.null;
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.commentCount.toNumber()).to.equal(0);
+  });
+
+  // UNHAPPY PATH TESTS
+  it("Should fail to reply to a comment on a different post", async () => {
+    const otherPostPda = await createPost("Another post");
+
+    try {
+      await createReply(commenter, otherPostPda, rootPda, "Wrong post");
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintHasOne");
+    }
+
+    const root = await program.account.comment.fetch(rootPda);
+    expect(root.replyCount.toNumber()).to.equal(0);
+  });
+
+  it("Should fail to create an empty reply", async () => {
+    try {
+      await createReply(user, postPda, rootPda, "");
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("InvalidContentLength");
+    }
+  });
+
+  it("Should fail to delete a reply with the wrong parent", async () => {
+    const replyPda = await createReply(user, postPda, rootPda, "First reply");
+    const siblingPda = await createReply(commenter, postPda, rootPda, "Second reply");
+
+    try {
+      await program.methods
+        .deleteComment()
+        .accounts({
+          authority: user.publicKey,
+          comment: replyPda,
+          parent: siblingPda
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("InvalidParentComment");
+      expect(error.error.errorCode.number).to.equal(6016);
+    }
+
+    const root = await program.account.comment.fetch(rootPda);
+    expect(root.replyCount.toNumber()).to.equal(2);
+  });
+
+  it("Should fail to delete a reply without its parent", async () => {
+    const replyPda = await createReply(user, postPda, rootPda, "Needs its parent");
+
+    try {
+      await program.methods
+        .deleteComment()
+        .accounts({
+          authority: user.publicKey,
+          comment: replyPda,
+          parent: null
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("MissingParentComment");
+      expect(error.error.errorCode.number).to.equal(6022);
+    }
+
+    const replyAccount = await provider.connection.getAccountInfo(replyPda);
+    expect(replyAccount).to.not.be.null;
+
+    const root = await program.account.comment.fetch(rootPda);
+    expect(root.replyCount.toNumber()).to.equal(1);
+  });
+});
+
+describe("Comment Likes", () => {
+  let user: anchor.web3.Keypair;
+  let liker: anchor.web3.Keypair;
+  let postPda: anchor.web3.PublicKey;
+  let commentPda: anchor.web3.PublicKey;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  function likePda(comment: anchor.web3.PublicKey, likedBy: anchor.web3.PublicKey) {
+    return anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("comment_like"), comment.toBuffer(), likedBy.toBuffer()],
+      program.programId
+    )[0];
+  }
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  async function like(signer: anchor.web3.Keypair) {
+    await program.methods
+      .likeComment()
+      .accounts({
+        liker: signer.publicKey,
+        comment: commentPda
+      })
+      .signers([signer])
+      .rpc();
+  }
+
+  async function unlike(signer: anchor.web3.Keypair) {
+    await program.methods
+      .unlikeComment()
+      .accounts({
+        liker: signer.publicKey,
+        comment: commentPda
+      })
+      .signers([signer])
+      .rpc();
+  }
+
+  async function deleteComment() {
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: user.publicKey,
+        comment: commentPda,
+        parent: null
+      })
+      .signers([user])
+      .rpc();
+  }
+
+  // Sent and paid for by the provider wallet, which owns none of these accounts
+  async function closeOrphanedLike(likedBy: anchor.web3.PublicKey, comment = commentPda) {
+    await program.methods
+      .closeOrphanedCommentLike()
+      .accountsPartial({
+        like: likePda(commentPda, likedBy),
+        liker: likedBy,
+        comment
+      })
+      .rpc();
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    liker = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, liker.publicKey);
+    const [userProfilePda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("profile"), user.publicKey.toBuffer()],
+      program.programId
+    );
+
+    const handle = uniqueHandle("likes");
+    await program.methods
+      .initialize(handle, "Likes comments", "https://likes.com/avatar.png")
+      .accounts({
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(handle, program.programId)
+      })
+      .signers([user])
+      .rpc();
+
+    postPda = await client.nextPostPda(user.publicKey);
+    await program.methods
+      .createPost("https://example.com/likes.jpg", "Post with likeable comments")
+      .accountsPartial({
+        creator: user.publicKey,
+        post: postPda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+
+    commentPda = await client.nextCommentPda(postPda);
+    await program.methods
+      .createComment("Like this comment")
+      .accountsPartial({
+        commenter: user.publicKey,
+        comment: commentPda,
+        post: postPda
+      })
+      .signers([user])
+      .rpc();
+  });
+
+  // HAPPY PATH TESTS
+  it("Should start comments with no likes", async () => {
+    const comment = await program.account.comment.fetch(commentPda);
+    expect(comment.likeCount.toNumber()).to.equal(0);
+  });
+
+  it("Should like a comment", async () => {
+    await like(liker);
+
+    const commentLike = await program.account.commentLike.fetch(likePda(commentPda, liker.publicKey));
+    expect(commentLike.comment.toString()).to.equal(commentPda.toString());
+    expect(commentLike.liker.toString()).to.equal(liker.publicKey.toString());
+    expect(commentLike.createdAt.toNumber()).to.be.greaterThan(0);
+
+    const comment = await program.account.comment.fetch(commentPda);
+    expect(comment.likeCount.toNumber()).to.equal(1);
+  });
+
+  it("Should count likes from different users", async () => {
+    await like(liker);
+    await like(user);
+
+    const comment = await program.account.comment.fetch(commentPda);
+    expect(comment.likeCount.toNumber()).to.equal(2);
+  });
+
+  it("Should unlike a comment and close the like account", async () => {
+    await like(liker);
+    await unlike(liker);
+
+    const likeAccount = await provider.connection.getAccountInfo(likePda(commentPda, liker.publicKey));
+    expect(likeAccount).to.be.null;
+
+    const comment = await program.account.comment.fetch(commentPda);
+    expect(comment.likeCount.toNumber()).to.equal(0);
+  });
+
+  it("Should allow liking again after unliking", async () => {
+    await like(liker);
+    await unlike(liker);
+    await like(liker);
+
+    const comment = await program.account.comment.fetch(commentPda);
+    expect(comment.likeCount.toNumber()).to.equal(1);
+  });
+
+  it("Should close a like left behind by a deleted comment and refund the liker", async () => {
+    await like(liker);
+    await deleteComment();
+
+    const balanceBefore = await provider.connection.getBalance(liker.publicKey);
+    await closeOrphanedLike(liker.publicKey);
+
+    const likeAccount = await provider.connection.getAccountInfo(likePda(commentPda, liker.publicKey));
+    expect(likeAccount).to.be.null;
+
+    const balanceAfter = await provider.connection.getBalance(liker.publicKey);
+    expect(balanceAfter).to.be.greaterThan(balanceBefore);
+  });
+
+  // UNHAPPY PATH TESTS
+  it("Should fail to like the same comment twice", async () => {
+    await like(liker);
+
+    try {
+      await like(liker);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.message).to.include("already in use");
+    }
+
+    const comment = await program.account.comment.fetch(commentPda);
+    expect(comment.likeCount.toNumber()).to.equal(1);
+  });
+
+  it("Should fail to unlike a comment that was not liked", async () => {
+    await like(liker);
+
+    try {
+      await unlike(user);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("AccountNotInitialized");
+    }
+
+    const comment = await program.account.comment.fetch(commentPda);
+    expect(comment.likeCount.toNumber()).to.equal(1);
+  });
+
+  it("Should fail to close a like whose comment still exists", async () => {
+    await like(liker);
+
+    try {
+      await closeOrphanedLike(liker.publicKey);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("CommentStillExists");
+    }
+
+    const likeAccount = await provider.connection.getAccountInfo(likePda(commentPda, liker.publicKey));
+    expect(likeAccount).to.not.be.null;
+  });
+
+  it("Should fail to close an orphaned like with the wrong liker", async () => {
+    await like(liker);
+    await deleteComment();
+
+    try {
+      await program.methods
+        .closeOrphanedCommentLike()
+        .accountsPartial({
+          like: likePda(commentPda, liker.publicKey),
+          liker: user.publicKey,
+          comment: commentPda
+        })
+        .rpc();
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintHasOne");
+    }
+  });
+});
+
+describe("Bookmarks", () => {
+  let user: anchor.web3.Keypair;
+  let reader: anchor.web3.Keypair;
+  let postPda: anchor.web3.PublicKey;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  function bookmarkPda(owner: anchor.web3.PublicKey, post: anchor.web3.PublicKey) {
+    return anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("bookmark"), owner.toBuffer(), post.toBuffer()],
+      program.programId
+    )[0];
+  }
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  async function bookmark(signer: anchor.web3.Keypair, post = postPda) {
+    await program.methods
+      .createBookmark()
+      .accounts({
+        user: signer.publicKey,
+        post
+      })
+      .signers([signer])
+      .rpc();
+  }
+
+  async function removeBookmark(signer: anchor.web3.Keypair, bookmarkAddress: anchor.web3.PublicKey) {
+    await program.methods
+      .removeBookmark()
+      .accounts({
+        user: signer.publicKey,
+        bookmark: bookmarkAddress
+      })
+      .signers([signer])
+      .rpc();
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    reader = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, reader.publicKey);
+    const [userProfilePda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("profile"), user.publicKey.toBuffer()],
+      program.programId
+    );
+
+    const handle = uniqueHandle("saved");
+    await program.methods
+      .initialize(handle, "Worth saving", "https://saved.com/avatar.png")
+      .accounts({
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(handle, program.programId)
+      })
+      .signers([user])
+      .rpc();
+
+    postPda = await client.nextPostPda(user.publicKey);
+    await program.methods
+      .createPost("https://example.com/saved.jpg", "Save this for later")
+      .accountsPartial({
+        creator: user.publicKey,
+        post: postPda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+  });
+
+  // HAPPY PATH TESTS
+  it("Should bookmark a post", async () => {
+    await bookmark(reader);
+
+    const saved = await program.account.bookmark.fetch(bookmarkPda(reader.publicKey, postPda));
+    expect(saved.user.toString()).to.equal(reader.publicKey.toString());
+    expect(saved.post.toString()).to.equal(postPda.toString());
+    expect(saved.createdAt.toNumber()).to.be.greaterThan(0);
+  });
+
+  it("Should list only the user's own bookmarks", async () => {
+    await bookmark(reader);
+    await bookmark(user);
+
+    const bookmarks = await program.account.bookmark.all([
+      { memcmp: { offset: 8, bytes: reader.publicKey.toBase58() } }
+    ]);
+    expect(bookmarks).to.have.length(1);
+    expect(bookmarks[0].publicKey.toString()).to.equal(bookmarkPda(reader.publicKey, postPda).toString());
+  });
+
+  it("Should remove a bookmark and refund its rent", async () => {
+    await bookmark(reader);
+    const address = bookmarkPda(reader.publicKey, postPda);
+    const rent = (await provider.connection.getAccountInfo(address)).lamports;
+    const balanceBefore = await provider.connection.getBalance(reader.publicKey);
+
+    await removeBookmark(reader, address);
+
+    const bookmarkAccount = await provider.connection.getAccountInfo(address);
+    expect(bookmarkAccount).to.be.null;
+
+    // The refund covers the rent minus the transaction fee
+    const balanceAfter = await provider.connection.getBalance(reader.publicKey);
+    expect(balanceAfter).to.be.greaterThan(balanceBefore + rent - 10000);
+  });
+
+  it("Should keep bookmarks of deleted posts until they are removed", async () => {
+    await bookmark(reader);
+    const address = bookmarkPda(reader.publicKey, postPda);
+
+    await program.methods
+      .deleteUserPost()
+      .accounts({
+        creator: user.publicKey,
+        post: postPda
+      })
+      .signers([user])
+      .rpc();
+
+    const saved = await program.account.bookmark.fetch(address);
+    const [post] = await program.account.post.fetchMultiple([saved.post]);
+    expect(post).to.be.null;
+
+    await removeBookmark(reader, address);
+    expect(await provider.connection.getAccountInfo(address)).to.be.null;
+  });
+
+  // UNHAPPY PATH TESTS
+  it("Should fail to bookmark the same post twice", async () => {
+    await bookmark(reader);
+
+    try {
+      await bookmark(reader);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.message).to.include("already in use");
+    }
+  });
+
+  it("Should fail to bookmark a post that does not exist", async () => {
+    const missingPost = anchor.web3.Keypair.generate().publicKey;
+
+    try {
+      await bookmark(reader, missingPost);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("AccountNotInitialized");
+    }
+  });
+
+  it("Should fail when someone else removes a bookmark", async () => {
+    await bookmark(reader);
+    const address = bookmarkPda(reader.publicKey, postPda);
+
+    try {
+      await removeBookmark(user, address);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+
+    expect(await provider.connection.getAccountInfo(address)).to.not.be.null;
+  });
+});
+
+describe("Update Post", () => {
+  let user: anchor.web3.Keypair;
+  let stranger: anchor.web3.Keypair;
+  let postPda: anchor.web3.PublicKey;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  const mediaUri = "https://example.com/editable.jpg";
+  const originalCaption = "First caption";
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  async function updatePost(signer: anchor.web3.Keypair, content: string) {
+    await program.methods
+      .updatePost(content)
+      .accounts({
+        creator: signer.publicKey,
+        post: postPda
+      })
+      .signers([signer])
+      .rpc();
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    stranger = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, stranger.publicKey);
+    const [userProfilePda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("profile"), user.publicKey.toBuffer()],
+      program.programId
+    );
+
+    const handle = uniqueHandle("editor");
+    await program.methods
+      .initialize(handle, "Edits captions", "https://editor.com/avatar.png")
+      .accounts({
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(handle, program.programId)
+      })
+      .signers([user])
+      .rpc();
+
+    postPda = await client.nextPostPda(user.publicKey);
+    await program.methods
+      .createPost(mediaUri, originalCaption)
+      .accountsPartial({
+        creator: user.publicKey,
+        post: postPda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+  });
+
+  // HAPPY PATH TESTS
+  it("Should update the caption and keep the old one as a revision", async () => {
+    const before = await program.account.post.fetch(postPda);
+    expect(before.revisionCount.toNumber()).to.equal(0);
+
+    await updatePost(user, "Second caption");
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.content).to.equal("Second caption");
+    expect(post.mediaUri).to.equal(mediaUri);
+    expect(post.revisionCount.toNumber()).to.equal(1);
+    expect(post.createdAt.toNumber()).to.equal(before.createdAt.toNumber());
+
+    const revision = await program.account.postRevision.fetch(client.postRevisionPda(postPda, 0));
+    expect(revision.post.toString()).to.equal(postPda.toString());
+    expect(revision.index.toNumber()).to.equal(0);
+    expect(revision.content).to.equal(originalCaption);
+    expect(revision.replacedAt.toNumber()).to.equal(post.updatedAt.toNumber());
+  });
+
+  it("Should keep every earlier caption in order", async () => {
+    await updatePost(user, "Second caption");
+    await updatePost(user, "Third caption");
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.content).to.equal("Third caption");
+    expect(post.revisionCount.toNumber()).to.equal(2);
+
+    const revisions = await program.account.postRevision.all([
+      { memcmp: { offset: 8, bytes: postPda.toBase58() } }
+    ]);
+    const captions = revisions
+      .sort((a, b) => a.account.index.toNumber() - b.account.index.toNumber())
+      .map((revision) => revision.account.content);
+    expect(captions).to.deep.equal([originalCaption, "Second caption"]);
+  });
+
+  it("Should allow a caption of the maximum length", async () => {
+    const longCaption = "a".repeat(280);
+    await updatePost(user, longCaption);
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.content).to.equal(longCaption);
+  });
+
+  // UNHAPPY PATH TESTS
+  it("Should fail when someone other than the creator edits", async () => {
+    try {
+      await updatePost(stranger, "Not my post");
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+
+    const post = await program.account.post.fetch(postPda);
+    expect(post.content).to.equal(originalCaption);
+    expect(post.revisionCount.toNumber()).to.equal(0);
+  });
+
+  it("Should fail with an empty caption", async () => {
+    try {
+      await updatePost(user, "");
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("InvalidContentLength");
+    }
+  });
+
+  it("Should fail with a caption that is too long", async () => {
+    try {
+      await updatePost(user, "a".repeat(281));
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("InvalidContentLength");
+    }
+  });
+
+  it("Should fail when the caption is unchanged", async () => {
+    try {
+      await updatePost(user, originalCaption);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ContentUnchanged");
+      expect(error.error.errorCode.number).to.equal(6017);
+    }
+
+    const revisionAccount = await provider.connection.getAccountInfo(client.postRevisionPda(postPda, 0));
+    expect(revisionAccount).to.be.null;
+  });
+});
+
+describe("Close Orphaned Accounts", () => {
+  let user: anchor.web3.Keypair;
+  let commenter: anchor.web3.Keypair;
+  let userProfilePda: anchor.web3.PublicKey;
+  let postPda: anchor.web3.PublicKey;
+  let commentPda: anchor.web3.PublicKey;
+  let reactionPda: anchor.web3.PublicKey;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  async function createPost(content: string) {
+    const post = await client.nextPostPda(user.publicKey);
+    await program.methods
+      .createPost("https://example.com/orphans.jpg", content)
+      .accountsPartial({
+        creator: user.publicKey,
+        post,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+    return post;
+  }
+
+  async function deletePost(post: anchor.web3.PublicKey) {
+    await program.methods
+      .deleteUserPost()
+      .accounts({
+        creator: user.publicKey,
+        post
+      })
+      .signers([user])
+      .rpc();
+  }
+
+  // Sent and paid for by the provider wallet, which owns none of these accounts
+  async function closeComment(comment = commentPda, commentBy = commenter.publicKey, post = postPda) {
+    await program.methods
+      .closeOrphanedComment()
+      .accountsPartial({
+        comment,
+        commentBy,
+        post
+      })
+      .rpc();
+  }
+
+  async function closeReaction(reaction = reactionPda, reactionBy = commenter.publicKey, post = postPda) {
+    await program.methods
+      .closeOrphanedReaction()
+      .accountsPartial({
+        reaction,
+        reactionBy,
+        post
+      })
+      .rpc();
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    commenter = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, commenter.publicKey);
+    [userProfilePda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("profile"), user.publicKey.toBuffer()],
+      program.programId
+    );
+
+    const handle = uniqueHandle("orphans");
+    await program.methods
+      .initialize(handle, "Deletes posts", "https://orphans.com/avatar.png")
+      .accounts({
+        user: user.publicKey,
+        handleRecord: deriveHandleRecordPda(handle, program.programId)
+      })
+      .signers([user])
+      .rpc();
+
+    postPda = await createPost("Soon to be deleted");
+
+    commentPda = await client.nextCommentPda(postPda);
+    await program.methods
+      .createComment("Comment on a doomed post")
+      .accountsPartial({
+        commenter: commenter.publicKey,
+        comment: commentPda,
+        post: postPda
+      })
+      .signers([commenter])
+      .rpc();
+
+    [reactionPda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("reaction"), postPda.toBuffer(), commenter.publicKey.toBuffer()],
+      program.programId
+    );
+    await program.methods
+      .createReaction({ love: {} })
+      .accounts({
+        reactioner: commenter.publicKey,
+        post: postPda
+      })
+      .signers([commenter])
+      .rpc();
+  });
+
+  // HAPPY PATH TESTS
+  it("Should close an orphaned comment and refund its author", async () => {
+    await deletePost(postPda);
+    const rent = (await provider.connection.getAccountInfo(commentPda)).lamports;
+    const balanceBefore = await provider.connection.getBalance(commenter.publicKey);
+
+    await closeComment();
+
+    expect(await provider.connection.getAccountInfo(commentPda)).to.be.null;
+    const balanceAfter = await provider.connection.getBalance(commenter.publicKey);
+    expect(balanceAfter).to.equal(balanceBefore + rent);
+  });
+
+  it("Should close an orphaned reaction and refund the reactioner", async () => {
+    await deletePost(postPda);
+    const rent = (await provider.connection.getAccountInfo(reactionPda)).lamports;
+    const balanceBefore = await provider.connection.getBalance(commenter.publicKey);
+
+    await closeReaction();
+
+    expect(await provider.connection.getAccountInfo(reactionPda)).to.be.null;
+    const balanceAfter = await provider.connection.getBalance(commenter.publicKey);
+    expect(balanceAfter).to.equal(balanceBefore + rent);
+  });
+
+  it("Should close orphans even after lamports are sent to the deleted post's address", async () => {
+    await deletePost(postPda);
+    await airdrop(provider.connection, postPda, 1000000);
+
+    await closeComment();
+    await closeReaction();
+
+    expect(await provider.connection.getAccountInfo(commentPda)).to.be.null;
+    expect(await provider.connection.getAccountInfo(reactionPda)).to.be.null;
+  });
+
+  // UNHAPPY PATH TESTS
+  it("Should fail to close a comment while its post exists", async () => {
+    try {
+      await closeComment();
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("PostStillExists");
+      expect(error.error.errorCode.number).to.equal(6018);
+    }
+
+    expect(await provider.connection.getAccountInfo(commentPda)).to.not.be.null;
+  });
+
+  it("Should fail to close a reaction while its post exists", async () => {
+    try {
+      await closeReaction();
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("PostStillExists");
+    }
+
+    expect(await provider.connection.getAccountInfo(reactionPda)).to.not.be.null;
+  });
+
+  it("Should fail to close a live comment by pointing at another deleted post", async () => {
+    const otherPostPda = await createPost("Deleted decoy");
+    await deletePost(otherPostPda);
+
+    try {
+      await closeComment(commentPda, commenter.publicKey, otherPostPda);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintHasOne");
+    }
+  });
+
+  it("Should fail to send the rent to someone other than the author", async () => {
+    await deletePost(postPda);
+
+    try {
+      await closeComment(commentPda, provider.wallet.publicKey);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintHasOne");
+    }
+
+    try {
+      await closeReaction(reactionPda, provider.wallet.publicKey);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintHasOne");
+    }
+  });
+});
+
+describe("Close Profile", () => {
+  let user: anchor.web3.Keypair;
+  let follower: anchor.web3.Keypair;
+  let userProfilePda: anchor.web3.PublicKey;
+  let followerProfilePda: anchor.web3.PublicKey;
+  let handle: string;
+  let followerHandle: string;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  function profilePda(authority: anchor.web3.PublicKey) {
+    return anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("profile"), authority.toBuffer()],
+      program.programId
+    )[0];
+  }
+
+  function followPda(fromProfile: anchor.web3.PublicKey, toProfile: anchor.web3.PublicKey) {
+    return anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("follow"), fromProfile.toBuffer(), toProfile.toBuffer()],
+      program.programId
+    )[0];
+  }
+
+  async function createProfile(owner: anchor.web3.Keypair, ownerHandle: string) {
+    await program.methods
+      .initialize(ownerHandle, "Leaving soon", "https://closing.com/avatar.png")
+      .accounts({
+        user: owner.publicKey,
+        handleRecord: deriveHandleRecordPda(ownerHandle, program.programId)
+      })
+      .signers([owner])
+      .rpc();
+  }
+
+  async function createPost(owner: anchor.web3.Keypair, content: string) {
+    const postPda = await client.nextPostPda(owner.publicKey);
+    await program.methods
+      .createPost("https://closing.com/post.png", content)
+      .accountsPartial({
+        creator: owner.publicKey,
+        post: postPda,
+        profile: profilePda(owner.publicKey)
+      })
+      .signers([owner])
+      .rpc();
+    return postPda;
+  }
+
+  async function closeProfile(owner: anchor.web3.Keypair, handleRecord: anchor.web3.PublicKey) {
+    await program.methods
+      .closeProfile()
+      .accounts({
+        user: owner.publicKey,
+        profile: profilePda(owner.publicKey),
+        handleRecord
+      })
+      .signers([owner])
+      .rpc();
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    follower = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, follower.publicKey);
+    userProfilePda = profilePda(user.publicKey);
+    followerProfilePda = profilePda(follower.publicKey);
+
+    handle = uniqueHandle("closing");
+    await createProfile(user, handle);
+    followerHandle = uniqueHandle("follower");
+    await createProfile(follower, followerHandle);
+
+    await program.methods
+      .followUserProfile()
+      .accounts({
+        follower: follower.publicKey,
+        followerProfile: followerProfilePda,
+        followingProfile: userProfilePda
+      })
+      .signers([follower])
+      .rpc();
+  });
+
+  // ========================================
+  // HAPPY PATH TESTS
+  // ========================================
+
+  it("Should close the profile and free its handle", async () => {
+    const recordPda = deriveHandleRecordPda(handle, program.programId);
+    const balanceBefore = await provider.connection.getBalance(user.publicKey);
+
+    await closeProfile(user, recordPda);
+
+    expect(await provider.connection.getAccountInfo(userProfilePda)).to.be.null;
+    expect(await provider.connection.getAccountInfo(recordPda)).to.be.null;
+    const balanceAfter = await provider.connection.getBalance(user.publicKey);
+    expect(balanceAfter).to.be.greaterThan(balanceBefore);
+
+    // The same wallet can sign up again under the same handle
+    await createProfile(user, handle);
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.handle).to.equal(handle);
+    expect(profile.postCount.toNumber()).to.equal(0);
+  });
+
+  it("Should give a profile created again new post addresses", async () => {
+    const oldPostPda = await createPost(user, "Left behind");
+    const { createdSlot: oldSlot } = await program.account.userProfile.fetch(userProfilePda);
+
+    await closeProfile(user, deriveHandleRecordPda(handle, program.programId));
+    await createProfile(user, handle);
+
+    // The counter starts over, but the new creation slot keeps the address fresh
+    const newPostPda = await createPost(user, "Fresh start");
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.createdSlot.toNumber()).to.be.greaterThan(oldSlot.toNumber());
+    expect(profile.postCount.toNumber()).to.equal(1);
+    expect(newPostPda.toBase58()).to.not.equal(oldPostPda.toBase58());
+
+    const oldPost = await program.account.post.fetch(oldPostPda);
+    expect(oldPost.content).to.equal("Left behind");
+    const newPost = await program.account.post.fetch(newPostPda);
+    expect(newPost.content).to.equal("Fresh start");
+  });
+
+
+  it("Should remove a follower and refund the follow to them", async () => {
+    const follow = followPda(followerProfilePda, userProfilePda);
+    const balanceBefore = await provider.connection.getBalance(follower.publicKey);
+
+    await program.methods
+      .removeFollower()
+      .accounts({
+        user: user.publicKey,
+        follow: followPda(followerProfilePda, userProfilePda),
+        followerProfile: followerProfilePda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+
+    expect(await provider.connection.getAccountInfo(follow)).to.be.null;
+    const balanceAfter = await provider.connection.getBalance(follower.publicKey);
+    expect(balanceAfter).to.be.greaterThan(balanceBefore);
+
+    const userProfile = await program.account.userProfile.fetch(userProfilePda);
+    expect(userProfile.followerCount.toNumber()).to.equal(0);
+    const followerProfile = await program.account.userProfile.fetch(followerProfilePda);
+    expect(followerProfile.followingCount.toNumber()).to.equal(0);
+  });
+
+  it("Should remove a follower whose profile is already closed", async () => {
+    await closeProfile(follower, deriveHandleRecordPda(followerHandle, program.programId));
+
+    await program.methods
+      .removeFollower()
+      .accounts({
+        user: user.publicKey,
+        follow: followPda(followerProfilePda, userProfilePda),
+        followerProfile: followerProfilePda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+
+    expect(await provider.connection.getAccountInfo(followPda(followerProfilePda, userProfilePda))).to.be.null;
+    const userProfile = await program.account.userProfile.fetch(userProfilePda);
+    expect(userProfile.followerCount.toNumber()).to.equal(0);
+  });
+
+  // ========================================
+  // UNHAPPY PATH TESTS
+  // ========================================
+
+  it("Should fail to close a profile in the slot it was created in", async () => {
+    const newcomer = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, newcomer.publicKey);
+    const newcomerHandle = uniqueHandle("hasty");
+
+    const closeIx = await program.methods
+      .closeProfile()
+      .accounts({
+        user: newcomer.publicKey,
+        profile: profilePda(newcomer.publicKey),
+        handleRecord: deriveHandleRecordPda(newcomerHandle, program.programId)
+      })
+      .instruction();
+
+    try {
+      await program.methods
+        .initialize(newcomerHandle, "Gone in a slot", "https://closing.com/avatar.png")
+        .accounts({
+          user: newcomer.publicKey,
+          handleRecord: deriveHandleRecordPda(newcomerHandle, program.programId)
+        })
+        .postInstructions([closeIx])
+        .signers([newcomer])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ProfileTooNew");
+      expect(error.error.errorCode.number).to.equal(6023);
+    }
+
+    expect(await provider.connection.getAccountInfo(profilePda(newcomer.publicKey))).to.be.null;
+  });
+
+  it("Should fail when closing someone else's profile", async () => {
+    try {
+      await program.methods
+        .closeProfile()
+        .accountsPartial({
+          user: follower.publicKey,
+          profile: userProfilePda,
+          handleRecord: deriveHandleRecordPda(handle, program.programId)
+        })
+        .signers([follower])
+        .rpc();
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+
+    expect(await provider.connection.getAccountInfo(userProfilePda)).to.not.be.null;
+  });
+
+  it("Should fail when closing another profile's handle record", async () => {
+    const stranger = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, stranger.publicKey);
+    await createProfile(stranger, uniqueHandle("stranger"));
+
+    try {
+      await closeProfile(stranger, deriveHandleRecordPda(handle, program.programId));
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
+    }
+  });
+
+  it("Should fail when closing the profile with another handle record", async () => {
+    try {
+      await closeProfile(user, deriveHandleRecordPda(followerHandle, program.programId));
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("ConstraintSeeds");
+    }
+
+    expect(await provider.connection.getAccountInfo(userProfilePda)).to.not.be.null;
+    const record = await program.account.handleRecord.fetch(deriveHandleRecordPda(handle, program.programId));
+    expect(record.profile.toBase58()).to.equal(userProfilePda.toBase58());
+  });
+
+  it("Should fail when removing a follower from someone else's profile", async () => {
+    const stranger = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, stranger.publicKey);
+    await createProfile(stranger, uniqueHandle("stranger"));
+
+    try {
+      await program.methods
+        .removeFollower()
+        .accountsPartial({
+          user: stranger.publicKey,
+          follow: followPda(followerProfilePda, userProfilePda),
+          followerProfile: followerProfilePda,
+          profile: userProfilePda
+        })
+        .signers([stranger])
+        .rpc();
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+
+    const userProfile = await program.account.userProfile.fetch(userProfilePda);
+    expect(userProfile.followerCount.toNumber()).to.equal(1);
+  });
+});
+
+describe("Authority Transfer", () => {
+  let user: anchor.web3.Keypair;
+  let newOwner: anchor.web3.Keypair;
+  let userProfilePda: anchor.web3.PublicKey;
+  let handle: string;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+
+  function pda(seeds: (Buffer | Uint8Array)[]) {
+    return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId)[0];
+  }
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  async function createProfile(owner: anchor.web3.Keypair, ownerHandle: string) {
+    await program.methods
+      .initialize(ownerHandle, "Changing hands", "https://transfer.com/avatar.png")
+      .accounts({
+        user: owner.publicKey,
+        handleRecord: deriveHandleRecordPda(ownerHandle, program.programId)
+      })
+      .signers([owner])
+      .rpc();
+  }
+
+  async function propose(owner: anchor.web3.Keypair, to: anchor.web3.PublicKey) {
+    await program.methods
+      .proposeAuthorityTransfer(to)
+      .accounts({
+        user: owner.publicKey,
+        profile: userProfilePda
+      })
+      .signers([owner])
+      .rpc();
+  }
+
+  async function accept(signer: anchor.web3.Keypair) {
+    await program.methods
+      .acceptAuthorityTransfer()
+      .accounts({
+        newAuthority: signer.publicKey,
+        profile: userProfilePda
+      })
+      .signers([signer])
+      .rpc();
+  }
+
+  // Posts are seeded by the wallet that signs `create_post`, so after a transfer
+  // the next address comes from the new authority and the profile's counter
+  async function createPost(signer: anchor.web3.Keypair, content: string) {
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    const postPda = derivePostPda(signer.publicKey, profile.createdSlot.toNumber(), profile.postCount.toNumber(), program.programId);
+    await program.methods
+      .createPost("https://transfer.com/post.png", content)
+      .accountsPartial({
+        creator: signer.publicKey,
+        post: postPda,
+        profile: userProfilePda
+      })
+      .signers([signer])
+      .rpc();
+    return postPda;
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    newOwner = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, newOwner.publicKey);
+    userProfilePda = pda([Buffer.from("profile"), user.publicKey.toBuffer()]);
+
+    handle = uniqueHandle("transfer");
+    await createProfile(user, handle);
+  });
+
+  // ========================================
+  // HAPPY PATH TESTS
+  // ========================================
+
+  it("Should hand the profile to the new wallet once it accepts", async () => {
+    await createPost(user, "Before the move");
+    await propose(user, newOwner.publicKey);
+
+    const transferPda = pda([Buffer.from("authority_transfer"), userProfilePda.toBuffer()]);
+    const transfer = await program.account.authorityTransfer.fetch(transferPda);
+    expect(transfer.profile.toBase58()).to.equal(userProfilePda.toBase58());
+    expect(transfer.currentAuthority.toBase58()).to.equal(user.publicKey.toBase58());
+    expect(transfer.newAuthority.toBase58()).to.equal(newOwner.publicKey.toBase58());
+
+    // Nothing moves until the new wallet accepts
+    let profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.authority.toBase58()).to.equal(user.publicKey.toBase58());
+
+    await accept(newOwner);
+
+    profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.authority.toBase58()).to.equal(newOwner.publicKey.toBase58());
+    expect(profile.handle).to.equal(handle);
+    expect(profile.postCount.toNumber()).to.equal(1);
+    expect(await provider.connection.getAccountInfo(transferPda)).to.be.null;
+
+    for (const wallet of [user.publicKey, newOwner.publicKey]) {
+      const record = await program.account.authorityRecord.fetch(pda([Buffer.from("authority"), wallet.toBuffer()]));
+      expect(record.profile.toBase58()).to.equal(userProfilePda.toBase58());
+      expect(record.authority.toBase58()).to.equal(wallet.toBase58());
+    }
+
+    const handleRecord = await program.account.handleRecord.fetch(deriveHandleRecordPda(handle, program.programId));
+    expect(handleRecord.profile.toBase58()).to.equal(userProfilePda.toBase58());
+  });
+
+  it("Should let the new wallet post, edit and delete the profile's posts", async () => {
+    const oldPostPda = await createPost(user, "Posted by the old wallet");
+    await propose(user, newOwner.publicKey);
+    await accept(newOwner);
+
+    const newPostPda = await createPost(newOwner, "Posted by the new wallet");
+    const newPost = await program.account.post.fetch(newPostPda);
+    expect(newPost.profile.toBase58()).to.equal(userProfilePda.toBase58());
+
+    await program.methods
+      .updatePost("Edited by the new wallet")
+      .accounts({
+        creator: newOwner.publicKey,
+        post: oldPostPda
+      })
+      .signers([newOwner])
+      .rpc();
+    const edited = await program.account.post.fetch(oldPostPda);
+    expect(edited.content).to.equal("Edited by the new wallet");
+
+    await program.methods
+      .deleteUserPost()
+      .accounts({
+        creator: newOwner.publicKey,
+        post: oldPostPda
+      })
+      .signers([newOwner])
+      .rpc();
+    expect(await provider.connection.getAccountInfo(oldPostPda)).to.be.null;
+  });
+
+  it("Should let only the new wallet moderate comments on the profile's posts", async () => {
+    const commenter = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, commenter.publicKey);
+    const postPda = await createPost(user, "Comments welcome");
+    const commentPda = await client.nextCommentPda(postPda);
+    await program.methods
+      .createComment("Posted before the move")
+      .accountsPartial({
+        commenter: commenter.publicKey,
+        comment: commentPda,
+        post: postPda
+      })
+      .signers([commenter])
+      .rpc();
+
+    await propose(user, newOwner.publicKey);
+    await accept(newOwner);
+
+    // The post still names the old wallet as its creator
+    try {
+      await program.methods
+        .deleteComment()
+        .accounts({
+          authority: user.publicKey,
+          comment: commentPda,
+          parent: null
+        })
+        .signers([user])
+        .rpc();
+
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+
+    await program.methods
+      .deleteComment()
+      .accounts({
+        authority: newOwner.publicKey,
+        comment: commentPda,
+        parent: null
+      })
+      .signers([newOwner])
+      .rpc();
+
+    expect(await provider.connection.getAccountInfo(commentPda)).to.be.null;
+    const post = await program.account.post.fetch(postPda);
+    expect(post.commentCount.toNumber()).to.equal(0);
+  });
+
+  it("Should let an earlier follower unfollow after the transfer", async () => {
+    const follower = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, follower.publicKey);
+    await createProfile(follower, uniqueHandle("fan"));
+    const followerProfilePda = pda([Buffer.from("profile"), follower.publicKey.toBuffer()]);
+
+    await program.methods
+      .followUserProfile()
+      .accounts({
+        follower: follower.publicKey,
+        followerProfile: followerProfilePda,
+        followingProfile: userProfilePda
+      })
+      .signers([follower])
+      .rpc();
+
+    await propose(user, newOwner.publicKey);
+    await accept(newOwner);
+
+    // The follow is addressed by the two profiles, which keep their addresses
+    const followPda = pda([Buffer.from("follow"), followerProfilePda.toBuffer(), userProfilePda.toBuffer()]);
+    await program.methods
+      .unfollowUserProfile()
+      .accounts({
+        follower: follower.publicKey,
+        follow: followPda,
+        followerProfile: followerProfilePda,
+        followingProfile: userProfilePda
+      })
+      .signers([follower])
+      .rpc();
+
+    expect(await provider.connection.getAccountInfo(followPda)).to.be.null;
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.followerCount.toNumber()).to.equal(0);
+  });
+
+  it("Should undo follows made under the second wallet once a third holds the profile", async () => {
+    const thirdOwner = anchor.web3.Keypair.generate();
+    const other = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, thirdOwner.publicKey);
+    await airdrop(provider.connection, other.publicKey);
+    await createProfile(other, uniqueHandle("other"));
+    const otherProfilePda = pda([Buffer.from("profile"), other.publicKey.toBuffer()]);
+
+    await propose(user, newOwner.publicKey);
+    await accept(newOwner);
+
+    // Both follows store the second wallet, which neither created the profile
+    // nor holds it once the third wallet accepts
+    await program.methods
+      .followUserProfile()
+      .accounts({
+        follower: newOwner.publicKey,
+        followerProfile: userProfilePda,
+        followingProfile: otherProfilePda
+      })
+      .signers([newOwner])
+      .rpc();
+    await program.methods
+      .followUserProfile()
+      .accounts({
+        follower: other.publicKey,
+        followerProfile: otherProfilePda,
+        followingProfile: userProfilePda
+      })
+      .signers([other])
+      .rpc();
+
+    await propose(newOwner, thirdOwner.publicKey);
+    await accept(thirdOwner);
+
+    const followingPda = pda([Buffer.from("follow"), userProfilePda.toBuffer(), otherProfilePda.toBuffer()]);
+    await program.methods
+      .unfollowUserProfile()
+      .accounts({
+        follower: thirdOwner.publicKey,
+        follow: followingPda,
+        followerProfile: userProfilePda,
+        followingProfile: otherProfilePda
+      })
+      .signers([thirdOwner])
+      .rpc();
+
+    const followerPda = pda([Buffer.from("follow"), otherProfilePda.toBuffer(), userProfilePda.toBuffer()]);
+    await program.methods
+      .removeFollower()
+      .accounts({
+        user: thirdOwner.publicKey,
+        follow: followerPda,
+        followerProfile: otherProfilePda,
+        profile: userProfilePda
+      })
+      .signers([thirdOwner])
+      .rpc();
+
+    expect(await provider.connection.getAccountInfo(followingPda)).to.be.null;
+    expect(await provider.connection.getAccountInfo(followerPda)).to.be.null;
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.followerCount.toNumber()).to.equal(0);
+    expect(profile.followingCount.toNumber()).to.equal(0);
+    const otherProfile = await program.account.userProfile.fetch(otherProfilePda);
+    expect(otherProfile.followerCount.toNumber()).to.equal(0);
+    expect(otherProfile.followingCount.toNumber()).to.equal(0);
+  });
+
+  it("Should cancel a pending transfer and refund it", async () => {
+    await propose(user, newOwner.publicKey);
+    const transferPda = pda([Buffer.from("authority_transfer"), userProfilePda.toBuffer()]);
+    const balanceBefore = await provider.connection.getBalance(user.publicKey);
+
+    await program.methods
+      .cancelAuthorityTransfer()
+      .accounts({
+        user: user.publicKey,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+
+    expect(await provider.connection.getAccountInfo(transferPda)).to.be.null;
+    const balanceAfter = await provider.connection.getBalance(user.publicKey);
+    expect(balanceAfter).to.be.greaterThan(balanceBefore);
+
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.authority.toBase58()).to.equal(user.publicKey.toBase58());
+  });
+
+  // ========================================
+  // UNHAPPY PATH TESTS
+  // ========================================
+
+  it("Should fail when another wallet accepts the transfer", async () => {
+    const stranger = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, stranger.publicKey);
+    await propose(user, newOwner.publicKey);
+
+    try {
+      await accept(stranger);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+      expect(error.error.errorCode.number).to.equal(6012);
+    }
+
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.authority.toBase58()).to.equal(user.publicKey.toBase58());
+  });
+
+  it("Should fail to propose a transfer to the current wallet", async () => {
+    try {
+      await propose(user, user.publicKey);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("InvalidNewAuthority");
+      expect(error.error.errorCode.number).to.equal(6019);
+    }
+  });
+
+  it("Should fail when someone else proposes a transfer", async () => {
+    try {
+      await propose(newOwner, newOwner.publicKey);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+  });
+
+  it("Should fail to accept with a wallet that already has a profile", async () => {
+    await createProfile(newOwner, uniqueHandle("taken"));
+    await propose(user, newOwner.publicKey);
+
+    try {
+      await accept(newOwner);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("AuthorityHasProfile");
+      expect(error.error.errorCode.number).to.equal(6020);
+    }
+  });
+
+  it("Should fail when the new wallet creates a second profile", async () => {
+    await propose(user, newOwner.publicKey);
+    await accept(newOwner);
+
+    try {
+      await createProfile(newOwner, uniqueHandle("second"));
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("AuthorityHasProfile");
+    }
+  });
+
+  it("Should fail when the old wallet edits the profile after the transfer", async () => {
+    await propose(user, newOwner.publicKey);
+    await accept(newOwner);
+
+    try {
+      await program.methods
+        .updateUserProfile(null, "Still mine?", null)
+        .accounts({
+          user: user.publicKey,
+          profile: userProfilePda,
+          oldHandleRecord: deriveHandleRecordPda(handle, program.programId),
+          newHandleRecord: null
+        })
+        .signers([user])
+        .rpc();
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+
+    try {
+      await createPost(user, "Not mine anymore");
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.error.errorCode.code).to.equal("Unauthorized");
+    }
+  });
+
+  it("Should fail to follow the same profile again after a transfer", async () => {
+    const followed = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, followed.publicKey);
+    await createProfile(followed, uniqueHandle("followed"));
+    const followedProfilePda = pda([Buffer.from("profile"), followed.publicKey.toBuffer()]);
+
+    async function follow(signer: anchor.web3.Keypair) {
+      await program.methods
+        .followUserProfile()
+        .accounts({
+          follower: signer.publicKey,
+          followerProfile: userProfilePda,
+          followingProfile: followedProfilePda
+        })
+        .signers([signer])
+        .rpc();
+    }
+
+    await follow(user);
+    await propose(user, newOwner.publicKey);
+    await accept(newOwner);
+
+    try {
+      await follow(newOwner);
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.message).to.include("already in use");
+    }
+
+    const followedProfile = await program.account.userProfile.fetch(followedProfilePda);
+    expect(followedProfile.followerCount.toNumber()).to.equal(1);
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.followingCount.toNumber()).to.equal(1);
+  });
+
+  it("Should fail to follow a transferred profile again", async () => {
+    const follower = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, follower.publicKey);
+    await createProfile(follower, uniqueHandle("repeat"));
+    const followerProfilePda = pda([Buffer.from("profile"), follower.publicKey.toBuffer()]);
+
+    async function follow() {
+      await program.methods
+        .followUserProfile()
+        .accounts({
+          follower: follower.publicKey,
+          followerProfile: followerProfilePda,
+          followingProfile: userProfilePda
+        })
+        .signers([follower])
+        .rpc();
+    }
+
+    await follow();
+    await propose(user, newOwner.publicKey);
+    await accept(newOwner);
+
+    try {
+      await follow();
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error.message).to.include("already in use");
+    }
+
+    const profile = await program.account.userProfile.fetch(userProfilePda);
+    expect(profile.followerCount.toNumber()).to.equal(1);
+  });
+});
+
+describe("Program Events", () => {
+  let user: anchor.web3.Keypair;
+  let other: anchor.web3.Keypair;
+  let userProfilePda: anchor.web3.PublicKey;
+  let otherProfilePda: anchor.web3.PublicKey;
+  let handle: string;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+  const client = new SolagramClient(program);
+  const parser = new anchor.EventParser(program.programId, program.coder);
+
+  function profilePda(owner: anchor.web3.PublicKey) {
+    return anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("profile"), owner.toBuffer()],
+      program.programId
+    )[0];
+  }
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  // Events the transaction logged, decoded the same way `addEventListener` does
+  async function eventsOf(signature: string) {
+    const tx = await provider.connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0
+    });
+    return Array.from(parser.parseLogs(tx.meta.logMessages));
+  }
+
+  async function createProfile(owner: anchor.web3.Keypair, ownerHandle: string) {
+    return program.methods
+      .initialize(ownerHandle, "Making noise", "https://events.com/avatar.png")
+      .accounts({
+        user: owner.publicKey,
+        handleRecord: deriveHandleRecordPda(ownerHandle, program.programId)
+      })
+      .signers([owner])
+      .rpc({ commitment: "confirmed" });
+  }
+
+  beforeEach(async () => {
+    user = anchor.web3.Keypair.generate();
+    other = anchor.web3.Keypair.generate();
+    await airdrop(provider.connection, user.publicKey);
+    await airdrop(provider.connection, other.publicKey);
+    userProfilePda = profilePda(user.publicKey);
+    otherProfilePda = profilePda(other.publicKey);
+    handle = uniqueHandle("events");
+  });
+
+  it("Should emit ProfileCreated when a profile is created", async () => {
+    const signature = await createProfile(user, handle);
+
+    const events = await eventsOf(signature);
+    expect(events).to.have.lengthOf(1);
+    expect(events[0].name).to.equal("profileCreated");
+    expect(events[0].data.profile.toBase58()).to.equal(userProfilePda.toBase58());
+    expect(events[0].data.authority.toBase58()).to.equal(user.publicKey.toBase58());
+    expect(events[0].data.handle).to.equal(handle);
+  });
+
+  it("Should emit PostCreated and PostDeleted for a post", async () => {
+    await createProfile(user, handle);
+    const postPda = await client.nextPostPda(user.publicKey);
+
+    const created = await eventsOf(await program.methods
+      .createPost("https://events.com/post.png", "Watch this")
+      .accountsPartial({
+        creator: user.publicKey,
+        post: postPda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" }));
+    expect(created.map((event) => event.name)).to.deep.equal(["postCreated"]);
+    expect(created[0].data.post.toBase58()).to.equal(postPda.toBase58());
+    expect(created[0].data.profile.toBase58()).to.equal(userProfilePda.toBase58());
+    expect(created[0].data.creator.toBase58()).to.equal(user.publicKey.toBase58());
+
+    const deleted = await eventsOf(await program.methods
+      .deleteUserPost()
+      .accounts({
+        creator: user.publicKey,
+        post: postPda
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" }));
+    expect(deleted.map((event) => event.name)).to.deep.equal(["postDeleted"]);
+    expect(deleted[0].data.post.toBase58()).to.equal(postPda.toBase58());
+  });
+
+  it("Should emit CommentAdded and ReactionAdded on someone else's post", async () => {
+    await createProfile(user, handle);
+    await createProfile(other, uniqueHandle("events_other"));
+    const postPda = await client.nextPostPda(user.publicKey);
+    await program.methods
+      .createPost("https://events.com/post.png", "Say something")
+      .accountsPartial({
+        creator: user.publicKey,
+        post: postPda,
+        profile: userProfilePda
+      })
+      .signers([user])
+      .rpc();
+
+    const commentPda = await client.nextCommentPda(postPda);
+    const commented = await eventsOf(await program.methods
+      .createComment("Nice")
+      .accountsPartial({
+        commenter: other.publicKey,
+        comment: commentPda,
+        post: postPda,
+      })
+      .signers([other])
+      .rpc({ commitment: "confirmed" }));
+    expect(commented.map((event) => event.name)).to.deep.equal(["commentAdded"]);
+    expect(commented[0].data.comment.toBase58()).to.equal(commentPda.toBase58());
+    expect(commented[0].data.commentBy.toBase58()).to.equal(other.publicKey.toBase58());
+    expect(commented[0].data.parent).to.be.null;
+
+    const reacted = await eventsOf(await program.methods
+      .createReaction({ love: {} })
+      .accounts({
+        reactioner: other.publicKey,
+        post: postPda
+      })
+      .signers([other])
+      .rpc({ commitment: "confirmed" }));
+    expect(reacted.map((event) => event.name)).to.deep.equal(["reactionAdded"]);
+    expect(reacted[0].data.reactionBy.toBase58()).to.equal(other.publicKey.toBase58());
+    expect(reacted[0].data.reactionType).to.deep.equal({ love: {} });
+  });
+
+  it("Should emit Followed and Unfollowed", async () => {
+    await createProfile(user, handle);
+    await createProfile(other, uniqueHandle("events_other"));
+    const followPda = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("follow"), otherProfilePda.toBuffer(), userProfilePda.toBuffer()],
+      program.programId
+    )[0];
+
+    const followed = await eventsOf(await program.methods
+      .followUserProfile()
+      .accounts({
+        follower: other.publicKey,
+        followerProfile: otherProfilePda,
+        followingProfile: userProfilePda
+      })
+      .signers([other])
+      .rpc({ commitment: "confirmed" }));
+    expect(followed.map((event) => event.name)).to.deep.equal(["followed"]);
+    expect(followed[0].data.follow.toBase58()).to.equal(followPda.toBase58());
+    expect(followed[0].data.followerProfile.toBase58()).to.equal(otherProfilePda.toBase58());
+    expect(followed[0].data.followingProfile.toBase58()).to.equal(userProfilePda.toBase58());
+
+    const unfollowed = await eventsOf(await program.methods
+      .unfollowUserProfile()
+      .accounts({
+        follower: other.publicKey,
+        follow: followPda,
+        followerProfile: otherProfilePda,
+        followingProfile: userProfilePda
+      })
+      .signers([other])
+      .rpc({ commitment: "confirmed" }));
+    expect(unfollowed.map((event) => event.name)).to.deep.equal(["unfollowed"]);
+    expect(unfollowed[0].data.follow.toBase58()).to.equal(followPda.toBase58());
+  });
+});
+
+// ========================================
+// COMPREHENSIVE FOLLOW USER TESTS
+// ========================================
+
+describe("Comprehensive Follow User Tests", () => {
+  let user1: anchor.web3.Keypair;
+  let user2: anchor.web3.Keypair;
+  let user3: anchor.web3.Keypair;
+  let user1ProfilePda: anchor.web3.PublicKey;
+  let user2ProfilePda: anchor.web3.PublicKey;
+  let user3ProfilePda: anchor.web3.PublicKey;
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.solanaInstagram as Program<SolanaInstagram>;
+
+  function pda(seeds: (Buffer | Uint8Array)[]) {
+    return anchor.web3.PublicKey.findProgramAddressSync(seeds, program.programId);
+  }
+
+  async function airdrop(connection: any, address: any, amount = 1000000000) {
+    await connection.confirmTransaction(await connection.requestAirdrop(address, amount), "confirmed");
+  }
+
+  beforeEach(async () => {
+    user1 = anchor.web3.Keypair.generate();
+    user2 = anchor.web3.Keypair.generate();
+    user3 = anchor.web3.Keypair.generate();
+    
+    await airdrop(provider.connection, user1.publicKey);
+    await airdrop(provider.connection, user2.publicKey);
+    await airdrop(provider.connection, user3.publicKey);
+    
+    [user1ProfilePda] = pda([Buffer.from("profile"), user1.publicKey.toBuffer()]);
+    [user2ProfilePda] = pda([Buffer.from("profile"), user2.publicKey.toBuffer()]);
+    [user3ProfilePda] = pda([Buffer.from("profile"), user3.publicKey.toBuffer()]);
+
+    // Create profiles for all users
+    const user1Handle = uniqueHandle("user1");
+    await program.methods
+      .initialize(user1Handle, "First user", "https://user1.com/avatar.png")
+      .accounts({
+        user: user1.publicKey,
+        handleRecord: deriveHandleRecordPda(user1Handle, program.programId)
+      })
+      .signers([user1])
+      .rpc();
+
+    const user2Handle = uniqueHandle("user2");
+    await program.methods
+      .initialize(user2Handle, "Second user", "https://user2.com/avatar.png")
+      .accounts({
+        user: user2.publicKey,
+        handleRecord: deriveHandleRecordPda(user2Handle, program.programId)
+      })
+      .signers([user2])
+      .rpc();
+
+    const user3Handle = uniqueHandle("user3");
+    await program.methods
+      .initialize(user3Handle, "Third user", "https://user3.com/avatar.png")
+      .accounts({
+        user: user3.publicKey,
+        handleRecord: deriveHandleRecordPda(user3Handle, program.programId)
+      })
+      .signers([user3])
+      .rpc();
+  });
+
+  // HAPPY PATH TESTS
+  it("Should create multiple follow relationships", async () => {
+    // User1 follows User2
+    const [followPda1] = pda([
+      Buffer.from("follow"),
+      user1ProfilePda.toBuffer(),
+      user2ProfilePda.toBuffer()
+    ]);
+
+    await program.methods
+      .followUserProfile()
+      .accounts({
+        follower: user1.publicKey,
+        followerProfile: user1ProfilePda,
+        followingProfile: user2ProfilePda
+      })
+      .signers([user1])
+      .rpc();
+
+    // User1 follows User3
+    const [followPda2] = pda([
+      Buffer.from("follow"),
+      user1ProfilePda.toBuffer(),
+      user3ProfilePda.toBuffer()
+    ]);
+
+    await program.methods
+      .followUserProfile()
+      .accounts({
+        follower: user1.publicKey,
+        followerProfile: user1ProfilePda,
+        followingProfile: user3ProfilePda
+      })
+      .signers([user1])
+      .rpc();
+
+    // User2 follows User3
+    const [followPda3] = pda([
+      Buffer.from("follow"),
+      user2ProfilePda.toBuffer(),
+      user3ProfilePda.toBuffer()
+    ]);
+
+    await program.methods
+      .followUserProfile()
+      .accounts({
+        follower: user2.publicKey,
+        followerProfile: user2ProfilePda,
+        followingProfile: user3ProfilePda
+      })
+      .signers([user2])
+      .rpc();
+
+    // Verify all follow relationships exist
+    const follow1 = await program.account.follow.fetch(followPda1);
+    const follow2 = await program.account.follow.fetch(followPda2);
+    const follow3 = await program.account.follow.fetch(followPda3);
+
+    expect(follow1.follower.toBase58()).to.equal(user1.publicKey.toBase58());
+    expect(follow1.following.toBase58()).to.equal(user2.publicKey.toBase58());
+    expect(follow2.follower.toBase58()).to.equal(user1.publicKey.toBase58());
+    expect(follow2.following.toBase58()).to.equal(user3.publicKey.toBase58());
+    expect(follow3.follower.toBase58()).to.equal(user2.publicKey.toBase58());
+    expect(follow3.following.toBase58()).to.equal(user3.publicKey.toBase58());
+
+    // Verify follower counts are correct
+    const user1Profile = await program.account.userProfile.fetch(user1ProfilePda);
+    const user2Profile = await program.account.userProfile.fetch(user2ProfilePda);
+    const user3Profile = await program.account.userProfile.fetch(user3ProfilePda);
+
+    expect(user1Profile.followingCount.toNumber()).to.equal(2);
+    expect(user1Profile.followerCount.toNumber()).to.equal(0);
+    expect(user2Profile.followingCount.toNumber()).to.equal(1);
+    expect(user2Profile.followerCount.toNumber()).to.equal(1);
+    expect(user3Profile.followingCount.toNumber()).to.equal(0);
+    expect(user3Profile.followerCount.toNumber()).to.equal(2);
+  });
+
+  it("Should allow bidirectional following", async () => {
+    // User1 follows User2
+    await program.methods
+      .followUserProfile()
+      .accounts({
+        follower: user1.publicKey,
+        followerProfile: user1ProfilePda,
+        followingProfile: user2ProfilePda
       })
       .signers([user1])
       .rpc();
@@ -3641,8 +6570,8 @@ describe("Comprehensive Follow User Tests", () => {
 
     const [followPda] = pda([
       Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
-      user2.publicKey.toBuffer()
+      user1ProfilePda.toBuffer(),
+      user2ProfilePda.toBuffer()
     ]);
 
     await program.methods
@@ -3690,7 +6619,7 @@ describe("Comprehensive Follow User Tests", () => {
     const nonExistentProfile = anchor.web3.Keypair.generate();
     const [followPda] = pda([
       Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
+      user1ProfilePda.toBuffer(),
       nonExistentProfile.publicKey.toBuffer()
     ]);
 
@@ -3791,7 +6720,7 @@ describe("Comprehensive Follow User Tests", () => {
 // COMPREHENSIVE UNFOLLOW USER TESTS
 // ========================================
 
-describe.only("Comprehensive Unfollow User Tests", () => {
+describe("Comprehensive Unfollow User Tests", () => {
   let user1: anchor.web3.Keypair;
   let user2: anchor.web3.Keypair;
   let user3: anchor.web3.Keypair;
@@ -3826,26 +6755,32 @@ describe.only("Comprehensive Unfollow User Tests", () => {
     [user3ProfilePda] = pda([Buffer.from("profile"), user3.publicKey.toBuffer()]);
 
     // Create profiles for all users
+    const user1Handle = uniqueHandle("user1");
     await program.methods
-      .initialize("user1", "First user", "https://user1.com/avatar.png")
+      .initialize(user1Handle, "First user", "https://user1.com/avatar.png")
       .accounts({
-        user: user1.publicKey
+        user: user1.publicKey,
+        handleRecord: deriveHandleRecordPda(user1Handle, program.programId)
       })
       .signers([user1])
       .rpc();
 
+    const user2Handle = uniqueHandle("user2");
     await program.methods
-      .initialize("user2", "Second user", "https://user2.com/avatar.png")
+      .initialize(user2Handle, "Second user", "https://user2.com/avatar.png")
       .accounts({
-        user: user2.publicKey
+        user: user2.publicKey,
+        handleRecord: deriveHandleRecordPda(user2Handle, program.programId)
       })
       .signers([user2])
       .rpc();
 
+    const user3Handle = uniqueHandle("user3");
     await program.methods
-      .initialize("user3", "Third user", "https://user3.com/avatar.png")
+      .initialize(user3Handle, "Third user", "https://user3.com/avatar.png")
       .accounts({
-        user: user3.publicKey
+        user: user3.publicKey,
+        handleRecord: deriveHandleRecordPda(user3Handle, program.programId)
       })
       .signers([user3])
       .rpc();
@@ -3856,8 +6791,8 @@ describe.only("Comprehensive Unfollow User Tests", () => {
     // First create follow relationship
     const [followPda] = pda([
       Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
-      user2.publicKey.toBuffer()
+      user1ProfilePda.toBuffer(),
+      user2ProfilePda.toBuffer()
     ]);
 
     await program.methods
@@ -3879,7 +6814,7 @@ describe.only("Comprehensive Unfollow User Tests", () => {
       .unfollowUserProfile()
       .accounts({
         follower: user1.publicKey,
-        // follow: followPda,
+        follow: followPda,
         followerProfile: user1ProfilePda,
         followingProfile: user2ProfilePda
       })
@@ -3899,8 +6834,8 @@ describe.only("Comprehensive Unfollow User Tests", () => {
     // Create follow relationship
     const [followPda] = pda([
       Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
-      user2.publicKey.toBuffer()
+      user1ProfilePda.toBuffer(),
+      user2ProfilePda.toBuffer()
     ]);
 
     await program.methods
@@ -3922,7 +6857,7 @@ describe.only("Comprehensive Unfollow User Tests", () => {
       .unfollowUserProfile()
       .accounts({
         follower: user1.publicKey,
-        // follow: followPda,
+        follow: followPda,
         followerProfile: user1ProfilePda,
         followingProfile: user2ProfilePda
       })
@@ -3941,8 +6876,8 @@ describe.only("Comprehensive Unfollow User Tests", () => {
     // Create follow relationship
     const [followPda] = pda([
       Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
-      user2.publicKey.toBuffer()
+      user1ProfilePda.toBuffer(),
+      user2ProfilePda.toBuffer()
     ]);
 
     await program.methods
@@ -3965,7 +6900,7 @@ describe.only("Comprehensive Unfollow User Tests", () => {
       .unfollowUserProfile()
       .accounts({
         follower: user1.publicKey,
-        // follow: followPda,
+        follow: followPda,
         followerProfile: user1ProfilePda,
         followingProfile: user2ProfilePda
       })
@@ -3983,8 +6918,8 @@ describe.only("Comprehensive Unfollow User Tests", () => {
     // Create follow relationship
     const [followPda] = pda([
       Buffer.from("follow"),
-      user1.publicKey.toBuffer(),
-      user2.publicKey.toBuffer()
+      user1ProfilePda.toBuffer(),
+      user2ProfilePda.toBuffer()
     ]);
 
     await program.methods
@@ -4004,7 +6939,7 @@ describe.only("Comprehensive Unfollow User Tests", () => {
       .unfollowUserProfile()
       .accounts({
         follower: user1.publicKey,
-        // follow: followPda,
+        follow: followPda,
         followerProfile: user1ProfilePda,
         followingProfile: user2ProfilePda
       })
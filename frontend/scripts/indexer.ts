@@ -0,0 +1,45 @@
+import { Connection } from "@solana/web3.js";
+import { isClusterName, namedCluster, SolagramClient } from "@/lib/solagram";
+import { IndexStore } from "@/lib/indexer/store";
+import { SolagramIndexer } from "@/lib/indexer/sync";
+
+// Off-chain indexer for the `/api` read routes: `npm run indexer`.
+//
+//   SOLAGRAM_INDEX_DB         SQLite file to write (the Next.js server reads the same one)
+//   SOLAGRAM_INDEXER_CLUSTER  localnet (default), devnet or mainnet-beta; picks the program ID and RPC
+//   SOLAGRAM_INDEXER_RPC      overrides the cluster's RPC endpoint
+
+async function main() {
+  const filePath = process.env.SOLAGRAM_INDEX_DB;
+  if (!filePath) {
+    throw new Error("Set SOLAGRAM_INDEX_DB to the SQLite file to write");
+  }
+
+  const clusterName = process.env.SOLAGRAM_INDEXER_CLUSTER ?? "localnet";
+  if (!isClusterName(clusterName)) {
+    throw new Error(`Unknown cluster: ${clusterName}`);
+  }
+  const cluster = namedCluster(clusterName);
+  const endpoint = process.env.SOLAGRAM_INDEXER_RPC || cluster.endpoint;
+
+  const store = await IndexStore.open(filePath);
+  const client = SolagramClient.readOnly(new Connection(endpoint, "confirmed"), cluster.programId);
+  const indexer = new SolagramIndexer(client, store);
+
+  console.log(`Indexing ${cluster.programId.toBase58()} on ${endpoint} into ${filePath}`);
+  await indexer.start();
+  console.log("Following new transactions; Ctrl+C to stop");
+
+  const shutdown = async () => {
+    await indexer.stop();
+    store.close();
+    process.exit(0);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
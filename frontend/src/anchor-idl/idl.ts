@@ -13,31 +13,1043 @@ export type SolanaInstagram = {
     "description": "Created with Anchor"
   },
   "instructions": [
+    {
+      "name": "acceptAuthorityTransfer",
+      "discriminator": [
+        239,
+        248,
+        177,
+        2,
+        206,
+        97,
+        46,
+        255
+      ],
+      "accounts": [
+        {
+          "name": "newAuthority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "currentAuthority",
+          "writable": true,
+          "relations": [
+            "transfer"
+          ]
+        },
+        {
+          "name": "profile",
+          "writable": true
+        },
+        {
+          "name": "transfer",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  117,
+                  116,
+                  104,
+                  111,
+                  114,
+                  105,
+                  116,
+                  121,
+                  95,
+                  116,
+                  114,
+                  97,
+                  110,
+                  115,
+                  102,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "profile"
+              }
+            ]
+          }
+        },
+        {
+          "name": "newAuthorityProfile",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  114,
+                  111,
+                  102,
+                  105,
+                  108,
+                  101
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "new_authority"
+              }
+            ]
+          }
+        },
+        {
+          "name": "newAuthorityRecord",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  117,
+                  116,
+                  104,
+                  111,
+                  114,
+                  105,
+                  116,
+                  121
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "new_authority"
+              }
+            ]
+          }
+        },
+        {
+          "name": "currentAuthorityRecord",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  117,
+                  116,
+                  104,
+                  111,
+                  114,
+                  105,
+                  116,
+                  121
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "current_authority"
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "cancelAuthorityTransfer",
+      "discriminator": [
+        94,
+        131,
+        125,
+        184,
+        183,
+        24,
+        125,
+        229
+      ],
+      "accounts": [
+        {
+          "name": "user",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "profile"
+        },
+        {
+          "name": "transfer",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  117,
+                  116,
+                  104,
+                  111,
+                  114,
+                  105,
+                  116,
+                  121,
+                  95,
+                  116,
+                  114,
+                  97,
+                  110,
+                  115,
+                  102,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "profile"
+              }
+            ]
+          }
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "closeOrphanedComment",
+      "discriminator": [
+        38,
+        96,
+        79,
+        146,
+        92,
+        223,
+        184,
+        37
+      ],
+      "accounts": [
+        {
+          "name": "comment",
+          "writable": true
+        },
+        {
+          "name": "commentBy",
+          "writable": true,
+          "relations": [
+            "comment"
+          ]
+        },
+        {
+          "name": "post",
+          "relations": [
+            "comment"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "closeOrphanedCommentLike",
+      "discriminator": [
+        243,
+        61,
+        73,
+        204,
+        165,
+        24,
+        117,
+        207
+      ],
+      "accounts": [
+        {
+          "name": "like",
+          "writable": true
+        },
+        {
+          "name": "liker",
+          "writable": true,
+          "relations": [
+            "like"
+          ]
+        },
+        {
+          "name": "comment",
+          "relations": [
+            "like"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "closeOrphanedReaction",
+      "discriminator": [
+        80,
+        163,
+        177,
+        133,
+        212,
+        17,
+        94,
+        166
+      ],
+      "accounts": [
+        {
+          "name": "reaction",
+          "writable": true
+        },
+        {
+          "name": "reactionBy",
+          "writable": true,
+          "relations": [
+            "reaction"
+          ]
+        },
+        {
+          "name": "post",
+          "relations": [
+            "reaction"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "closeProfile",
+      "discriminator": [
+        167,
+        36,
+        181,
+        8,
+        136,
+        158,
+        46,
+        207
+      ],
+      "accounts": [
+        {
+          "name": "user",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "profile",
+          "writable": true
+        },
+        {
+          "name": "handleRecord",
+          "writable": true
+        },
+        {
+          "name": "authorityRecord",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  117,
+                  116,
+                  104,
+                  111,
+                  114,
+                  105,
+                  116,
+                  121
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "user"
+              }
+            ]
+          }
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "createBookmark",
+      "discriminator": [
+        186,
+        33,
+        85,
+        155,
+        159,
+        167,
+        21,
+        202
+      ],
+      "accounts": [
+        {
+          "name": "user",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "bookmark",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  98,
+                  111,
+                  111,
+                  107,
+                  109,
+                  97,
+                  114,
+                  107
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "user"
+              },
+              {
+                "kind": "account",
+                "path": "post"
+              }
+            ]
+          }
+        },
+        {
+          "name": "post"
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
     {
       "name": "createComment",
       "discriminator": [
-        236,
-        232,
-        11,
-        180,
-        70,
+        236,
+        232,
+        11,
+        180,
+        70,
+        206,
+        73,
+        145
+      ],
+      "accounts": [
+        {
+          "name": "commenter",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "comment",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  109,
+                  109,
+                  101,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "post"
+              },
+              {
+                "kind": "account",
+                "path": "post.next_comment_index",
+                "account": "post"
+              }
+            ]
+          }
+        },
+        {
+          "name": "post",
+          "writable": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "content",
+          "type": "string"
+        }
+      ]
+    },
+    {
+      "name": "createPost",
+      "discriminator": [
+        123,
+        92,
+        184,
+        29,
+        231,
+        24,
+        15,
+        202
+      ],
+      "accounts": [
+        {
+          "name": "creator",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "post",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  111,
+                  115,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "creator"
+              },
+              {
+                "kind": "account",
+                "path": "profile.created_slot",
+                "account": "userProfile"
+              },
+              {
+                "kind": "account",
+                "path": "profile.post_count",
+                "account": "userProfile"
+              }
+            ]
+          }
+        },
+        {
+          "name": "profile",
+          "writable": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "mediaUri",
+          "type": "string"
+        },
+        {
+          "name": "content",
+          "type": "string"
+        }
+      ]
+    },
+    {
+      "name": "createReaction",
+      "discriminator": [
+        130,
+        167,
+        113,
+        146,
+        55,
+        159,
+        61,
+        144
+      ],
+      "accounts": [
+        {
+          "name": "reactioner",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "reaction",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  97,
+                  99,
+                  116,
+                  105,
+                  111,
+                  110
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "post"
+              },
+              {
+                "kind": "account",
+                "path": "reactioner"
+              }
+            ]
+          }
+        },
+        {
+          "name": "post",
+          "writable": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "reactionType",
+          "type": {
+            "defined": {
+              "name": "reactionType"
+            }
+          }
+        }
+      ]
+    },
+    {
+      "name": "createReply",
+      "discriminator": [
+        249,
+        250,
+        0,
+        203,
+        206,
+        162,
+        33,
+        179
+      ],
+      "accounts": [
+        {
+          "name": "commenter",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "reply",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  109,
+                  109,
+                  101,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "post"
+              },
+              {
+                "kind": "account",
+                "path": "post.next_comment_index",
+                "account": "post"
+              }
+            ]
+          }
+        },
+        {
+          "name": "parent",
+          "writable": true
+        },
+        {
+          "name": "post",
+          "writable": true,
+          "relations": [
+            "parent"
+          ]
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "content",
+          "type": "string"
+        }
+      ]
+    },
+    {
+      "name": "deleteComment",
+      "discriminator": [
+        40,
+        183,
+        112,
+        58,
+        215,
+        240,
+        57,
+        82
+      ],
+      "accounts": [
+        {
+          "name": "authority",
+          "signer": true
+        },
+        {
+          "name": "comment",
+          "writable": true
+        },
+        {
+          "name": "commentBy",
+          "writable": true,
+          "relations": [
+            "comment"
+          ]
+        },
+        {
+          "name": "parent",
+          "writable": true,
+          "optional": true
+        },
+        {
+          "name": "post",
+          "writable": true,
+          "relations": [
+            "comment"
+          ]
+        },
+        {
+          "name": "profile",
+          "relations": [
+            "post"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "deleteUserPost",
+      "discriminator": [
+        178,
+        32,
+        186,
+        226,
+        33,
+        220,
+        83,
+        31
+      ],
+      "accounts": [
+        {
+          "name": "creator",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "post",
+          "writable": true
+        },
+        {
+          "name": "profile",
+          "relations": [
+            "post"
+          ]
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "followUserProfile",
+      "discriminator": [
+        128,
+        153,
+        235,
+        244,
+        81,
+        20,
+        17,
+        23
+      ],
+      "accounts": [
+        {
+          "name": "follower",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "follow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  102,
+                  111,
+                  108,
+                  108,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "follower_profile"
+              },
+              {
+                "kind": "account",
+                "path": "following_profile"
+              }
+            ]
+          }
+        },
+        {
+          "name": "followerProfile",
+          "writable": true
+        },
+        {
+          "name": "followingProfile",
+          "writable": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "initialize",
+      "discriminator": [
+        175,
+        175,
+        109,
+        31,
+        13,
+        152,
+        155,
+        237
+      ],
+      "accounts": [
+        {
+          "name": "user",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "profile",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  114,
+                  111,
+                  102,
+                  105,
+                  108,
+                  101
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "user"
+              }
+            ]
+          }
+        },
+        {
+          "name": "handleRecord",
+          "writable": true
+        },
+        {
+          "name": "authorityRecord",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  117,
+                  116,
+                  104,
+                  111,
+                  114,
+                  105,
+                  116,
+                  121
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "user"
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "handle",
+          "type": "string"
+        },
+        {
+          "name": "bio",
+          "type": "string"
+        },
+        {
+          "name": "avatarUri",
+          "type": "string"
+        }
+      ]
+    },
+    {
+      "name": "likeComment",
+      "discriminator": [
+        129,
+        249,
+        45,
+        219,
+        85,
+        221,
+        49,
+        38
+      ],
+      "accounts": [
+        {
+          "name": "liker",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "like",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  109,
+                  109,
+                  101,
+                  110,
+                  116,
+                  95,
+                  108,
+                  105,
+                  107,
+                  101
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "comment"
+              },
+              {
+                "kind": "account",
+                "path": "liker"
+              }
+            ]
+          }
+        },
+        {
+          "name": "comment",
+          "writable": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "proposeAuthorityTransfer",
+      "discriminator": [
+        57,
         206,
-        73,
+        225,
+        129,
+        35,
+        111,
+        174,
         145
       ],
       "accounts": [
         {
-          "name": "commenter",
+          "name": "user",
           "writable": true,
           "signer": true
         },
         {
-          "name": "comment",
-          "writable": true
+          "name": "profile"
         },
         {
-          "name": "post",
-          "writable": true
+          "name": "transfer",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  117,
+                  116,
+                  104,
+                  111,
+                  114,
+                  105,
+                  116,
+                  121,
+                  95,
+                  116,
+                  114,
+                  97,
+                  110,
+                  115,
+                  102,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "profile"
+              }
+            ]
+          }
         },
         {
           "name": "systemProgram",
@@ -46,63 +1058,86 @@ export type SolanaInstagram = {
       ],
       "args": [
         {
-          "name": "content",
-          "type": "string"
+          "name": "newAuthority",
+          "type": "pubkey"
         }
       ]
     },
     {
-      "name": "createPost",
+      "name": "removeBookmark",
       "discriminator": [
-        123,
-        92,
-        184,
-        29,
-        231,
-        24,
-        15,
-        202
+        160,
+        239,
+        50,
+        219,
+        158,
+        217,
+        140,
+        219
       ],
       "accounts": [
         {
-          "name": "creator",
+          "name": "user",
           "writable": true,
           "signer": true
         },
         {
-          "name": "post",
+          "name": "bookmark",
           "writable": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "removeFollower",
+      "discriminator": [
+        96,
+        69,
+        151,
+        17,
+        187,
+        238,
+        135,
+        190
+      ],
+      "accounts": [
+        {
+          "name": "user",
+          "signer": true
         },
         {
-          "name": "profile"
+          "name": "follow",
+          "writable": true
         },
         {
-          "name": "systemProgram",
-          "address": "11111111111111111111111111111111"
-        }
-      ],
-      "args": [
+          "name": "follower",
+          "writable": true,
+          "relations": [
+            "follow"
+          ]
+        },
         {
-          "name": "mediaUri",
-          "type": "string"
+          "name": "followerProfile",
+          "writable": true
         },
         {
-          "name": "content",
-          "type": "string"
+          "name": "profile",
+          "writable": true
         }
-      ]
+      ],
+      "args": []
     },
     {
-      "name": "createReaction",
+      "name": "removeReaction",
       "discriminator": [
-        130,
-        167,
-        113,
-        146,
-        55,
-        159,
-        61,
-        144
+        104,
+        53,
+        215,
+        88,
+        121,
+        195,
+        74,
+        50
       ],
       "accounts": [
         {
@@ -142,133 +1177,160 @@ export type SolanaInstagram = {
         {
           "name": "post",
           "writable": true
-        },
-        {
-          "name": "systemProgram",
-          "address": "11111111111111111111111111111111"
         }
       ],
-      "args": [
-        {
-          "name": "reactionType",
-          "type": {
-            "defined": {
-              "name": "reactionType"
-            }
-          }
-        }
-      ]
+      "args": []
     },
     {
-      "name": "deleteUserPost",
+      "name": "unfollowUserProfile",
       "discriminator": [
-        178,
-        32,
-        186,
+        42,
+        193,
+        95,
+        142,
         226,
-        33,
-        220,
-        83,
-        31
+        144,
+        42,
+        125
       ],
       "accounts": [
         {
-          "name": "creator",
+          "name": "follower",
           "writable": true,
           "signer": true
         },
         {
-          "name": "post",
+          "name": "follow",
           "writable": true
         },
         {
-          "name": "systemProgram",
-          "address": "11111111111111111111111111111111"
+          "name": "followerProfile",
+          "writable": true
+        },
+        {
+          "name": "followingProfile",
+          "writable": true
         }
       ],
       "args": []
     },
     {
-      "name": "followUserProfile",
+      "name": "unlikeComment",
       "discriminator": [
-        128,
+        132,
+        141,
+        113,
+        33,
+        31,
         153,
-        235,
-        244,
-        81,
-        20,
-        17,
-        23
+        29,
+        27
       ],
       "accounts": [
         {
-          "name": "follower",
+          "name": "liker",
           "writable": true,
           "signer": true
         },
         {
-          "name": "follow",
+          "name": "like",
           "writable": true,
           "pda": {
             "seeds": [
               {
                 "kind": "const",
                 "value": [
-                  102,
+                  99,
                   111,
+                  109,
+                  109,
+                  101,
+                  110,
+                  116,
+                  95,
                   108,
-                  108,
-                  111,
-                  119
+                  105,
+                  107,
+                  101
                 ]
               },
               {
                 "kind": "account",
-                "path": "follower"
+                "path": "comment"
               },
               {
                 "kind": "account",
-                "path": "following_profile.authority",
-                "account": "userProfile"
+                "path": "liker"
               }
             ]
           }
         },
         {
-          "name": "followerProfile",
+          "name": "comment",
           "writable": true
-        },
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "updateComment",
+      "discriminator": [
+        85,
+        114,
+        118,
+        111,
+        90,
+        37,
+        5,
+        146
+      ],
+      "accounts": [
         {
-          "name": "followingProfile",
-          "writable": true
+          "name": "commenter",
+          "signer": true
         },
         {
-          "name": "systemProgram",
-          "address": "11111111111111111111111111111111"
+          "name": "comment",
+          "writable": true
         }
       ],
-      "args": []
+      "args": [
+        {
+          "name": "content",
+          "type": "string"
+        }
+      ]
     },
     {
-      "name": "initialize",
+      "name": "updatePost",
       "discriminator": [
-        175,
-        175,
-        109,
-        31,
-        13,
-        152,
-        155,
-        237
+        151,
+        128,
+        207,
+        107,
+        169,
+        246,
+        241,
+        107
       ],
       "accounts": [
         {
-          "name": "user",
+          "name": "creator",
           "writable": true,
           "signer": true
         },
+        {
+          "name": "post",
+          "writable": true
+        },
         {
           "name": "profile",
+          "relations": [
+            "post"
+          ]
+        },
+        {
+          "name": "revision",
           "writable": true,
           "pda": {
             "seeds": [
@@ -276,17 +1338,28 @@ export type SolanaInstagram = {
                 "kind": "const",
                 "value": [
                   112,
-                  114,
                   111,
-                  102,
+                  115,
+                  116,
+                  95,
+                  114,
+                  101,
+                  118,
                   105,
-                  108,
-                  101
+                  115,
+                  105,
+                  111,
+                  110
                 ]
               },
               {
                 "kind": "account",
-                "path": "user"
+                "path": "post"
+              },
+              {
+                "kind": "account",
+                "path": "post.revision_count",
+                "account": "post"
               }
             ]
           }
@@ -298,75 +1371,72 @@ export type SolanaInstagram = {
       ],
       "args": [
         {
-          "name": "handle",
-          "type": "string"
-        },
-        {
-          "name": "bio",
-          "type": "string"
-        },
-        {
-          "name": "avatarUri",
+          "name": "content",
           "type": "string"
         }
       ]
     },
     {
-      "name": "unfollowUserProfile",
+      "name": "updateReaction",
       "discriminator": [
-        42,
-        193,
-        95,
-        142,
-        226,
-        144,
-        42,
-        125
+        127,
+        237,
+        176,
+        238,
+        248,
+        118,
+        246,
+        217
       ],
       "accounts": [
         {
-          "name": "follower",
-          "writable": true,
+          "name": "reactioner",
           "signer": true
         },
         {
-          "name": "follow",
+          "name": "reaction",
           "writable": true,
           "pda": {
             "seeds": [
               {
                 "kind": "const",
                 "value": [
-                  102,
-                  111,
-                  108,
-                  108,
+                  114,
+                  101,
+                  97,
+                  99,
+                  116,
+                  105,
                   111,
-                  119
+                  110
                 ]
               },
               {
                 "kind": "account",
-                "path": "follower"
+                "path": "post"
               },
               {
                 "kind": "account",
-                "path": "following_profile.authority",
-                "account": "userProfile"
+                "path": "reactioner"
               }
             ]
           }
         },
         {
-          "name": "followerProfile",
-          "writable": true
-        },
-        {
-          "name": "followingProfile",
+          "name": "post",
           "writable": true
         }
       ],
-      "args": []
+      "args": [
+        {
+          "name": "reactionType",
+          "type": {
+            "defined": {
+              "name": "reactionType"
+            }
+          }
+        }
+      ]
     },
     {
       "name": "updateUserProfile",
@@ -388,27 +1458,20 @@ export type SolanaInstagram = {
         },
         {
           "name": "profile",
+          "writable": true
+        },
+        {
+          "name": "oldHandleRecord",
+          "writable": true
+        },
+        {
+          "name": "newHandleRecord",
           "writable": true,
-          "pda": {
-            "seeds": [
-              {
-                "kind": "const",
-                "value": [
-                  112,
-                  114,
-                  111,
-                  102,
-                  105,
-                  108,
-                  101
-                ]
-              },
-              {
-                "kind": "account",
-                "path": "user"
-              }
-            ]
-          }
+          "optional": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
         }
       ],
       "args": [
@@ -434,6 +1497,45 @@ export type SolanaInstagram = {
     }
   ],
   "accounts": [
+    {
+      "name": "authorityRecord",
+      "discriminator": [
+        177,
+        116,
+        28,
+        129,
+        149,
+        56,
+        73,
+        128
+      ]
+    },
+    {
+      "name": "authorityTransfer",
+      "discriminator": [
+        43,
+        243,
+        199,
+        71,
+        139,
+        255,
+        231,
+        113
+      ]
+    },
+    {
+      "name": "bookmark",
+      "discriminator": [
+        19,
+        37,
+        17,
+        23,
+        221,
+        30,
+        27,
+        144
+      ]
+    },
     {
       "name": "comment",
       "discriminator": [
@@ -447,6 +1549,19 @@ export type SolanaInstagram = {
         65
       ]
     },
+    {
+      "name": "commentLike",
+      "discriminator": [
+        221,
+        8,
+        40,
+        37,
+        98,
+        193,
+        74,
+        224
+      ]
+    },
     {
       "name": "follow",
       "discriminator": [
@@ -460,6 +1575,19 @@ export type SolanaInstagram = {
         51
       ]
     },
+    {
+      "name": "handleRecord",
+      "discriminator": [
+        207,
+        77,
+        153,
+        227,
+        208,
+        212,
+        140,
+        254
+      ]
+    },
     {
       "name": "post",
       "discriminator": [
@@ -473,6 +1601,19 @@ export type SolanaInstagram = {
         150
       ]
     },
+    {
+      "name": "postRevision",
+      "discriminator": [
+        169,
+        123,
+        60,
+        134,
+        80,
+        233,
+        131,
+        167
+      ]
+    },
     {
       "name": "reaction",
       "discriminator": [
@@ -500,6 +1641,99 @@ export type SolanaInstagram = {
       ]
     }
   ],
+  "events": [
+    {
+      "name": "commentAdded",
+      "discriminator": [
+        18,
+        240,
+        225,
+        131,
+        42,
+        132,
+        33,
+        44
+      ]
+    },
+    {
+      "name": "followed",
+      "discriminator": [
+        236,
+        182,
+        255,
+        24,
+        25,
+        185,
+        209,
+        23
+      ]
+    },
+    {
+      "name": "postCreated",
+      "discriminator": [
+        209,
+        178,
+        232,
+        24,
+        158,
+        92,
+        77,
+        227
+      ]
+    },
+    {
+      "name": "postDeleted",
+      "discriminator": [
+        206,
+        216,
+        247,
+        146,
+        26,
+        233,
+        204,
+        110
+      ]
+    },
+    {
+      "name": "profileCreated",
+      "discriminator": [
+        134,
+        233,
+        199,
+        153,
+        77,
+        206,
+        128,
+        94
+      ]
+    },
+    {
+      "name": "reactionAdded",
+      "discriminator": [
+        149,
+        40,
+        209,
+        40,
+        223,
+        146,
+        198,
+        29
+      ]
+    },
+    {
+      "name": "unfollowed",
+      "discriminator": [
+        181,
+        126,
+        70,
+        2,
+        95,
+        63,
+        168,
+        239
+      ]
+    }
+  ],
   "errors": [
     {
       "code": 6000,
@@ -561,13 +1795,132 @@ export type SolanaInstagram = {
       "name": "cannotFollowSelf",
       "msg": "Cannot follow self"
     },
-    {
-      "code": 6012,
-      "name": "unauthorized",
-      "msg": "unauthorized"
-    }
-  ],
-  "types": [
+    {
+      "code": 6012,
+      "name": "unauthorized",
+      "msg": "unauthorized"
+    },
+    {
+      "code": 6013,
+      "name": "reactionUnchanged",
+      "msg": "Reaction type unchanged"
+    },
+    {
+      "code": 6014,
+      "name": "handleTaken",
+      "msg": "Handle is already taken"
+    },
+    {
+      "code": 6015,
+      "name": "missingHandleRecord",
+      "msg": "Handle record account is required to change the handle"
+    },
+    {
+      "code": 6016,
+      "name": "invalidParentComment",
+      "msg": "Parent comment does not match"
+    },
+    {
+      "code": 6017,
+      "name": "contentUnchanged",
+      "msg": "Content unchanged"
+    },
+    {
+      "code": 6018,
+      "name": "postStillExists",
+      "msg": "Post still exists"
+    },
+    {
+      "code": 6019,
+      "name": "invalidNewAuthority",
+      "msg": "New authority must be a different wallet"
+    },
+    {
+      "code": 6020,
+      "name": "authorityHasProfile",
+      "msg": "Wallet already has a profile"
+    },
+    {
+      "code": 6021,
+      "name": "commentStillExists",
+      "msg": "Comment still exists"
+    },
+    {
+      "code": 6022,
+      "name": "missingParentComment",
+      "msg": "Parent comment account is required to delete a reply"
+    },
+    {
+      "code": 6023,
+      "name": "profileTooNew",
+      "msg": "Profile can't be closed in the slot it was created in"
+    }
+  ],
+  "types": [
+    {
+      "name": "authorityRecord",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "profile",
+            "type": "pubkey"
+          },
+          {
+            "name": "authority",
+            "type": "pubkey"
+          },
+          {
+            "name": "createdAt",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "authorityTransfer",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "profile",
+            "type": "pubkey"
+          },
+          {
+            "name": "currentAuthority",
+            "type": "pubkey"
+          },
+          {
+            "name": "newAuthority",
+            "type": "pubkey"
+          },
+          {
+            "name": "createdAt",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "bookmark",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "user",
+            "type": "pubkey"
+          },
+          {
+            "name": "post",
+            "type": "pubkey"
+          },
+          {
+            "name": "createdAt",
+            "type": "u64"
+          }
+        ]
+      }
+    },
     {
       "name": "comment",
       "type": {
@@ -592,6 +1945,70 @@ export type SolanaInstagram = {
           {
             "name": "updatedAt",
             "type": "u64"
+          },
+          {
+            "name": "parent",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "replyCount",
+            "type": "u64"
+          },
+          {
+            "name": "likeCount",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "commentAdded",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "comment",
+            "type": "pubkey"
+          },
+          {
+            "name": "post",
+            "type": "pubkey"
+          },
+          {
+            "name": "commentBy",
+            "type": "pubkey"
+          },
+          {
+            "name": "parent",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "createdAt",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "commentLike",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "comment",
+            "type": "pubkey"
+          },
+          {
+            "name": "liker",
+            "type": "pubkey"
+          },
+          {
+            "name": "createdAt",
+            "type": "u64"
           }
         ]
       }
@@ -620,6 +2037,50 @@ export type SolanaInstagram = {
         ]
       }
     },
+    {
+      "name": "followed",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "follow",
+            "type": "pubkey"
+          },
+          {
+            "name": "follower",
+            "type": "pubkey"
+          },
+          {
+            "name": "followerProfile",
+            "type": "pubkey"
+          },
+          {
+            "name": "followingProfile",
+            "type": "pubkey"
+          },
+          {
+            "name": "createdAt",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "handleRecord",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "profile",
+            "type": "pubkey"
+          },
+          {
+            "name": "createdAt",
+            "type": "u64"
+          }
+        ]
+      }
+    },
     {
       "name": "post",
       "type": {
@@ -633,6 +2094,14 @@ export type SolanaInstagram = {
             "name": "creator",
             "type": "pubkey"
           },
+          {
+            "name": "createdAt",
+            "type": "u64"
+          },
+          {
+            "name": "updatedAt",
+            "type": "u64"
+          },
           {
             "name": "content",
             "type": "string"
@@ -673,12 +2142,100 @@ export type SolanaInstagram = {
             "name": "commentCount",
             "type": "u64"
           },
+          {
+            "name": "nextCommentIndex",
+            "type": "u64"
+          },
+          {
+            "name": "revisionCount",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "postCreated",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "post",
+            "type": "pubkey"
+          },
+          {
+            "name": "profile",
+            "type": "pubkey"
+          },
+          {
+            "name": "creator",
+            "type": "pubkey"
+          },
           {
             "name": "createdAt",
             "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "postDeleted",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "post",
+            "type": "pubkey"
           },
           {
-            "name": "updatedAt",
+            "name": "profile",
+            "type": "pubkey"
+          }
+        ]
+      }
+    },
+    {
+      "name": "postRevision",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "post",
+            "type": "pubkey"
+          },
+          {
+            "name": "index",
+            "type": "u64"
+          },
+          {
+            "name": "content",
+            "type": "string"
+          },
+          {
+            "name": "replacedAt",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "profileCreated",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "profile",
+            "type": "pubkey"
+          },
+          {
+            "name": "authority",
+            "type": "pubkey"
+          },
+          {
+            "name": "handle",
+            "type": "string"
+          },
+          {
+            "name": "createdAt",
             "type": "u64"
           }
         ]
@@ -716,6 +2273,34 @@ export type SolanaInstagram = {
         ]
       }
     },
+    {
+      "name": "reactionAdded",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "reaction",
+            "type": "pubkey"
+          },
+          {
+            "name": "post",
+            "type": "pubkey"
+          },
+          {
+            "name": "reactionBy",
+            "type": "pubkey"
+          },
+          {
+            "name": "reactionType",
+            "type": {
+              "defined": {
+                "name": "reactionType"
+              }
+            }
+          }
+        ]
+      }
+    },
     {
       "name": "reactionType",
       "type": {
@@ -745,6 +2330,30 @@ export type SolanaInstagram = {
         ]
       }
     },
+    {
+      "name": "unfollowed",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "follow",
+            "type": "pubkey"
+          },
+          {
+            "name": "follower",
+            "type": "pubkey"
+          },
+          {
+            "name": "followerProfile",
+            "type": "pubkey"
+          },
+          {
+            "name": "followingProfile",
+            "type": "pubkey"
+          }
+        ]
+      }
+    },
     {
       "name": "userProfile",
       "type": {
@@ -781,6 +2390,14 @@ export type SolanaInstagram = {
           {
             "name": "updatedAt",
             "type": "u64"
+          },
+          {
+            "name": "postCount",
+            "type": "u64"
+          },
+          {
+            "name": "createdSlot",
+            "type": "u64"
           }
         ]
       }
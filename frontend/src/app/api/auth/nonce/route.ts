@@ -0,0 +1,8 @@
+import { issueNonce } from "@/lib/upload-auth";
+
+// Nonces must never be cached
+export const dynamic = "force-dynamic";
+
+export function GET() {
+  return Response.json(issueNonce());
+}
@@ -0,0 +1,23 @@
+import { decodeCursor } from "@/lib/solagram";
+import { IndexQueryError, withIndex } from "@/lib/indexer/api";
+
+// Reads the live index on every request
+export const dynamic = "force-dynamic";
+
+// GET /api/feed?program=<id>&cursor=<createdAt>.<address>&limit=<n>
+export function GET(req: Request) {
+  return withIndex(req, (store, params) => {
+    const rawCursor = params.get("cursor");
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    if (rawCursor && !cursor) {
+      throw new IndexQueryError("Invalid cursor");
+    }
+
+    const limit = Number(params.get("limit") ?? 10);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new IndexQueryError("Invalid limit");
+    }
+
+    return Response.json(store.feedPage(cursor, limit));
+  });
+}
@@ -0,0 +1,18 @@
+import { parsePublicKey } from "@/lib/solagram";
+import { IndexQueryError, withIndex } from "@/lib/indexer/api";
+
+// Reads the live index on every request
+export const dynamic = "force-dynamic";
+
+// GET /api/posts/<post address>/comments?program=<id>
+export async function GET(req: Request, { params }: { params: Promise<{ pda: string }> }) {
+  const { pda } = await params;
+
+  return withIndex(req, (store) => {
+    const post = parsePublicKey(pda);
+    if (!post) {
+      throw new IndexQueryError("Invalid post address");
+    }
+    return Response.json({ comments: store.comments(post.toBase58()) });
+  });
+}
@@ -0,0 +1,11 @@
+import { withIndex } from "@/lib/indexer/api";
+
+// Reads the live index on every request
+export const dynamic = "force-dynamic";
+
+// GET /api/profiles?program=<id>&q=<handle prefix>
+export function GET(req: Request) {
+  return withIndex(req, (store, params) => (
+    Response.json({ profiles: store.profiles(params.get("q") ?? undefined) })
+  ));
+}
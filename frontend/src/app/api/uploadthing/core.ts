@@ -1,9 +1,84 @@
 import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { UploadThingError } from "uploadthing/server";
+import { Connection } from "@solana/web3.js";
+import { DEFAULT_CLUSTER, isClusterName, namedCluster, SolagramClient } from "@/lib/solagram";
+import { UploadAuthError, verifyUploadRequest } from "@/lib/upload-auth";
+import { QuotaExceeded, quotaLimitsFromEnv, QuotaReservation, quotaStoreFromEnv, SETUP_LIMITS, UploadQuota } from "@/lib/upload-quota";
 
-const f = createUploadthing();
+// Quota refusals carry a `quota` payload so the browser can show when uploads reopen
+const f = createUploadthing({
+  errorFormatter: (err) => ({
+    message: err.message,
+    quota: (err.data as { quota?: QuotaExceeded } | undefined)?.quota ?? null,
+  }),
+});
 
-const auth = (req: Request) => ({ id: "fakeId" }); 
+// Both quotas share one store; setup usage is kept under its own `setup:` keys,
+// so a reservation can be confirmed through either
+const quotaStore = quotaStoreFromEnv();
+const quota = new UploadQuota(quotaStore, quotaLimitsFromEnv());
+const setupQuota = new UploadQuota(quotaStore, quotaLimitsFromEnv("UPLOAD_SETUP_QUOTA", SETUP_LIMITS));
+
+// Uploaders' profiles are looked up on the one cluster this server is configured
+// for, never on one named by the request:
+//
+//   SOLAGRAM_UPLOAD_CLUSTER  localnet, devnet (default) or mainnet-beta; picks the program ID and RPC
+//   SOLAGRAM_UPLOAD_RPC      overrides the cluster's RPC endpoint
+let client: SolagramClient | null = null;
+
+const uploadClient = (): SolagramClient => {
+  if (!client) {
+    const name = process.env.SOLAGRAM_UPLOAD_CLUSTER || DEFAULT_CLUSTER;
+    if (!isClusterName(name)) {
+      throw new Error(`Unknown SOLAGRAM_UPLOAD_CLUSTER: ${name}`);
+    }
+    const cluster = namedCluster(name);
+    const endpoint = process.env.SOLAGRAM_UPLOAD_RPC || cluster.endpoint;
+    client = SolagramClient.readOnly(new Connection(endpoint, "confirmed"), cluster.programId);
+  }
+  return client;
+};
+
+// Only wallets that signed a sign-in message may upload. Everything except the
+// avatar picked while creating a profile also requires an existing profile;
+// `hasProfile` tells the avatar route which quota to charge.
+const auth = async (req: Request, { requireProfile }: { requireProfile: boolean }) => {
+  let wallet;
+  try {
+    wallet = verifyUploadRequest(req);
+  } catch (err) {
+    if (err instanceof UploadAuthError) {
+      throw new UploadThingError({ code: "FORBIDDEN", message: err.message });
+    }
+    throw err;
+  }
+
+  const hasProfile = !!(await uploadClient().fetchProfile(wallet));
+  if (requireProfile && !hasProfile) {
+    throw new UploadThingError({ code: "FORBIDDEN", message: "Create a Solagram profile before uploading" });
+  }
+
+  return { wallet: wallet.toBase58(), hasProfile };
+};
+
+// Reserves the upload against the wallet's quota; it only counts for good once
+// `onUploadComplete` confirms it, so failed or cancelled uploads are not charged
+const reserveQuota = async (
+  wallet: string,
+  files: readonly { size: number }[],
+  limits = quota
+): Promise<QuotaReservation> => {
+  const bytes = files.reduce((sum, file) => sum + file.size, 0);
+  const { reservation, exceeded } = await limits.reserve(wallet, bytes);
+  if (exceeded) {
+    throw new UploadThingError({
+      code: "FORBIDDEN",
+      message: "Upload limit reached",
+      data: { quota: exceeded },
+    });
+  }
+  return reservation;
+};
 
 export const ourFileRouter = {
   imageUploader: f({
@@ -12,15 +87,35 @@ export const ourFileRouter = {
       maxFileCount: 1,
     },
   })
-    .middleware(async ({ req }) => {
-      const user = await auth(req);
+    .middleware(async ({ req, files }) => {
+      const user = await auth(req, { requireProfile: true });
+      const reservation = await reserveQuota(user.wallet, files);
+
+      return { wallet: user.wallet, reservation };
+    })
+    .onUploadComplete(async ({ metadata }) => {
+      await quota.confirm(metadata.reservation);
+      return { uploadedBy: metadata.wallet };
+    }),
 
-      if (!user) throw new UploadThingError("Unauthorized");
+  avatarUploader: f({
+    image: {
+      maxFileSize: "1MB",
+      maxFileCount: 1,
+    },
+  })
+    .middleware(async ({ req, files }) => {
+      const user = await auth(req, { requireProfile: false });
+      // Before the profile exists the avatar counts against the much smaller setup quota
+      const reservation = user.hasProfile
+        ? await reserveQuota(user.wallet, files)
+        : await reserveQuota(`setup:${user.wallet}`, files, setupQuota);
 
-      return { userId: user.id };
+      return { wallet: user.wallet, reservation };
     })
     .onUploadComplete(async ({ metadata }) => {
-      return { uploadedBy: metadata.userId };
+      await quota.confirm(metadata.reservation);
+      return { uploadedBy: metadata.wallet };
     }),
 } satisfies FileRouter;
 
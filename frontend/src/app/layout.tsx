@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/provider/ThemeProvider";
 import WalletProvider from "@/components/provider/WalletProvider";
+import { ClusterProvider } from "@/components/provider/ClusterProvider";
 import { Navbar } from "@/components/Navbar";
 import { Toaster } from "@/components/ui/sonner"
 import { Layout } from "@/components/Layout";
@@ -38,13 +39,15 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <WalletProvider>
-            <Navbar />
-            <Layout>
-              {children}
-            </Layout>
-            <Toaster richColors />
-          </WalletProvider>
+          <ClusterProvider>
+            <WalletProvider>
+              <Navbar />
+              <Layout>
+                {children}
+              </Layout>
+              <Toaster richColors />
+            </WalletProvider>
+          </ClusterProvider>
         </ThemeProvider>
       </body>
     </html>
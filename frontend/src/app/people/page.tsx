@@ -5,21 +5,22 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { useConnection, useAnchorWallet } from "@solana/wallet-adapter-react";
+import { useConnection } from "@solana/wallet-adapter-react";
 import { useState } from "react";
+import Link from "next/link";
 import { toast } from "sonner";
 import { PublicKey, SystemProgram } from "@solana/web3.js";
+import { useRequireWallet } from "@/components/hooks/useRequireWallet";
 
 
 export default function PeoplePage() {
   const { connection } = useConnection();
-  const wallet = useAnchorWallet();
   const { profiles, isLoading, error, followUser, unfollowUser } = useProfiles();
   const [loadingStates, setLoadingStates] = useState<Record<string, boolean>>({});
+  const requireWallet = useRequireWallet();
 
   const handleFollow = async (profileAuthority: string, isCurrentlyFollowing: boolean) => {
-    if (!wallet) {
-      toast.error("Please connect your wallet first");
+    if (!requireWallet()) {
       return;
     }
 
@@ -43,21 +44,6 @@ export default function PeoplePage() {
     }
   };
 
-  if (!wallet) {
-    return (
-      <div className="min-h-screen pt-20">
-        <div className="max-w-4xl mx-auto p-6">
-          <h1 className="text-3xl font-bold mb-6">People</h1>
-          <div className="text-center py-12">
-            <p className="text-muted-foreground text-lg">
-              Please connect your wallet to discover and connect with other users.
-            </p>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen pt-20">
       <div className="max-w-4xl mx-auto p-6">
@@ -98,7 +84,11 @@ export default function PeoplePage() {
                       </AvatarFallback>
                     </Avatar>
                     <div className="flex-1 min-w-0">
-                      <h3 className="font-semibold text-lg truncate">@{profile.handle}</h3>
+                      <h3 className="font-semibold text-lg truncate">
+                        <Link href={`/u/${profile.authority.toBase58()}`} className="hover:underline">
+                          @{profile.handle}
+                        </Link>
+                      </h3>
                       <div className="flex space-x-2 mt-1">
                         <Badge variant="secondary" className="text-xs">
                           {profile.followerCount} followers
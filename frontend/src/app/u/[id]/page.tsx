@@ -0,0 +1,6 @@
+import { PublicProfile } from "@/components/PublicProfile";
+
+export default async function UserPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return <PublicProfile id={decodeURIComponent(id)} />;
+}
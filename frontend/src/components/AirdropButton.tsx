@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { Droplets } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useCluster } from "@/components/provider/ClusterProvider";
+
+const AIRDROP_SOL = 2;
+
+// Funds the connected wallet from the local validator's faucet. Only shown on
+// localnet, where a fresh burner wallet has nothing to pay rent and fees with.
+export function AirdropButton() {
+  const { connection } = useConnection();
+  const { publicKey } = useWallet();
+  const { cluster } = useCluster();
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  if (cluster.name !== "localnet" || !publicKey) {
+    return null;
+  }
+
+  const handleAirdrop = async () => {
+    setIsRequesting(true);
+    try {
+      const signature = await connection.requestAirdrop(publicKey, AIRDROP_SOL * LAMPORTS_PER_SOL);
+      const latestBlockhash = await connection.getLatestBlockhash();
+      await connection.confirmTransaction({ signature, ...latestBlockhash }, "confirmed");
+      toast.success(`Airdropped ${AIRDROP_SOL} SOL`);
+    } catch (error: any) {
+      console.error("Airdrop failed:", error);
+      toast.error(`Airdrop failed: ${error.message}`);
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" className="gap-2" onClick={handleAirdrop} disabled={isRequesting}>
+      <Droplets className="h-4 w-4" />
+      <span className="hidden sm:inline">{isRequesting ? "Airdropping..." : "Airdrop"}</span>
+    </Button>
+  );
+}
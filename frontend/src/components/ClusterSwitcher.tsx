@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { Network } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useCluster } from "@/components/provider/ClusterProvider";
+import { CLUSTER_NAMES, ClusterConfig, customCluster, isClusterName, namedCluster } from "@/lib/solagram";
+
+const CLUSTER_LABELS: Record<ClusterConfig["name"], string> = {
+  localnet: "Localnet",
+  devnet: "Devnet",
+  "mainnet-beta": "Mainnet Beta",
+  custom: "Custom RPC",
+};
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// Navbar menu for the cluster the app reads from and writes to
+export function ClusterSwitcher() {
+  const { cluster, setCluster } = useCluster();
+  const [isCustomOpen, setIsCustomOpen] = useState(false);
+  const [endpoint, setEndpoint] = useState("");
+  const [programId, setProgramId] = useState("");
+
+  const openCustom = () => {
+    setEndpoint(cluster.name === "custom" ? cluster.endpoint : "");
+    setProgramId(cluster.programId.toBase58());
+    setIsCustomOpen(true);
+  };
+
+  // "Custom RPC" opens the dialog from its own `onSelect`, so it also works when already selected
+  const handleSelect = (value: string) => {
+    if (isClusterName(value) && value !== cluster.name) {
+      setCluster(namedCluster(value));
+    }
+  };
+
+  const handleSaveCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedEndpoint = endpoint.trim();
+    if (!isHttpUrl(trimmedEndpoint)) {
+      toast.error("Enter an http(s) RPC endpoint");
+      return;
+    }
+
+    let customProgramId: PublicKey;
+    try {
+      customProgramId = new PublicKey(programId.trim());
+    } catch {
+      toast.error("Enter a valid program ID");
+      return;
+    }
+
+    setCluster(customCluster(trimmedEndpoint, customProgramId));
+    setIsCustomOpen(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-2">
+            <Network className="h-4 w-4" />
+            <span className="hidden sm:inline">{CLUSTER_LABELS[cluster.name]}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Cluster</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup value={cluster.name} onValueChange={handleSelect}>
+            {CLUSTER_NAMES.map((name) => (
+              <DropdownMenuRadioItem key={name} value={name}>
+                {CLUSTER_LABELS[name]}
+              </DropdownMenuRadioItem>
+            ))}
+            <DropdownMenuRadioItem value="custom" onSelect={openCustom}>
+              {CLUSTER_LABELS.custom}…
+            </DropdownMenuRadioItem>
+          </DropdownMenuRadioGroup>
+          {cluster.name === "custom" && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground truncate">{cluster.endpoint}</p>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCustomOpen} onOpenChange={setIsCustomOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Custom RPC</DialogTitle>
+            <DialogDescription>
+              Point the app at any RPC endpoint, such as a local <code>solana-test-validator</code>, and the program ID deployed there.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveCustom}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="rpc-endpoint">RPC endpoint</Label>
+                <Input
+                  id="rpc-endpoint"
+                  placeholder="http://127.0.0.1:8899"
+                  value={endpoint}
+                  onChange={(e) => setEndpoint(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="program-id">Program ID</Label>
+                <Input
+                  id="program-id"
+                  value={programId}
+                  onChange={(e) => setProgramId(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!endpoint.trim() || !programId.trim()}>
+                Connect
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
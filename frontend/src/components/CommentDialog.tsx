@@ -5,26 +5,53 @@ import { useConnection, useAnchorWallet } from "@solana/wallet-adapter-react";
 import { PublicKey } from "@solana/web3.js";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
-import { useComments } from "./hooks/useComments";
+import { Comment, CommentNode, CommentSort, useComments } from "./hooks/useComments";
+import { useRequireWallet } from "./hooks/useRequireWallet";
 import { useUserProfile } from "./hooks/useUserProfile";
 import { toast } from "sonner";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
-import { Send, User } from "lucide-react";
+import { Check, Heart, Pencil, Send, Trash2, User, X } from "lucide-react";
+
+// Replies deeper than this line up with their parent instead of indenting further
+const MAX_INDENT_DEPTH = 3;
 
 interface CommentDialogProps {
   isOpen: boolean;
   onClose: () => void;
   postPda: PublicKey;
-  postCreator: PublicKey;
+  // The post's profile, whose current authority may delete any comment
+  postProfile: PublicKey;
 }
 
-export default function CommentDialog({ isOpen, onClose, postPda, postCreator }: CommentDialogProps) {
+export default function CommentDialog({ isOpen, onClose, postPda, postProfile }: CommentDialogProps) {
   const { connection } = useConnection();
   const wallet = useAnchorWallet();
-  const { comments, isLoading, error, addComment, fetchCommentsForPost } = useComments();
+  const [sortBy, setSortBy] = useState<CommentSort>("oldest");
+  const {
+    comments,
+    threads,
+    likedComments,
+    likingComments,
+    isLoading,
+    error,
+    addComment,
+    addReply,
+    updateComment,
+    deleteComment,
+    toggleLike,
+    fetchCommentsForPost,
+  } = useComments({ sortBy });
   const { profile } = useUserProfile();
+  const requireWallet = useRequireWallet();
   const [newComment, setNewComment] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [replyingKey, setReplyingKey] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  // Comments whose replies are shown; threads start collapsed
+  const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     if (isOpen && postPda) {
@@ -62,6 +89,128 @@ export default function CommentDialog({ isOpen, onClose, postPda, postCreator }:
     }
   };
 
+  const startEditing = (comment: Comment) => {
+    setReplyingKey(null);
+    setEditingKey(comment.publicKey.toString());
+    setEditText(comment.content);
+  };
+
+  const handleUpdateComment = async (comment: Comment) => {
+    const content = editText.trim();
+    if (!content) {
+      toast.error("Please enter a comment");
+      return;
+    }
+    if (content === comment.content) {
+      setEditingKey(null);
+      return;
+    }
+
+    setBusyKey(comment.publicKey.toString());
+
+    try {
+      const result = await updateComment(comment, content);
+
+      if (result.success) {
+        setEditingKey(null);
+        toast.success("Comment updated");
+      } else {
+        toast.error(result.error || "Failed to update comment");
+      }
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      toast.error("An error occurred while updating comment");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDeleteComment = async (comment: Comment) => {
+    setBusyKey(comment.publicKey.toString());
+
+    try {
+      const result = await deleteComment(comment);
+
+      if (result.success) {
+        toast.success("Comment deleted");
+      } else {
+        toast.error(result.error || "Failed to delete comment");
+      }
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      toast.error("An error occurred while deleting comment");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const startReplying = (comment: Comment) => {
+    if (!requireWallet()) {
+      return;
+    }
+    setEditingKey(null);
+    setReplyingKey(comment.publicKey.toString());
+    setReplyText("");
+  };
+
+  const handleAddReply = async (parent: Comment) => {
+    const content = replyText.trim();
+    if (!content) {
+      toast.error("Please enter a reply");
+      return;
+    }
+
+    const key = parent.publicKey.toString();
+    setBusyKey(key);
+
+    try {
+      const result = await addReply(parent, content);
+
+      if (result.success) {
+        setReplyingKey(null);
+        setReplyText("");
+        // Show the new reply under its parent
+        setExpandedKeys(prev => new Set(prev).add(key));
+        toast.success("Reply added");
+      } else {
+        toast.error(result.error || "Failed to add reply");
+      }
+    } catch (error) {
+      console.error("Error adding reply:", error);
+      toast.error("An error occurred while adding reply");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleToggleLike = async (comment: Comment) => {
+    if (!requireWallet()) {
+      return;
+    }
+
+    try {
+      const result = await toggleLike(comment);
+      if (!result.success) {
+        toast.error(result.error || "Failed to update like");
+      }
+    } catch (error) {
+      console.error("Error liking comment:", error);
+      toast.error("An error occurred while liking comment");
+    }
+  };
+
+  const toggleReplies = (key: string) => {
+    setExpandedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
   const formatTimeAgo = (timestamp: number) => {
     const now = Date.now();
     const commentTime = timestamp * 1000;
@@ -73,11 +222,153 @@ export default function CommentDialog({ isOpen, onClose, postPda, postCreator }:
     return `${Math.floor(diffInSeconds / 86400)}d`;
   };
 
+  // One comment and, when expanded, its replies; nesting stops indenting past a few levels
+  const renderComment = (comment: CommentNode, depth: number): React.ReactNode => {
+    const key = comment.publicKey.toString();
+    const isAuthor = !!wallet && comment.commentBy.equals(wallet.publicKey);
+    const canDelete = isAuthor || (!!profile && profile.publicKey.equals(postProfile));
+    const isBusy = busyKey === key;
+    const isExpanded = expandedKeys.has(key);
+    const isLiked = likedComments.has(key);
+
+    return (
+      <div key={key} className={depth > 0 && depth <= MAX_INDENT_DEPTH ? "ml-8" : undefined}>
+        <div className="flex space-x-3 p-3 border rounded-lg group">
+          <div className="w-8 h-8 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center flex-shrink-0">
+            <User className="w-4 h-4 text-white" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center space-x-2 mb-1">
+              <span className="font-semibold text-sm">
+                User {comment.commentBy.toString().slice(0, 8)}...
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatTimeAgo(comment.createdAt)}
+              </span>
+              {comment.updatedAt > comment.createdAt && (
+                <span className="text-xs text-muted-foreground">(edited)</span>
+              )}
+            </div>
+            {editingKey === key ? (
+              <div className="flex space-x-2">
+                <Input
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleUpdateComment(comment);
+                    } else if (e.key === "Escape") {
+                      e.preventDefault();
+                      setEditingKey(null);
+                    }
+                  }}
+                  disabled={isBusy}
+                  className="flex-1"
+                />
+                <Button size="icon" variant="ghost" onClick={() => handleUpdateComment(comment)} disabled={isBusy || !editText.trim()}>
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => setEditingKey(null)} disabled={isBusy}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm break-words">
+                {comment.content}
+              </p>
+            )}
+            <div className="flex items-center space-x-3 mt-1 text-xs text-muted-foreground">
+              <button
+                className={`flex items-center space-x-1 ${isLiked ? "text-red-500" : "hover:text-foreground"}`}
+                onClick={() => handleToggleLike(comment)}
+                disabled={likingComments.has(key)}
+                aria-label={isLiked ? "Unlike comment" : "Like comment"}
+              >
+                <Heart className={`h-3.5 w-3.5 ${isLiked ? "fill-current" : ""}`} />
+                {comment.likeCount > 0 && <span>{comment.likeCount}</span>}
+              </button>
+              <button className="hover:text-foreground" onClick={() => startReplying(comment)} disabled={isBusy}>
+                Reply
+              </button>
+              {comment.replies.length > 0 && (
+                <button className="hover:text-foreground" onClick={() => toggleReplies(key)}>
+                  {isExpanded
+                    ? "Hide replies"
+                    : `View ${comment.replies.length} ${comment.replies.length === 1 ? "reply" : "replies"}`}
+                </button>
+              )}
+            </div>
+            {replyingKey === key && (
+              <div className="flex space-x-2 mt-2">
+                <Input
+                  autoFocus
+                  placeholder="Write a reply..."
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleAddReply(comment);
+                    } else if (e.key === "Escape") {
+                      e.preventDefault();
+                      setReplyingKey(null);
+                    }
+                  }}
+                  disabled={isBusy}
+                  className="flex-1"
+                />
+                <Button size="icon" variant="ghost" onClick={() => handleAddReply(comment)} disabled={isBusy || !replyText.trim()}>
+                  <Send className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => setReplyingKey(null)} disabled={isBusy}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+          {editingKey !== key && canDelete && (
+            <div className="flex items-start space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {isAuthor && (
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEditing(comment)} disabled={isBusy}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              {canDelete && (
+                <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDeleteComment(comment)} disabled={isBusy}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+        {isExpanded && comment.replies.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {comment.replies.map((reply) => renderComment(reply, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[80vh] flex flex-col">
-        <DialogHeader>
+        <DialogHeader className="flex flex-row items-center justify-between space-y-0 pr-8">
           <DialogTitle>Comments</DialogTitle>
+          {comments.length > 1 && (
+            <div className="flex space-x-1 text-xs">
+              {([["oldest", "Oldest"], ["likes", "Most liked"]] as const).map(([sort, label]) => (
+                <button
+                  key={sort}
+                  className={`px-2 py-1 rounded ${sortBy === sort ? "bg-muted font-semibold" : "text-muted-foreground hover:text-foreground"}`}
+                  onClick={() => setSortBy(sort)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
         </DialogHeader>
         
         <div className="flex-1 overflow-y-auto space-y-4">
@@ -94,26 +385,7 @@ export default function CommentDialog({ isOpen, onClose, postPda, postCreator }:
               <p>No comments yet. Be the first to comment!</p>
             </div>
           ) : (
-            comments.map((comment, index) => (
-              <div key={index} className="flex space-x-3 p-3 border rounded-lg">
-                <div className="w-8 h-8 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center flex-shrink-0">
-                  <User className="w-4 h-4 text-white" />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center space-x-2 mb-1">
-                    <span className="font-semibold text-sm">
-                      User {comment.commentBy.toString().slice(0, 8)}...
-                    </span>
-                    <span className="text-xs text-muted-foreground">
-                      {formatTimeAgo(comment.createdAt)}
-                    </span>
-                  </div>
-                  <p className="text-sm break-words">
-                    {comment.content}
-                  </p>
-                </div>
-              </div>
-            ))
+            threads.map((comment) => renderComment(comment, 0))
           )}
         </div>
 
@@ -147,9 +419,11 @@ export default function CommentDialog({ isOpen, onClose, postPda, postCreator }:
               </Button>
             </div>
           ) : (
-            <p className="text-center text-muted-foreground py-4">
-              Please connect your wallet to add comments
-            </p>
+            <div className="text-center py-2">
+              <Button variant="outline" onClick={requireWallet}>
+                Connect your wallet to add comments
+              </Button>
+            </div>
           )}
         </div>
       </DialogContent>
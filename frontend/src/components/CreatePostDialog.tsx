@@ -14,16 +14,18 @@ import {
     DialogTitle,
     DialogTrigger,
 } from "@/components/ui/dialog";
-import { UploadButton } from "@/utils/uploadthing";
+import { UploadButton, uploadErrorMessage } from "@/utils/uploadthing";
+import { useUploadAuth } from "@/components/hooks/useUploadAuth";
 import { toast } from "sonner";
 import { usePost, Post } from "./hooks/usePost";
 
-export function CreatePostDialog({ refetchAllPosts }: { refetchAllPosts: () => Promise<void> }) {
+export function CreatePostDialog() {
     const [caption, setCaption] = useState("");
     const [imageUri, setImageUri] = useState("");
     const [isOpen, setIsOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [isUploading, setIsUploading] = useState(false);
+    const uploadHeaders = useUploadAuth();
 
     const { createPost } = usePost();
 
@@ -54,9 +56,6 @@ export function CreatePostDialog({ refetchAllPosts }: { refetchAllPosts: () => P
             setIsOpen(false);
             setCaption("");
             setImageUri("");
-
-            await refetchAllPosts();
-
         } catch (error: any) {
             toast.error(`Failed to create post: ${error.message}`);
         } finally {
@@ -112,9 +111,10 @@ export function CreatePostDialog({ refetchAllPosts }: { refetchAllPosts: () => P
                                 )}
                                 <UploadButton
                                     endpoint="imageUploader"
+                                    headers={uploadHeaders}
                                     onClientUploadComplete={handleImageUpload}
-                                    onUploadError={(error: Error) => {
-                                        toast.error(`Upload failed: ${error.message}`);
+                                    onUploadError={(error) => {
+                                        toast.error(uploadErrorMessage(error));
                                         setIsUploading(false);
                                     }}
                                     onUploadBegin={() => setIsUploading(true)}
@@ -1,55 +1,44 @@
 "use client";
 
 import React, { useState, useMemo } from "react";
-import { useConnection, useAnchorWallet } from "@solana/wallet-adapter-react";
-import { PublicKey, SystemProgram } from "@solana/web3.js";
-import { Program, AnchorProvider, setProvider } from "@coral-xyz/anchor";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
 import { Button } from "@/components/ui/button";
-import idl from "@/anchor-idl/idl.json";
-import { SolanaInstagram } from "@/anchor-idl/idl";
 import { toast } from "sonner"
 import { useUserProfile } from "@/components/hooks/useUserProfile";
-import { UploadButton } from "@/utils/uploadthing";
-
-export function CreateProfile() {
-  const { connection } = useConnection();
+import { useSolagramClient } from "@/components/hooks/useSolagramClient";
+import { useHandleAvailability } from "@/components/hooks/useHandleAvailability";
+import { HandleAvailabilityHint } from "@/components/HandleAvailabilityHint";
+import { UploadButton, uploadErrorMessage } from "@/utils/uploadthing";
+import { useUploadAuth } from "@/components/hooks/useUploadAuth";
+import { getErrorMessage } from "@/lib/errors";
+import { IncomingTransfers } from "@/components/IncomingTransfers";
+
+interface CreateProfileProps {
+  // Called once the wallet has a profile, created here or taken over
+  onCreated?: () => void;
+}
+
+export function CreateProfile({ onCreated }: CreateProfileProps = {}) {
   const wallet = useAnchorWallet();
+  const client = useSolagramClient();
   const { refetch } = useUserProfile();
 
   const [handle, setHandle] = useState("");
   const [bio, setBio] = useState("");
   const [avatarUri, setAvatarUri] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-
-  // Program ID from your Anchor.toml
-  const PROGRAM_ID = new PublicKey("o7WMnMvBfhf21mXMeoi2yAdmfiCsEaKGZE3DHT1E1qF");
-
-  // Create Anchor provider
-  const provider = useMemo(() => {
-    if (!wallet) return null;
-    return new AnchorProvider(connection, wallet, {
-      commitment: "confirmed",
-      preflightCommitment: "confirmed",
-    });
-  }, [connection, wallet]);
-
-  setProvider(provider!);
-
-  // Create program instance
-  const program = useMemo(() => {
-    if (!provider) return null;
-    return new Program(idl as SolanaInstagram, provider);
-  }, [provider]);
+  const uploadHeaders = useUploadAuth();
+  const handleStatus = useHandleAvailability(handle);
 
   // Derive PDA for profile
   const profilePda = useMemo(() => {
-    if (!wallet) return null;
-    return PublicKey.findProgramAddressSync([Buffer.from("profile"), wallet.publicKey.toBuffer()], PROGRAM_ID)[0];
-  }, [wallet]);
+    if (!client || !wallet) return null;
+    return client.profilePda(wallet.publicKey);
+  }, [client, wallet]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!wallet || !program || !profilePda) {
+    if (!wallet || !client || !profilePda) {
       toast.error("Wallet not connected or program not ready");
       return;
     }
@@ -69,22 +58,20 @@ export function CreateProfile() {
       }
 
       // Create the transaction
-      await program.methods
-        .initialize(handle, bio, avatarUri)
-        .accounts({
-          user: wallet.publicKey,
-        })
-        .rpc()
+      await client.initializeProfile({ handle, bio, avatarUri });
 
       setHandle("");
       setBio("");
       setAvatarUri("");
       refetch();
+      onCreated?.();
 
       toast.success("Profile created successfully");
     } catch (err: any) {
       if (err.message.includes("Error processing Instruction 2")) {
         toast.error("Profile already exists");
+      } else if (err.error?.errorCode?.code) {
+        toast.error(getErrorMessage(err.error.errorCode.code));
       } else {
         toast.error("Failed to create profile");
       }
@@ -102,80 +89,85 @@ export function CreateProfile() {
   }
 
   return (
-    <div className="max-w-md mx-auto p-6 bg-card rounded-lg border">
-      <h2 className="text-2xl font-bold mb-6 text-center">Create Your Profile</h2>
-
-
-      <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <label htmlFor="handle" className="block text-sm font-medium mb-2">
-            Handle
-          </label>
-          <input
-            id="handle"
-            type="text"
-            value={handle}
-            onChange={(e) => setHandle(e.target.value)}
-            className="w-full p-2 border rounded bg-background"
-            placeholder="Enter your handle (1-24 chars)"
-            maxLength={24}
-            required
-          />
-          <p className="text-xs text-muted-foreground mt-1">
-            {handle.length}/24 characters
-          </p>
-        </div>
-
-        <div>
-          <label htmlFor="bio" className="block text-sm font-medium mb-2">
-            Bio
-          </label>
-          <textarea
-            id="bio"
-            value={bio}
-            onChange={(e) => setBio(e.target.value)}
-            className="w-full p-2 border rounded bg-background"
-            placeholder="Tell us about yourself (1-160 chars)"
-            maxLength={160}
-            rows={3}
-            required
-          />
-          <p className="text-xs text-muted-foreground mt-1">
-            {bio.length}/160 characters
-          </p>
-        </div>
-
-        <div>
-          <label htmlFor="avatarUri" className="block text-sm font-medium mb-2">
-            Upload Your Avatar
-          </label>
-          <UploadButton
-            endpoint="imageUploader"
-            onClientUploadComplete={(res) => {
-              setAvatarUri(res[0].ufsUrl);
-              toast.success("Upload Completed");
-            }}
-            onUploadError={(error: Error) => {
-              toast.error(`ERROR! ${error.message}`);
-            }}
-          />
-        </div>
-
-        <Button
-          type="submit"
-          disabled={isLoading}
-          className="w-full"
-        >
-          {isLoading ? "Creating Profile..." : "Create Profile"}
-        </Button>
-      </form>
-
-      {profilePda && (
-        <div className="mt-4 p-3 bg-muted rounded text-xs">
-          <p><strong>Profile PDA:</strong></p>
-          <p className="break-all">{profilePda.toBase58()}</p>
-        </div>
-      )}
-    </div>
+    <>
+      <IncomingTransfers onAccepted={() => onCreated?.()} />
+      <div className="max-w-md mx-auto p-6 bg-card rounded-lg border">
+        <h2 className="text-2xl font-bold mb-6 text-center">Create Your Profile</h2>
+
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="handle" className="block text-sm font-medium mb-2">
+              Handle
+            </label>
+            <input
+              id="handle"
+              type="text"
+              value={handle}
+              onChange={(e) => setHandle(e.target.value)}
+              className="w-full p-2 border rounded bg-background"
+              placeholder="Enter your handle (1-24 chars)"
+              maxLength={24}
+              required
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              {handle.length}/24 characters
+            </p>
+            <HandleAvailabilityHint status={handleStatus} />
+          </div>
+
+          <div>
+            <label htmlFor="bio" className="block text-sm font-medium mb-2">
+              Bio
+            </label>
+            <textarea
+              id="bio"
+              value={bio}
+              onChange={(e) => setBio(e.target.value)}
+              className="w-full p-2 border rounded bg-background"
+              placeholder="Tell us about yourself (1-160 chars)"
+              maxLength={160}
+              rows={3}
+              required
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              {bio.length}/160 characters
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="avatarUri" className="block text-sm font-medium mb-2">
+              Upload Your Avatar
+            </label>
+            <UploadButton
+              endpoint="avatarUploader"
+              headers={uploadHeaders}
+              onClientUploadComplete={(res) => {
+                setAvatarUri(res[0].ufsUrl);
+                toast.success("Upload Completed");
+              }}
+              onUploadError={(error) => {
+                toast.error(uploadErrorMessage(error));
+              }}
+            />
+          </div>
+
+          <Button
+            type="submit"
+            disabled={isLoading || handleStatus === "taken"}
+            className="w-full"
+          >
+            {isLoading ? "Creating Profile..." : "Create Profile"}
+          </Button>
+        </form>
+
+        {profilePda && (
+          <div className="mt-4 p-3 bg-muted rounded text-xs">
+            <p><strong>Profile PDA:</strong></p>
+            <p className="break-all">{profilePda.toBase58()}</p>
+          </div>
+        )}
+      </div>
+    </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Check, X, SkipForward } from "lucide-react";
+import { AccountWipeStage } from "@/lib/solagram";
+import { UserProfile } from "@/components/hooks/useUserProfile";
+import { useAccountWipe } from "@/components/hooks/useAccountWipe";
+
+const STAGE_LABELS: Record<AccountWipeStage, string> = {
+    commentLikes: "comment likes",
+    bookmarks: "bookmarks",
+    reactions: "reactions",
+    comments: "comments",
+    following: "follows",
+    followers: "followers",
+    posts: "posts",
+    profile: "profile",
+};
+
+interface DeleteAccountDialogProps {
+    profile: UserProfile;
+    onDeleted: () => void;
+}
+
+export function DeleteAccountDialog({ profile, onDeleted }: DeleteAccountDialogProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [confirmation, setConfirmation] = useState("");
+    const { log, isRunning, isFinished, canResume, wipe } = useAccountWipe();
+
+    const handleWipe = async () => {
+        const result = await wipe();
+        if (!result.success) {
+            toast.error(`Deletion stopped: ${result.error}. You can resume it.`);
+            return;
+        }
+
+        toast.success("Your account was deleted");
+        setIsOpen(false);
+        onDeleted();
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !isRunning && setIsOpen(open)}>
+            <DialogTrigger asChild>
+                <Button type="button" variant="destructive" size="sm">
+                    {canResume ? "Resume account deletion" : "Delete my account"}
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[480px]">
+                <DialogHeader>
+                    <DialogTitle>Delete my account</DialogTitle>
+                    <DialogDescription>
+                        This removes your posts, comments, reactions, likes, bookmarks and follows, then your
+                        profile, and returns their rent to whoever paid it. It takes several transactions to approve.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!canResume && !isRunning && !isFinished && (
+                    <div className="grid gap-2 py-2">
+                        <Label htmlFor="confirm-handle">Type @{profile.handle} to confirm</Label>
+                        <Input
+                            id="confirm-handle"
+                            value={confirmation}
+                            onChange={(e) => setConfirmation(e.target.value)}
+                            placeholder={profile.handle}
+                        />
+                    </div>
+                )}
+
+                {log.length > 0 && (
+                    <div className="max-h-60 overflow-y-auto rounded-md border p-2 space-y-1 text-xs">
+                        {log.map((entry, index) => (
+                            <div key={index} className="flex items-center space-x-2">
+                                {entry.status === "done" ? (
+                                    <Check className="h-3.5 w-3.5 text-green-600 flex-shrink-0" />
+                                ) : entry.status === "failed" ? (
+                                    <X className="h-3.5 w-3.5 text-destructive flex-shrink-0" />
+                                ) : (
+                                    <SkipForward className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                                )}
+                                <span className="flex-1">
+                                    {entry.status === "done" && `Closed ${entry.count} ${STAGE_LABELS[entry.stage]}`}
+                                    {entry.status === "failed" && `Failed to close ${entry.count} ${STAGE_LABELS[entry.stage]}: ${entry.error}`}
+                                    {entry.status === "skipped" && `Left ${entry.count} ${STAGE_LABELS[entry.stage]} whose other side is already gone`}
+                                </span>
+                                <span className="text-muted-foreground">
+                                    {new Date(entry.at).toLocaleTimeString()}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isRunning}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="destructive"
+                        onClick={handleWipe}
+                        disabled={isRunning || isFinished || (!canResume && confirmation !== profile.handle)}
+                    >
+                        {isRunning ? "Deleting..." : canResume ? "Resume" : "Delete everything"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { PublicKey } from "@solana/web3.js";
+import { Post } from "@/components/hooks/usePost";
+import { MAX_TEXT_LENGTH } from "@/lib/solagram";
+
+interface EditPostDialogProps {
+    post: Post | null;
+    onClose: () => void;
+    updatePost: (postPda: PublicKey, content: string) => Promise<{ success: boolean; error?: string }>;
+    refetchAllPosts: () => Promise<void>;
+}
+
+export function EditPostDialog({ post, onClose, updatePost, refetchAllPosts }: EditPostDialogProps) {
+    const [content, setContent] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (post) {
+            setContent(post.content);
+        }
+    }, [post]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!post) return;
+
+        setIsLoading(true);
+
+        try {
+            const result = await updatePost(post.publicKey, content.trim());
+            if (!result.success) {
+                toast.error(result.error || "Failed to update post");
+                return;
+            }
+
+            toast.success("Post updated successfully!");
+            onClose();
+
+            await refetchAllPosts();
+        } catch (error: any) {
+            toast.error(`Failed to update post: ${error.message}`);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!post} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle>Edit Post</DialogTitle>
+                    <DialogDescription>
+                        The previous caption stays visible in the post's edit history.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-2 py-4">
+                        <Label htmlFor="caption">Caption</Label>
+                        <Input
+                            id="caption"
+                            value={content}
+                            onChange={(e) => setContent(e.target.value)}
+                            maxLength={MAX_TEXT_LENGTH}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button
+                            type="submit"
+                            disabled={isLoading || !content.trim() || content.trim() === post?.content}
+                        >
+                            {isLoading ? "Saving..." : "Save changes"}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -13,9 +13,14 @@ import {
     DialogTitle,
     DialogTrigger,
 } from "@/components/ui/dialog";
-import { UploadButton } from "@/utils/uploadthing";
+import { UploadButton, uploadErrorMessage } from "@/utils/uploadthing";
+import { useUploadAuth } from "@/components/hooks/useUploadAuth";
 import { toast } from "sonner";
 import { UserProfile, useUserProfile } from "@/components/hooks/useUserProfile";
+import { useHandleAvailability } from "@/components/hooks/useHandleAvailability";
+import { HandleAvailabilityHint } from "@/components/HandleAvailabilityHint";
+import { DeleteAccountDialog } from "@/components/DeleteAccountDialog";
+import { TransferProfileSection } from "@/components/TransferProfileSection";
 
 interface EditProfileDialogProps {
     profile: UserProfile;
@@ -30,6 +35,8 @@ export function EditProfileDialog({ profile, updateProfile, refetch }: EditProfi
     const [isOpen, setIsOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [isUploading, setIsUploading] = useState(false);
+    const uploadHeaders = useUploadAuth();
+    const handleStatus = useHandleAvailability(isOpen ? handle : "", profile.publicKey);
 
     useEffect(() => {
         if (isOpen) {
@@ -96,6 +103,7 @@ export function EditProfileDialog({ profile, updateProfile, refetch }: EditProfi
                                 placeholder="Enter your handle"
                                 maxLength={24}
                             />
+                            <HandleAvailabilityHint status={handleStatus} />
                         </div>
                         <div className="grid gap-2">
                             <Label htmlFor="bio">Bio</Label>
@@ -119,9 +127,10 @@ export function EditProfileDialog({ profile, updateProfile, refetch }: EditProfi
                                 )}
                                 <UploadButton
                                     endpoint="imageUploader"
+                                    headers={uploadHeaders}
                                     onClientUploadComplete={handleImageUpload}
-                                    onUploadError={(error: Error) => {
-                                        toast.error(`Upload failed: ${error.message}`);
+                                    onUploadError={(error) => {
+                                        toast.error(uploadErrorMessage(error));
                                         setIsUploading(false);
                                     }}
                                     onUploadBegin={() => setIsUploading(true)}
@@ -136,8 +145,22 @@ export function EditProfileDialog({ profile, updateProfile, refetch }: EditProfi
                             </div>
                         </div>
                     </div>
+                    <TransferProfileSection profile={profile} />
+                    <div className="flex items-center justify-between border-t pt-4 mb-4">
+                        <div>
+                            <p className="text-sm font-medium">Danger zone</p>
+                            <p className="text-xs text-muted-foreground">Delete your profile and everything you posted.</p>
+                        </div>
+                        <DeleteAccountDialog
+                            profile={profile}
+                            onDeleted={() => {
+                                setIsOpen(false);
+                                refetch();
+                            }}
+                        />
+                    </div>
                     <DialogFooter>
-                        <Button type="submit" disabled={isLoading}>
+                        <Button type="submit" disabled={isLoading || handleStatus === "taken"}>
                             {isLoading ? "Saving..." : "Save changes"}
                         </Button>
                     </DialogFooter>
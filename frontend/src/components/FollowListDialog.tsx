@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { FollowListKind, useFollowList } from "./hooks/useFollowList";
+import { ProfileWithFollowStatus } from "./hooks/useProfiles";
+import { useRequireWallet } from "./hooks/useRequireWallet";
+
+interface FollowListDialogProps {
+  isOpen: boolean;
+  // Called on close; `changed` is true when the viewer followed or unfollowed someone
+  onClose: (changed: boolean) => void;
+  authority: PublicKey;
+  kind: FollowListKind;
+}
+
+export default function FollowListDialog({ isOpen, onClose, authority, kind }: FollowListDialogProps) {
+  const wallet = useAnchorWallet();
+  const requireWallet = useRequireWallet();
+  const { profiles, hasMore, isLoading, isLoadingMore, error, refresh, loadMore, toggleFollow } = useFollowList(authority, kind);
+  const [togglingKey, setTogglingKey] = useState<string | null>(null);
+  const changedRef = useRef(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      changedRef.current = false;
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  const handleFollow = async (profile: ProfileWithFollowStatus) => {
+    if (!requireWallet()) {
+      return;
+    }
+
+    const key = profile.authority.toString();
+    setTogglingKey(key);
+
+    try {
+      const result = await toggleFollow(profile);
+      if (result.success) {
+        changedRef.current = true;
+        toast.success(profile.isFollowing ? "Unfollowed successfully" : "Followed successfully");
+      } else {
+        toast.error(result.error || "Operation failed");
+      }
+    } catch (error) {
+      console.error("Follow/Unfollow error:", error);
+      toast.error("An error occurred");
+    } finally {
+      setTogglingKey(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose(changedRef.current)}>
+      <DialogContent className="max-w-md max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{kind === "followers" ? "Followers" : "Following"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error && profiles.length === 0 ? (
+            <div className="text-center py-8 text-red-500">
+              <p>Error loading {kind}: {error}</p>
+            </div>
+          ) : profiles.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>{kind === "followers" ? "No followers yet." : "Not following anyone yet."}</p>
+            </div>
+          ) : (
+            profiles.map((profile) => {
+              const key = profile.authority.toString();
+              const isSelf = !!wallet && profile.authority.equals(wallet.publicKey);
+
+              return (
+                <div key={key} className="flex items-center space-x-3 p-2">
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={profile.avatarUri} alt={profile.handle} />
+                    <AvatarFallback>
+                      {profile.handle.slice(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      href={`/u/${profile.authority.toBase58()}`}
+                      className="font-semibold text-sm truncate hover:underline"
+                      onClick={() => onClose(changedRef.current)}
+                    >
+                      @{profile.handle}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      {profile.followerCount} followers
+                    </p>
+                  </div>
+                  {!isSelf && (
+                    <Button
+                      size="sm"
+                      variant={profile.isFollowing ? "outline" : "default"}
+                      onClick={() => handleFollow(profile)}
+                      disabled={togglingKey === key}
+                    >
+                      {togglingKey === key ? "Loading..." : profile.isFollowing ? "Unfollow" : kind === "followers" ? "Follow back" : "Follow"}
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+
+          {hasMore && !isLoading && (
+            <div className="flex justify-center pt-2">
+              <Button variant="ghost" size="sm" onClick={loadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
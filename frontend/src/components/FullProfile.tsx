@@ -8,8 +8,8 @@ import { toast } from "sonner";
 import { UploadButton } from "@/utils/uploadthing";
 import { EditProfileDialog } from "@/components/EditProfileDialog";
 import { CreatePostDialog } from "@/components/CreatePostDialog";
-import { usePost } from "./hooks/usePost";
-import { Post } from "./hooks/usePost";
+import { EditPostDialog } from "@/components/EditPostDialog";
+import { usePost, Post } from "./hooks/usePost";
 import { CreateProfile } from "./CreateProfile";
 import {
     DropdownMenu,
@@ -19,11 +19,24 @@ import {
     DropdownMenuSeparator,
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { MoreHorizontal, Trash2 } from "lucide-react";
+import { Bookmark, Grid3x3, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { PublicKey } from "@solana/web3.js";
+import FollowListDialog from "./FollowListDialog";
+import { FollowListKind } from "./hooks/useFollowList";
+import { useBookmarks } from "./hooks/useBookmarks";
+
+type ProfileTab = "posts" | "saved";
 
 export function FullProfile() {
     const { profile, updateProfile, isLoading, error, refetch } = useUserProfile();
-    const { posts, refetchAllPosts, deletePost } = usePost();
+    const { posts, refetchAllPosts, updatePost, deletePost } = usePost();
+    const [editingPost, setEditingPost] = useState<Post | null>(null);
+    // Post being deleted and how far its comment/reaction cleanup got
+    const [deleting, setDeleting] = useState<{ postKey: string; closed: number; total: number } | null>(null);
+    const [followList, setFollowList] = useState<FollowListKind | null>(null);
+    const [tab, setTab] = useState<ProfileTab>("posts");
+    const { savedPosts, isLoadingSaved, error: savedError, pendingBookmarks, fetchSavedPosts, toggleBookmark } = useBookmarks();
 
     useEffect(() => {
         const posts = async () => {
@@ -32,6 +45,12 @@ export function FullProfile() {
         posts();
     }, [profile]);
 
+    useEffect(() => {
+        if (tab === "saved") {
+            fetchSavedPosts();
+        }
+    }, [tab, fetchSavedPosts]);
+
     if (isLoading) {
         return (
             <div className="flex flex-col items-center justify-center min-h-screen pt-20">
@@ -60,20 +79,33 @@ export function FullProfile() {
                 <div className="text-center">
                     <h1 className="text-4xl font-bold mb-4">Create your profile</h1>
                     <p className="text-muted-foreground mb-4">You need to create your profile to start using the app</p>
-                    <CreateProfile />
+                    <CreateProfile onCreated={refetch} />
                 </div>
             </div>
         );
     }
 
-    const handleDeletePost = async (mediaUri: string) => {
-        const result = await deletePost(mediaUri);
-        if (!result?.success) {
-            toast.error(result?.error || "Failed to delete post");
-            return;
+    const handleDeletePost = async (postPda: PublicKey) => {
+        const postKey = postPda.toString();
+        setDeleting({ postKey, closed: 0, total: 0 });
+
+        try {
+            const result = await deletePost(postPda, ({ closed, total }) => setDeleting({ postKey, closed, total }));
+            if (!result?.success) {
+                toast.error(result?.error || "Failed to delete post");
+                return;
+            }
+            toast.success("Post deleted successfully!");
+        } finally {
+            setDeleting(null);
+        }
+    }
+
+    const handleUnsave = async (postPda: PublicKey) => {
+        const result = await toggleBookmark(postPda);
+        if (!result.success) {
+            toast.error(result.error || "Failed to remove from saved");
         }
-        toast.success("Post deleted successfully!");
-        await refetchAllPosts();
     }
 
     return (
@@ -111,11 +143,15 @@ export function FullProfile() {
                         </div>
                         <p className="text-lg text-muted-foreground mb-2">{profile.bio}</p>
                         <div className="flex space-x-2 my-1">
-                            <Badge variant="secondary" className="text-sm">
-                                {profile.followerCount} followers
+                            <Badge variant="secondary" className="text-sm cursor-pointer hover:bg-secondary/80" asChild>
+                                <button onClick={() => setFollowList("followers")}>
+                                    {profile.followerCount} followers
+                                </button>
                             </Badge>
-                            <Badge variant="secondary" className="text-sm">
-                                {profile.followingCount} following
+                            <Badge variant="secondary" className="text-sm cursor-pointer hover:bg-secondary/80" asChild>
+                                <button onClick={() => setFollowList("following")}>
+                                    {profile.followingCount} following
+                                </button>
                             </Badge>
                         </div>
                         <div className="flex space-x-6 text-sm text-muted-foreground">
@@ -128,48 +164,149 @@ export function FullProfile() {
                 {/* Divider */}
                 <div className="border-t border-border "></div>
 
+                {/* Profile Tabs */}
+                <div className="flex justify-center space-x-12 mb-4">
+                    {([["posts", "Posts", Grid3x3], ["saved", "Saved", Bookmark]] as const).map(([kind, label, Icon]) => (
+                        <button
+                            key={kind}
+                            className={`flex items-center space-x-1 pt-3 -mt-px text-xs font-semibold uppercase tracking-wide border-t ${tab === kind
+                                ? "border-foreground text-foreground"
+                                : "border-transparent text-muted-foreground hover:text-foreground"
+                                }`}
+                            onClick={() => setTab(kind)}
+                        >
+                            <Icon className="h-3.5 w-3.5" />
+                            <span>{label}</span>
+                        </button>
+                    ))}
+                </div>
+
                 {/* Posts Section */}
-                <div className="mb-8">
-                    {posts.length > 0 && <div className="flex items-center justify-end my-2"><CreatePostDialog refetchAllPosts={refetchAllPosts} /></div>}
-
-                    {posts.length > 0 ? (
-                        <div className="grid grid-cols-3 gap-px">
-                            {posts.map((post: any) => (
-                                <div key={post.account.mediaUri} className="relative group">
-                                    <img src={post.account.mediaUri} alt="Post" className="w-80 h-60 object-cover" />
-                                    <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                        <DropdownMenu>
-                                            <DropdownMenuTrigger asChild>
-                                                <Button
-                                                    variant="secondary"
-                                                    size="icon"
-                                                    className="h-8 w-8 bg-black/50 hover:bg-black/70 text-white border-0"
-                                                >
-                                                    <MoreHorizontal className="h-4 w-4" />
-                                                </Button>
-                                            </DropdownMenuTrigger>
-                                            <DropdownMenuContent align="end" className="min-w-[100px] w-auto">
-                                                <DropdownMenuItem
-                                                    onClick={() => handleDeletePost(post.account.mediaUri)}
-                                                    className="text-destructive focus:text-destructive"
-                                                >
-                                                    <Trash2 className="h-4 w-4 text-destructive" />
-                                                    Delete
-                                                </DropdownMenuItem>
-                                            </DropdownMenuContent>
-                                        </DropdownMenu>
+                {tab === "posts" && (
+                    <div className="mb-8">
+                        {posts.length > 0 && <div className="flex items-center justify-end my-2"><CreatePostDialog /></div>}
+
+                        {posts.length > 0 ? (
+                            <div className="grid grid-cols-3 gap-px">
+                                {posts.map((post: Post) => (
+                                    <div key={post.publicKey.toString()} className="relative group">
+                                        <img src={post.mediaUri} alt="Post" className="w-80 h-60 object-cover" />
+                                        {deleting?.postKey === post.publicKey.toString() && (
+                                            <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/60 text-white text-xs space-y-2 px-6">
+                                                <span>
+                                                    {deleting.total > 0
+                                                        ? `Cleaning up comments and reactions ${deleting.closed}/${deleting.total}`
+                                                        : "Deleting post..."}
+                                                </span>
+                                                {deleting.total > 0 && (
+                                                    <div className="w-full h-1 rounded bg-white/30">
+                                                        <div
+                                                            className="h-1 rounded bg-white transition-all"
+                                                            style={{ width: `${(deleting.closed / deleting.total) * 100}%` }}
+                                                        />
+                                                    </div>
+                                                )}
+                                            </div>
+                                        )}
+                                        <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <DropdownMenu>
+                                                <DropdownMenuTrigger asChild>
+                                                    <Button
+                                                        variant="secondary"
+                                                        size="icon"
+                                                        className="h-8 w-8 bg-black/50 hover:bg-black/70 text-white border-0"
+                                                    >
+                                                        <MoreHorizontal className="h-4 w-4" />
+                                                    </Button>
+                                                </DropdownMenuTrigger>
+                                                <DropdownMenuContent align="end" className="min-w-[100px] w-auto">
+                                                    <DropdownMenuItem onClick={() => setEditingPost(post)}>
+                                                        <Pencil className="h-4 w-4" />
+                                                        Edit
+                                                    </DropdownMenuItem>
+                                                    <DropdownMenuItem
+                                                        onClick={() => handleDeletePost(post.publicKey)}
+                                                        disabled={!!deleting}
+                                                        className="text-destructive focus:text-destructive"
+                                                    >
+                                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                                        Delete
+                                                    </DropdownMenuItem>
+                                                </DropdownMenuContent>
+                                            </DropdownMenu>
+                                        </div>
                                     </div>
-                                </div>
-                            ))}
-                        </div>
-                    ) : (
-                        <>
-                            <h3 className="text-xl font-semibold mb-2">No posts yet</h3>
-                            <CreatePostDialog refetchAllPosts={refetchAllPosts} />
-                        </>
-                    )}
-                </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <>
+                                <h3 className="text-xl font-semibold mb-2">No posts yet</h3>
+                                <CreatePostDialog />
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* Saved Section */}
+                {tab === "saved" && (
+                    <div className="mb-8">
+                        {isLoadingSaved ? (
+                            <div className="flex justify-center py-8">
+                                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                            </div>
+                        ) : savedError ? (
+                            <p className="text-center py-8 text-red-500">Error loading saved posts: {savedError}</p>
+                        ) : savedPosts.length > 0 ? (
+                            <div className="grid grid-cols-3 gap-px">
+                                {savedPosts.map((post) => (
+                                    <div key={post.publicKey.toString()} className="relative group">
+                                        <img src={post.mediaUri} alt="Saved post" className="w-80 h-60 object-cover" />
+                                        <div className="absolute inset-x-0 bottom-0 flex items-center justify-between p-2 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <Link href={`/u/${post.creator.toBase58()}`} className="text-xs font-semibold text-white hover:underline truncate">
+                                                @{post.creatorHandle}
+                                            </Link>
+                                            <Button
+                                                variant="secondary"
+                                                size="icon"
+                                                className="h-7 w-7 bg-transparent hover:bg-black/40 text-white border-0"
+                                                onClick={() => handleUnsave(post.publicKey)}
+                                                disabled={pendingBookmarks.has(post.publicKey.toString())}
+                                                aria-label="Remove from saved"
+                                            >
+                                                <Bookmark className="h-4 w-4 fill-current" />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="text-center py-8 text-muted-foreground">
+                                <h3 className="text-xl font-semibold mb-2">No saved posts</h3>
+                                <p>Save posts from the feed to see them here. Only you see this tab.</p>
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
+
+            <EditPostDialog
+                post={editingPost}
+                onClose={() => setEditingPost(null)}
+                updatePost={updatePost}
+                refetchAllPosts={refetchAllPosts}
+            />
+
+            {followList && (
+                <FollowListDialog
+                    isOpen={!!followList}
+                    onClose={(changed) => {
+                        setFollowList(null);
+                        if (changed) refetch();
+                    }}
+                    authority={profile.authority}
+                    kind={followList}
+                />
+            )}
         </div>
     );
 }
\ No newline at end of file
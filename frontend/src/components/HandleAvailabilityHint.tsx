@@ -0,0 +1,19 @@
+"use client";
+
+import React from "react";
+import { HandleAvailability } from "./hooks/useHandleAvailability";
+
+const HINTS: Record<HandleAvailability, { text: string; className: string } | null> = {
+    idle: null,
+    checking: { text: "Checking availability...", className: "text-muted-foreground" },
+    available: { text: "Handle is available", className: "text-green-600" },
+    taken: { text: "Handle is already taken", className: "text-red-600" },
+    invalid: { text: "Handle must be between 1-24 characters", className: "text-red-600" },
+};
+
+export function HandleAvailabilityHint({ status }: { status: HandleAvailability }) {
+    const hint = HINTS[status];
+    if (!hint) return null;
+
+    return <p className={`text-xs mt-1 ${hint.className}`}>{hint.text}</p>;
+}
@@ -1,65 +1,132 @@
 "use client"
 
 import { useEffect, useState, useRef } from "react";
-import { usePost } from "./hooks/usePost";
-import { Heart, MessageCircle, Bookmark, MoreHorizontal, User, Smile, Frown, Laugh, Zap, Angry } from "lucide-react";
+import Link from "next/link";
+import { FeedPost } from "./hooks/usePost";
+import { FeedKind, useFeed } from "./hooks/useFeed";
+import { MessageCircle, Bookmark, User, ArrowUp } from "lucide-react";
 import { Button } from "./ui/button";
 import CommentDialog from "./CommentDialog";
+import PostHistoryDialog from "./PostHistoryDialog";
+import { ReactionBar } from "./ReactionBar";
+import { useReactions } from "./hooks/useReactions";
+import { useBookmarks } from "./hooks/useBookmarks";
+import { ReactionKind } from "@/lib/solagram";
 import { PublicKey } from "@solana/web3.js";
 import { toast } from "sonner";
 import { useAnchorWallet } from "@solana/wallet-adapter-react";
-
-interface PostData {
-    account: {
-        mediaUri: string;
-        content: string;
-        likeCount: any;
-        dislikeCount: any;
-        loveCount: any;
-        hahaCount: any;
-        wowCount: any;
-        sadCount: any;
-        angryCount: any;
-        commentCount: any;
-        createdAt: any;
-        creator: any;
-    };
-    publicKey: any;
-    creatorHandle?: string;
-}
+import { useRequireWallet } from "./hooks/useRequireWallet";
 
 const HomePagePosts = () => {
-    const { allPosts, isLoading, error, fetchAllPosts } = usePost();
+    const [feedKind, setFeedKind] = useState<FeedKind>("forYou");
+    const { myReactions, reactingPosts, countsFor, fetchMyReactions, settleCounts, react } = useReactions();
+    // Live updates carry on-chain counts, which already include the wallet's own reactions
+    const { posts, newPosts, hasMore, isLoading, isLoadingMore, error, refresh, loadMore, showNewPosts } = useFeed(feedKind, {
+        onPostChanged: (post) => settleCounts([post.publicKey]),
+    });
     const wallet = useAnchorWallet();
-    const [selectedPost, setSelectedPost] = useState<{ pda: PublicKey; creator: PublicKey } | null>(null);
-    const [reactingPosts, setReactingPosts] = useState<Set<string>>(new Set());
-    const hasFetchedRef = useRef(false);
+    const requireWallet = useRequireWallet();
+    const [selectedPost, setSelectedPost] = useState<{ pda: PublicKey; profile: PublicKey } | null>(null);
+    const [historyPost, setHistoryPost] = useState<PublicKey | null>(null);
+    const { bookmarked, pendingBookmarks, fetchBookmarkStatus, toggleBookmark } = useBookmarks();
+    const loadedFeedRef = useRef<string | null>(null);
+    const sentinelRef = useRef<HTMLDivElement | null>(null);
+    // Posts whose reactions were loaded, reset when the wallet (and so the fetcher) changes
+    const reactionsLoadedRef = useRef<{ fetcher: typeof fetchMyReactions | null; keys: Set<string> }>({
+        fetcher: null,
+        keys: new Set(),
+    });
+    const bookmarksLoadedRef = useRef<{ fetcher: typeof fetchBookmarkStatus | null; keys: Set<string> }>({
+        fetcher: null,
+        keys: new Set(),
+    });
+
+    // The global feed is public, so it loads once whether or not a wallet is connected;
+    // the following feed reloads for each connected wallet
+    const feedKey = feedKind === "following" ? `following:${wallet?.publicKey.toBase58() ?? ""}` : feedKind;
+    useEffect(() => {
+        if (loadedFeedRef.current !== feedKey) {
+            loadedFeedRef.current = feedKey;
+            refresh();
+        }
+    }, [feedKey, refresh]);
 
+    // Load the next page when the end of the list scrolls into view
     useEffect(() => {
-        const fetchPosts = async () => {
-            if (wallet && !hasFetchedRef.current) {
-                hasFetchedRef.current = true;
-                await fetchAllPosts();
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore) return;
+
+        const observer = new IntersectionObserver((entries) => {
+            if (entries[0].isIntersecting) {
+                loadMore();
             }
+        }, { rootMargin: "400px" });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, loadMore, posts.length]);
+
+    // Load the wallet's own reaction for each newly loaded post (for all of them after connecting)
+    useEffect(() => {
+        const loaded = reactionsLoadedRef.current;
+        if (loaded.fetcher !== fetchMyReactions) {
+            loaded.fetcher = fetchMyReactions;
+            loaded.keys = new Set();
+        }
+
+        const fresh = posts.filter((post) => !loaded.keys.has(post.publicKey.toString()));
+        if (fresh.length > 0) {
+            fresh.forEach((post) => loaded.keys.add(post.publicKey.toString()));
+            fetchMyReactions(fresh.map((post) => post.publicKey));
         }
-        fetchPosts();
-    }, [wallet, fetchAllPosts]);
+    }, [posts, fetchMyReactions]);
 
-    // Reset fetch flag when wallet disconnects
+    // Same for whether each post is bookmarked
     useEffect(() => {
-        if (!wallet) {
-            hasFetchedRef.current = false;
+        const loaded = bookmarksLoadedRef.current;
+        if (loaded.fetcher !== fetchBookmarkStatus) {
+            loaded.fetcher = fetchBookmarkStatus;
+            loaded.keys = new Set();
         }
-    }, [wallet]);
 
+        const fresh = posts.filter((post) => !loaded.keys.has(post.publicKey.toString()));
+        if (fresh.length > 0) {
+            fresh.forEach((post) => loaded.keys.add(post.publicKey.toString()));
+            fetchBookmarkStatus(fresh.map((post) => post.publicKey));
+        }
+    }, [posts, fetchBookmarkStatus]);
+
+    const handleReact = async (postPda: PublicKey, kind: ReactionKind) => {
+        if (!requireWallet()) {
+            return;
+        }
+
+        const result = await react(postPda, kind);
+        if (!result.success) {
+            toast.error(result.error || "Failed to update reaction");
+        }
+    };
+
+    const handleBookmark = async (postPda: PublicKey) => {
+        if (!requireWallet()) {
+            return;
+        }
 
-    const handleCommentClick = (postPda: PublicKey, postCreator: PublicKey) => {
-        setSelectedPost({ pda: postPda, creator: postCreator });
+        const wasBookmarked = bookmarked.has(postPda.toString());
+        const result = await toggleBookmark(postPda);
+        if (result.success) {
+            toast.success(wasBookmarked ? "Removed from saved" : "Saved");
+        } else {
+            toast.error(result.error || "Failed to update bookmark");
+        }
     };
 
-    const formatTimeAgo = (timestamp: any) => {
+    const handleCommentClick = (postPda: PublicKey, postProfile: PublicKey) => {
+        setSelectedPost({ pda: postPda, profile: postProfile });
+    };
+
+    const formatTimeAgo = (timestamp: number) => {
         const now = Date.now();
-        const postTime = timestamp.toNumber() * 1000;
+        const postTime = timestamp * 1000;
         const diffInSeconds = Math.floor((now - postTime) / 1000);
 
         if (diffInSeconds < 60) return `${diffInSeconds}s`;
@@ -68,29 +135,71 @@ const HomePagePosts = () => {
         return `${Math.floor(diffInSeconds / 86400)}d`;
     };
 
+    const feedTabs = (
+        <div className="max-w-2xl mx-auto px-4 pt-8">
+            <div className="flex border-b border-gray-200">
+                {([["forYou", "For you"], ["following", "Following"]] as const).map(([kind, label]) => (
+                    <button
+                        key={kind}
+                        className={`flex-1 py-3 text-sm font-semibold transition-colors ${feedKind === kind
+                            ? "border-b-2 border-primary text-gray-900"
+                            : "text-gray-500 hover:text-gray-700"
+                            }`}
+                        onClick={() => setFeedKind(kind)}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+
     if (isLoading) {
         return (
-            <div className="flex justify-center items-center py-20">
-                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
-            </div>
+            <>
+                {feedTabs}
+                <div className="flex justify-center items-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+                </div>
+            </>
         );
     }
 
-    if (error) {
+    if (error && posts.length === 0) {
         return (
-            <div className="text-center py-20 text-red-500">
-                <p>Error loading posts: {error}</p>
-            </div>
+            <>
+                {feedTabs}
+                <div className="text-center py-20 text-red-500">
+                    <p>Error loading posts: {error}</p>
+                </div>
+            </>
         );
     }
 
     return (
         <>
+            {feedTabs}
             <div className="max-w-2xl mx-auto px-4 py-8">
+                {newPosts.length > 0 && (
+                    <div className="sticky top-20 z-10 flex justify-center mb-4">
+                        <Button
+                            size="sm"
+                            className="rounded-full shadow-md gap-1"
+                            onClick={() => {
+                                showNewPosts();
+                                window.scrollTo({ top: 0, behavior: "smooth" });
+                            }}
+                        >
+                            <ArrowUp className="h-4 w-4" />
+                            {newPosts.length} new {newPosts.length === 1 ? "post" : "posts"}
+                        </Button>
+                    </div>
+                )}
                 <div className="space-y-6">
-                    {allPosts?.map((post: PostData, index: number) => {
+                    {posts.map((post: FeedPost) => {
                         const postPda = post.publicKey;
                         const isReacting = reactingPosts.has(postPda.toString());
+                        const isBookmarked = bookmarked.has(postPda.toString());
 
                         return (
                             <div key={postPda.toString()} className="bg-white border border-gray-200 rounded-lg shadow-sm">
@@ -101,11 +210,14 @@ const HomePagePosts = () => {
                                             <User className="w-4 h-4 text-white" />
                                         </div>
                                         <div>
-                                            <p className="font-semibold text-sm text-gray-900">
+                                            <Link
+                                                href={`/u/${post.creator.toBase58()}`}
+                                                className="font-semibold text-sm text-gray-900 hover:underline"
+                                            >
                                                 {post.creatorHandle}
-                                            </p>
+                                            </Link>
                                             <p className="text-xs text-gray-500">
-                                                {formatTimeAgo(post.account.createdAt)}
+                                                {formatTimeAgo(post.createdAt)}
                                             </p>
                                         </div>
                                     </div>
@@ -114,7 +226,7 @@ const HomePagePosts = () => {
                                 {/* Post Image */}
                                 <div className="relative">
                                     <img
-                                        src={post.account.mediaUri}
+                                        src={post.mediaUri}
                                         alt="Post"
                                         className="w-full h-auto object-cover"
                                         onError={(e) => {
@@ -126,37 +238,63 @@ const HomePagePosts = () => {
                                 {/* Post Actions */}
                                 <div className="p-4 space-y-3">
                                     {/* Reactions Row */}
-                                    <div className="flex items-center space-x-1">
-
-                                        <Button
-                                            variant="ghost"
-                                            size="icon"
-                                            className="h-8 w-8 text-gray-600"
-                                            onClick={() => handleCommentClick(postPda, post.account.creator)}
-                                        >
-                                            <MessageCircle className="h-5 w-5" />
-                                        </Button>
+                                    <div className="flex items-center justify-between space-x-1">
+                                        <ReactionBar
+                                            counts={countsFor(post)}
+                                            myReaction={myReactions.get(postPda.toString()) ?? null}
+                                            disabled={isReacting}
+                                            onReact={(kind) => handleReact(postPda, kind)}
+                                        />
+
+                                        <div className="flex items-center">
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-8 w-8 text-gray-600"
+                                                onClick={() => handleCommentClick(postPda, post.profile)}
+                                            >
+                                                <MessageCircle className="h-5 w-5" />
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-8 w-8 text-gray-600"
+                                                onClick={() => handleBookmark(postPda)}
+                                                disabled={pendingBookmarks.has(postPda.toString())}
+                                                aria-label={isBookmarked ? "Remove from saved" : "Save post"}
+                                            >
+                                                <Bookmark className={`h-5 w-5 ${isBookmarked ? "fill-current text-gray-900" : ""}`} />
+                                            </Button>
+                                        </div>
                                     </div>
 
 
                                     {/* Post Content */}
                                     <div className="space-y-2">
                                         <p className="text-sm text-gray-900">
-                                            {post.account.content}
+                                            {post.content}
                                         </p>
+                                        {post.revisionCount > 0 && (
+                                            <button
+                                                className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                                                onClick={() => setHistoryPost(postPda)}
+                                            >
+                                                edited · view history
+                                            </button>
+                                        )}
                                     </div>
 
                                     {/* Comment Count */}
                                     <div
                                         className="text-sm text-gray-500 cursor-pointer hover:text-gray-700 transition-colors"
-                                        onClick={() => handleCommentClick(postPda, post.account.creator)}
+                                        onClick={() => handleCommentClick(postPda, post.profile)}
                                     >
-                                        View all {post.account.commentCount.toNumber()} comments
+                                        View all {post.commentCount} comments
                                     </div>
 
                                     {/* Timestamp */}
                                     <div className="text-xs text-gray-400 uppercase tracking-wide">
-                                        {formatTimeAgo(post.account.createdAt)}
+                                        {formatTimeAgo(post.createdAt)}
                                     </div>
                                 </div>
                             </div>
@@ -164,7 +302,30 @@ const HomePagePosts = () => {
                     })}
                 </div>
 
-                {allPosts.length === 0 && (
+                {/* Infinite scroll sentinel */}
+                <div ref={sentinelRef} className="flex justify-center py-6">
+                    {isLoadingMore && (
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                    )}
+                </div>
+
+                {posts.length === 0 && feedKind === "following" && (
+                    <div className="max-w-4xl mx-auto p-6 justify-center text-center">
+                        {wallet ? (
+                            <>
+                                <p className="text-muted-foreground mb-4">No posts from people you follow yet.</p>
+                                <Link href="/people" className="underline">Discover people</Link>
+                            </>
+                        ) : (
+                            <>
+                                <p className="text-muted-foreground mb-4">Connect your wallet to see posts from people you follow.</p>
+                                <Button onClick={() => requireWallet()}>Connect Wallet</Button>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {posts.length === 0 && feedKind === "forYou" && (
                         <div className="max-w-4xl mx-auto p-6 justify-center text-center">
                             <h1 className="text-3xl font-bold mb-6">Welcome to Solana Instagram</h1>
                             <p className="text-muted-foreground mb-6">
@@ -174,13 +335,22 @@ const HomePagePosts = () => {
                 )}
             </div>
 
+            {/* Edit History Dialog */}
+            {historyPost && (
+                <PostHistoryDialog
+                    isOpen={!!historyPost}
+                    onClose={() => setHistoryPost(null)}
+                    postPda={historyPost}
+                />
+            )}
+
             {/* Comment Dialog */}
             {selectedPost && (
                 <CommentDialog
                     isOpen={!!selectedPost}
                     onClose={() => setSelectedPost(null)}
                     postPda={selectedPost.pda}
-                    postCreator={selectedPost.creator}
+                    postProfile={selectedPost.profile}
                 />
             )}
         </>
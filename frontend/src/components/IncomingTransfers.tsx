@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { useAuthorityTransfer } from "./hooks/useAuthorityTransfer";
+
+interface IncomingTransfersProps {
+  // Called once the connected wallet has taken over a profile
+  onAccepted: () => void;
+}
+
+// Profiles other wallets offered to the connected one, shown instead of
+// starting from scratch
+export function IncomingTransfers({ onAccepted }: IncomingTransfersProps) {
+  const { incoming, accept } = useAuthorityTransfer(null);
+  const [acceptingKey, setAcceptingKey] = useState<string | null>(null);
+
+  if (incoming.length === 0) {
+    return null;
+  }
+
+  const handleAccept = async (key: string) => {
+    const offer = incoming.find(({ transfer }) => transfer.profile.toBase58() === key);
+    if (!offer) return;
+
+    setAcceptingKey(key);
+    const result = await accept(offer.transfer.profile);
+    setAcceptingKey(null);
+    if (!result.success) {
+      toast.error(result.error || "Failed to accept transfer");
+      return;
+    }
+    toast.success(`@${offer.profile?.handle ?? "profile"} now belongs to this wallet`);
+    onAccepted();
+  };
+
+  return (
+    <div className="max-w-md mx-auto mb-6 p-4 bg-card rounded-lg border space-y-3 text-left">
+      <h2 className="font-semibold">Profiles offered to this wallet</h2>
+      {incoming.map(({ transfer, profile }) => {
+        const key = transfer.profile.toBase58();
+        return (
+          <div key={key} className="flex items-center justify-between space-x-3">
+            <div className="min-w-0">
+              <p className="font-medium truncate">@{profile?.handle ?? key.slice(0, 8)}</p>
+              <p className="text-xs text-muted-foreground">
+                {profile ? `${profile.followerCount} followers · ${profile.postCount} posts` : "Profile not found"}
+              </p>
+            </div>
+            <Button size="sm" onClick={() => handleAccept(key)} disabled={!profile || acceptingKey === key}>
+              {acceptingKey === key ? "Accepting..." : "Accept"}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
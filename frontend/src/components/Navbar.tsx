@@ -1,6 +1,8 @@
 "use client"
 import Link from "next/link";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { ClusterSwitcher } from "@/components/ClusterSwitcher";
+import { AirdropButton } from "@/components/AirdropButton";
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
 import { Instagram } from "lucide-react";
 import { useEffect, useState } from "react";
@@ -27,7 +29,9 @@ export function Navbar() {
           <div className="w-full flex-1 md:w-auto md:flex-none">
           </div>
           <nav className="flex items-center space-x-2">
+            <ClusterSwitcher />
             <ThemeToggle />
+            {isClient && <AirdropButton />}
             {!isClient ? <p className="text-white pr-10 pt-2">Loading...</p> : <WalletMultiButton />}
           </nav>
         </div>
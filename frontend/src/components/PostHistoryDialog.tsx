@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { usePostHistory } from "./hooks/usePostHistory";
+
+interface PostHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  postPda: PublicKey;
+}
+
+export default function PostHistoryDialog({ isOpen, onClose, postPda }: PostHistoryDialogProps) {
+  const { versions, isLoading, error, fetchHistory } = usePostHistory();
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchHistory(postPda);
+    }
+  }, [isOpen, postPda, fetchHistory]);
+
+  const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-8 text-red-500">
+              <p>Error loading history: {error}</p>
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>This post no longer exists.</p>
+            </div>
+          ) : (
+            versions.map((version, index) => (
+              <div key={versions.length - index} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between mb-1 text-xs text-muted-foreground">
+                  <span className="font-semibold">
+                    {version.replacedAt === null
+                      ? "Current"
+                      : index === versions.length - 1 ? "Original" : `Version ${versions.length - index}`}
+                  </span>
+                  <span>{formatDate(version.writtenAt)}</span>
+                </div>
+                <p className="text-sm break-words">{version.content}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { PublicKey } from "@solana/web3.js";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { usePublicProfile } from "./hooks/usePublicProfile";
+import { useRequireWallet } from "./hooks/useRequireWallet";
+import CommentDialog from "./CommentDialog";
+import FollowListDialog from "./FollowListDialog";
+import { FollowListKind } from "./hooks/useFollowList";
+
+export function PublicProfile({ id }: { id: string }) {
+    const { profile, posts, isFollowing, isOwnProfile, isLoading, error, toggleFollow, refetch } = usePublicProfile(id);
+    const requireWallet = useRequireWallet();
+    const [isToggling, setIsToggling] = useState(false);
+    const [selectedPost, setSelectedPost] = useState<{ pda: PublicKey; profile: PublicKey } | null>(null);
+    const [followList, setFollowList] = useState<FollowListKind | null>(null);
+
+    const handleFollow = async () => {
+        if (!requireWallet()) {
+            return;
+        }
+
+        setIsToggling(true);
+        try {
+            const result = await toggleFollow();
+            if (result.success) {
+                toast.success(isFollowing ? "Unfollowed successfully" : "Followed successfully");
+            } else {
+                toast.error(result.error || "Operation failed");
+            }
+        } catch (error) {
+            console.error("Follow/Unfollow error:", error);
+            toast.error("An error occurred");
+        } finally {
+            setIsToggling(false);
+        }
+    };
+
+    if (isLoading && !profile) {
+        return (
+            <div className="flex flex-col items-center justify-center min-h-screen pt-20">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="flex flex-col items-center justify-center min-h-screen pt-20">
+                <div className="text-center">
+                    <h1 className="text-4xl font-bold mb-4 text-red-600">Error</h1>
+                    <p className="text-muted-foreground mb-4">{error}</p>
+                    <Button onClick={refetch}>Retry</Button>
+                </div>
+            </div>
+        );
+    }
+
+    if (!profile) {
+        return (
+            <div className="flex flex-col items-center justify-center min-h-screen pt-20">
+                <div className="text-center">
+                    <h1 className="text-4xl font-bold mb-4">Profile not found</h1>
+                    <p className="text-muted-foreground mb-4">No Solagram profile matches &quot;{id}&quot;.</p>
+                    <Link href="/people" className="underline">Discover people</Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen pt-6">
+            {/* Profile Header Section */}
+            <div className="max-w-4xl mx-auto px-2 py-10 md:p-6">
+                <div className="flex items-start space-x-6 mb-8">
+                    {/* Profile Photo */}
+                    <div className="flex-shrink-0">
+                        {profile.avatarUri ? (
+                            <img
+                                src={profile.avatarUri}
+                                alt="Profile Avatar"
+                                className="w-32 h-32 rounded-full object-cover border-4 border-border"
+                                onError={(e) => {
+                                    e.currentTarget.style.display = 'none';
+                                }}
+                            />
+                        ) : (
+                            <div className="w-32 h-32 rounded-full bg-muted flex items-center justify-center border-4 border-border">
+                                <span className="text-4xl text-muted-foreground">👤</span>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Profile Info */}
+                    <div className="flex-1">
+                        <div className="flex items-center space-x-4 mb-4">
+                            <h1 className="text-3xl font-bold">@{profile.handle}</h1>
+                            {isOwnProfile ? (
+                                <Button variant="outline" size="sm" asChild>
+                                    <Link href="/profile">Edit Profile</Link>
+                                </Button>
+                            ) : (
+                                <Button
+                                    size="sm"
+                                    variant={isFollowing ? "outline" : "default"}
+                                    onClick={handleFollow}
+                                    disabled={isToggling}
+                                >
+                                    {isToggling ? "Loading..." : isFollowing ? "Unfollow" : "Follow"}
+                                </Button>
+                            )}
+                        </div>
+                        <p className="text-lg text-muted-foreground mb-2">{profile.bio}</p>
+                        <div className="flex space-x-2 my-1">
+                            <Badge variant="secondary" className="text-sm">
+                                {posts.length} posts
+                            </Badge>
+                            <Badge variant="secondary" className="text-sm cursor-pointer hover:bg-secondary/80" asChild>
+                                <button onClick={() => setFollowList("followers")}>
+                                    {profile.followerCount} followers
+                                </button>
+                            </Badge>
+                            <Badge variant="secondary" className="text-sm cursor-pointer hover:bg-secondary/80" asChild>
+                                <button onClick={() => setFollowList("following")}>
+                                    {profile.followingCount} following
+                                </button>
+                            </Badge>
+                        </div>
+                        <div className="flex space-x-6 text-sm text-muted-foreground">
+                            <span><strong>Member since:</strong> {new Date(profile.createdAt * 1000).toLocaleDateString()}</span>
+                            <span className="truncate"><strong>Wallet:</strong> {profile.authority.toBase58()}</span>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Divider */}
+                <div className="border-t border-border "></div>
+
+                {/* Posts Section */}
+                <div className="mb-8 mt-2">
+                    {posts.length > 0 ? (
+                        <div className="grid grid-cols-3 gap-px">
+                            {posts.map((post) => (
+                                <button
+                                    key={post.publicKey.toString()}
+                                    className="relative group"
+                                    onClick={() => setSelectedPost({ pda: post.publicKey, profile: post.profile })}
+                                >
+                                    <img src={post.mediaUri} alt="Post" className="w-80 h-60 object-cover" />
+                                    <div className="absolute inset-0 flex items-center justify-center bg-black/50 text-white text-sm opacity-0 group-hover:opacity-100 transition-opacity">
+                                        💬 {post.commentCount}
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    ) : (
+                        <h3 className="text-xl font-semibold my-4">No posts yet</h3>
+                    )}
+                </div>
+            </div>
+
+            {/* Comment Dialog */}
+            {selectedPost && (
+                <CommentDialog
+                    isOpen={!!selectedPost}
+                    onClose={() => setSelectedPost(null)}
+                    postPda={selectedPost.pda}
+                    postProfile={selectedPost.profile}
+                />
+            )}
+
+            {followList && (
+                <FollowListDialog
+                    isOpen={!!followList}
+                    onClose={(changed) => {
+                        setFollowList(null);
+                        if (changed) refetch();
+                    }}
+                    authority={profile.authority}
+                    kind={followList}
+                />
+            )}
+        </div>
+    );
+}
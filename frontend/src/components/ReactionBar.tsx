@@ -0,0 +1,53 @@
+"use client";
+
+import { Heart, Frown, Laugh, Zap, Angry, ThumbsUp, ThumbsDown, LucideIcon } from "lucide-react";
+import { Button } from "./ui/button";
+import { cn } from "@/lib/utils";
+import { REACTION_KINDS, ReactionKind } from "@/lib/solagram";
+
+const REACTION_ICONS: Record<ReactionKind, { icon: LucideIcon; label: string; activeClass: string }> = {
+    like: { icon: ThumbsUp, label: "Like", activeClass: "text-blue-500" },
+    dislike: { icon: ThumbsDown, label: "Dislike", activeClass: "text-gray-700" },
+    love: { icon: Heart, label: "Love", activeClass: "text-red-500 fill-red-500" },
+    haha: { icon: Laugh, label: "Haha", activeClass: "text-yellow-500" },
+    wow: { icon: Zap, label: "Wow", activeClass: "text-amber-500" },
+    sad: { icon: Frown, label: "Sad", activeClass: "text-indigo-500" },
+    angry: { icon: Angry, label: "Angry", activeClass: "text-orange-600" },
+};
+
+interface ReactionBarProps {
+    counts: Record<ReactionKind, number>;
+    myReaction: ReactionKind | null;
+    disabled?: boolean;
+    onReact: (kind: ReactionKind) => void;
+}
+
+export function ReactionBar({ counts, myReaction, disabled, onReact }: ReactionBarProps) {
+    return (
+        <div className="flex flex-wrap items-center gap-1">
+            {REACTION_KINDS.map((kind) => {
+                const { icon: Icon, label, activeClass } = REACTION_ICONS[kind];
+                const isMine = myReaction === kind;
+
+                return (
+                    <Button
+                        key={kind}
+                        variant="ghost"
+                        size="sm"
+                        title={label}
+                        aria-pressed={isMine}
+                        disabled={disabled}
+                        className={cn(
+                            "h-8 px-2 text-gray-600",
+                            isMine && "bg-muted font-semibold"
+                        )}
+                        onClick={() => onReact(kind)}
+                    >
+                        <Icon className={cn("h-4 w-4", isMine && activeClass)} />
+                        <span className="text-xs">{counts[kind]}</span>
+                    </Button>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import React, { useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { UserProfile } from "@/components/hooks/useUserProfile";
+import { useAuthorityTransfer } from "@/components/hooks/useAuthorityTransfer";
+
+interface TransferProfileSectionProps {
+    profile: UserProfile;
+}
+
+function shortAddress(address: PublicKey) {
+    const base58 = address.toBase58();
+    return `${base58.slice(0, 4)}...${base58.slice(-4)}`;
+}
+
+// Settings block for moving the profile to another wallet, e.g. to rotate a
+// compromised key. The new wallet accepts from its own session.
+export function TransferProfileSection({ profile }: TransferProfileSectionProps) {
+    const { outgoing, isLoading, propose, cancel } = useAuthorityTransfer(profile);
+    const [newAuthority, setNewAuthority] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handlePropose = async () => {
+        let address: PublicKey;
+        try {
+            address = new PublicKey(newAuthority.trim());
+        } catch {
+            toast.error("Enter a valid wallet address");
+            return;
+        }
+
+        setIsSubmitting(true);
+        const result = await propose(address);
+        setIsSubmitting(false);
+        if (!result.success) {
+            toast.error(result.error || "Failed to propose transfer");
+            return;
+        }
+        setNewAuthority("");
+        toast.success("Transfer proposed. Accept it from the new wallet.");
+    };
+
+    const handleCancel = async () => {
+        setIsSubmitting(true);
+        const result = await cancel();
+        setIsSubmitting(false);
+        if (!result.success) {
+            toast.error(result.error || "Failed to cancel transfer");
+            return;
+        }
+        toast.success("Transfer cancelled");
+    };
+
+    return (
+        <div className="grid gap-2 border-t pt-4 mb-4">
+            <div>
+                <p className="text-sm font-medium">Move to another wallet</p>
+                <p className="text-xs text-muted-foreground">
+                    Your handle, followers and posts move with the profile. The new wallet has to accept the transfer.
+                </p>
+            </div>
+            {outgoing ? (
+                <div className="flex items-center justify-between">
+                    <p className="text-sm">
+                        Waiting for <span className="font-mono">{shortAddress(outgoing.newAuthority)}</span> to accept
+                    </p>
+                    <Button type="button" variant="outline" size="sm" onClick={handleCancel} disabled={isSubmitting}>
+                        {isSubmitting ? "Cancelling..." : "Cancel"}
+                    </Button>
+                </div>
+            ) : (
+                <div className="flex items-end gap-2">
+                    <div className="grid gap-2 flex-1">
+                        <Label htmlFor="new-authority" className="sr-only">New wallet address</Label>
+                        <Input
+                            id="new-authority"
+                            value={newAuthority}
+                            onChange={(e) => setNewAuthority(e.target.value)}
+                            placeholder="New wallet address"
+                        />
+                    </div>
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={handlePropose}
+                        disabled={isLoading || isSubmitting || newAuthority.trim().length === 0}
+                    >
+                        {isSubmitting ? "Proposing..." : "Propose"}
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { getErrorMessage } from "@/lib/errors";
+import { AccountWipeEvent } from "@/lib/solagram";
+import { useSolagramClient } from "./useSolagramClient";
+
+const LOG_KEY_PREFIX = "solagram:account-wipe:";
+
+export interface AccountWipeLogEntry extends AccountWipeEvent {
+  at: number;
+}
+
+// Deletes everything the connected wallet owns, then its profile. The log is
+// kept in localStorage until the wipe finishes, so a wipe interrupted by a
+// failed batch or a closed tab shows where it stopped and can be resumed.
+export function useAccountWipe() {
+  const wallet = useAnchorWallet();
+  const client = useSolagramClient();
+  const [log, setLog] = useState<AccountWipeLogEntry[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const storageKey = wallet ? `${LOG_KEY_PREFIX}${wallet.publicKey.toBase58()}` : null;
+
+  useEffect(() => {
+    setIsFinished(false);
+    if (!storageKey) {
+      setLog([]);
+      return;
+    }
+    const saved = localStorage.getItem(storageKey);
+    setLog(saved ? JSON.parse(saved) : []);
+  }, [storageKey]);
+
+  const append = useCallback((event: AccountWipeEvent) => {
+    setLog(prev => {
+      const next = [...prev, { ...event, at: Date.now() }];
+      if (storageKey) {
+        localStorage.setItem(storageKey, JSON.stringify(next));
+      }
+      return next;
+    });
+  }, [storageKey]);
+
+  const wipe = async () => {
+    if (!client || !wallet || !storageKey) {
+      throw new Error("Program or wallet not available");
+    }
+
+    setIsRunning(true);
+    try {
+      await client.wipeAccount(append);
+      localStorage.removeItem(storageKey);
+      setIsFinished(true);
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = getErrorMessage(err.error?.errorCode?.code) || err.message;
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return {
+    log,
+    isRunning,
+    isFinished,
+    // A stored log means an earlier wipe never finished
+    canResume: log.length > 0 && !isRunning && !isFinished,
+    wipe,
+  };
+}
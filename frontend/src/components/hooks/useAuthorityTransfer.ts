@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import { getErrorMessage } from "@/lib/errors";
+import { AuthorityTransfer, UserProfile } from "@/lib/solagram";
+import { useSolagramClient } from "./useSolagramClient";
+
+export interface IncomingTransfer {
+  transfer: AuthorityTransfer;
+  profile: UserProfile | null;
+}
+
+// Moving `profile` to another wallet, and taking over profiles that other
+// wallets offered to the connected one. A transfer is proposed by the current
+// authority and only takes effect once the new wallet accepts it.
+export function useAuthorityTransfer(profile: UserProfile | null) {
+  const wallet = useAnchorWallet();
+  const client = useSolagramClient();
+  const [outgoing, setOutgoing] = useState<AuthorityTransfer | null>(null);
+  const [incoming, setIncoming] = useState<IncomingTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const profileKey = profile?.publicKey.toBase58() ?? null;
+
+  const refresh = useCallback(async () => {
+    if (!wallet) {
+      setOutgoing(null);
+      setIncoming([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [pending, offers] = await Promise.all([
+        profileKey ? client.fetchAuthorityTransfer(new PublicKey(profileKey)) : null,
+        client.fetchIncomingAuthorityTransfers(wallet.publicKey),
+      ]);
+      const offeredProfiles = await Promise.all(
+        offers.map((offer) => client.fetchProfileByAddress(offer.profile))
+      );
+      setOutgoing(pending);
+      setIncoming(offers.map((transfer, index) => ({ transfer, profile: offeredProfiles[index] })));
+    } catch (err) {
+      console.error("Error fetching authority transfers:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, wallet, profileKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<string>) => {
+    try {
+      const tx = await action();
+      await refresh();
+      return { success: true, tx };
+    } catch (err: any) {
+      const errorMessage = getErrorMessage(err.error?.errorCode?.code) || err.message;
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const propose = (newAuthority: PublicKey) => run(() => client.proposeAuthorityTransfer(newAuthority));
+  const cancel = () => run(() => client.cancelAuthorityTransfer());
+  const accept = (profileAddress: PublicKey) => run(() => client.acceptAuthorityTransfer(profileAddress));
+
+  return {
+    outgoing,
+    incoming,
+    isLoading,
+    refresh,
+    propose,
+    cancel,
+    accept,
+  };
+}
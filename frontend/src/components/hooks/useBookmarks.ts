@@ -0,0 +1,133 @@
+import { useState, useCallback } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import { getErrorMessage } from "@/lib/errors";
+import { FeedPost } from "@/lib/solagram";
+import { useSolagramClient } from "./useSolagramClient";
+
+// The connected wallet's saved posts. Bookmarks are ordinary program accounts,
+// so anyone can see what a wallet saved; they just aren't shown on public profiles.
+export function useBookmarks() {
+  const wallet = useAnchorWallet();
+  const client = useSolagramClient();
+  // Addresses of posts the wallet has bookmarked, among those checked so far
+  const [bookmarked, setBookmarked] = useState<Set<string>>(new Set());
+  const [pendingBookmarks, setPendingBookmarks] = useState<Set<string>>(new Set());
+  const [savedPosts, setSavedPosts] = useState<FeedPost[]>([]);
+  const [isLoadingSaved, setIsLoadingSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setPending = (postKey: string, pending: boolean) => {
+    setPendingBookmarks(prev => {
+      const next = new Set(prev);
+      if (pending) {
+        next.add(postKey);
+      } else {
+        next.delete(postKey);
+      }
+      return next;
+    });
+  };
+
+  // Batch check the wallet's bookmark PDAs for freshly loaded posts
+  const fetchBookmarkStatus = useCallback(async (postPdas: PublicKey[]) => {
+    if (!wallet) {
+      setBookmarked(new Set());
+      return;
+    }
+
+    try {
+      const found = await client.fetchBookmarkedSet(wallet.publicKey, postPdas);
+      setBookmarked(prev => {
+        const next = new Set(prev);
+        postPdas.forEach((postPda) => {
+          const postKey = postPda.toString();
+          if (found.has(postKey)) {
+            next.add(postKey);
+          } else {
+            next.delete(postKey);
+          }
+        });
+        return next;
+      });
+    } catch (err) {
+      console.error("Error fetching bookmarks:", err);
+    }
+  }, [client, wallet]);
+
+  // Saved posts, most recently saved first; posts deleted since are left out
+  const fetchSavedPosts = useCallback(async () => {
+    if (!wallet) {
+      setSavedPosts([]);
+      return;
+    }
+
+    setIsLoadingSaved(true);
+    setError(null);
+
+    try {
+      const posts = await client.fetchBookmarkedPosts(wallet.publicKey);
+      setSavedPosts(posts);
+      setBookmarked(prev => {
+        const next = new Set(prev);
+        posts.forEach((post) => next.add(post.publicKey.toString()));
+        return next;
+      });
+    } catch (err: any) {
+      setError(err.message);
+      console.error("Error fetching saved posts:", err);
+    } finally {
+      setIsLoadingSaved(false);
+    }
+  }, [client, wallet]);
+
+  const toggleBookmark = async (postPda: PublicKey) => {
+    if (!client || !wallet) {
+      throw new Error("Program or wallet not available");
+    }
+
+    const postKey = postPda.toString();
+    if (pendingBookmarks.has(postKey)) {
+      return { success: false, error: "Bookmark already in progress" };
+    }
+
+    const isBookmarked = bookmarked.has(postKey);
+    setPending(postKey, true);
+
+    try {
+      const tx = isBookmarked
+        ? await client.removeBookmark(postPda)
+        : await client.createBookmark(postPda);
+
+      setBookmarked(prev => {
+        const next = new Set(prev);
+        if (isBookmarked) {
+          next.delete(postKey);
+        } else {
+          next.add(postKey);
+        }
+        return next;
+      });
+      if (isBookmarked) {
+        setSavedPosts(prev => prev.filter((post) => !post.publicKey.equals(postPda)));
+      }
+      return { success: true, tx };
+    } catch (err: any) {
+      const errorMessage = getErrorMessage(err.error?.errorCode?.code);
+      return { success: false, error: errorMessage };
+    } finally {
+      setPending(postKey, false);
+    }
+  };
+
+  return {
+    bookmarked,
+    pendingBookmarks,
+    savedPosts,
+    isLoadingSaved,
+    error,
+    fetchBookmarkStatus,
+    fetchSavedPosts,
+    toggleBookmark,
+  };
+}
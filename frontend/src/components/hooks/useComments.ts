@@ -1,82 +1,116 @@
-import { useState, useEffect, useMemo, useCallback, useRef } from "react";
-import { useConnection, useAnchorWallet } from "@solana/wallet-adapter-react";
-import { PublicKey, SystemProgram } from "@solana/web3.js";
-import { Program, AnchorProvider } from "@coral-xyz/anchor";
-import idl from "@/anchor-idl/idl.json";
-import { SolanaInstagram } from "@/anchor-idl/idl";
-import crypto from "crypto";
+import { useState, useCallback, useMemo, useRef } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
 import { getErrorMessage } from "@/lib/errors";
+import { Comment, withIndexerFallback } from "@/lib/solagram";
+import { useIndexerApi } from "./useIndexerApi";
 import { useUserProfile } from "./useUserProfile";
+import { useSolagramClient } from "./useSolagramClient";
+import { useSolagramEvents } from "./useSolagramEvents";
 
-export interface Comment {
-  post: PublicKey;
-  commentBy: PublicKey;
-  content: string;
-  createdAt: number;
-  updatedAt: number;
+export type { Comment } from "@/lib/solagram";
+
+// A comment with its replies, oldest first
+export type CommentNode = Comment & { replies: CommentNode[] };
+
+// "oldest" keeps conversation order; "likes" puts the most liked first
+export type CommentSort = "oldest" | "likes";
+
+export interface UseCommentsOptions {
+  sortBy?: CommentSort;
+}
+
+function compareComments(sortBy: CommentSort) {
+  return (a: CommentNode, b: CommentNode) => (
+    sortBy === "likes" && b.likeCount !== a.likeCount
+      ? b.likeCount - a.likeCount
+      : a.createdAt - b.createdAt
+  );
 }
 
-export function useComments() {
-  const { connection } = useConnection();
+// Arrange a post's comments into threads, each level ordered by `sortBy`.
+// Replies whose parent was deleted are shown as top-level comments rather than hidden.
+function buildThreads(comments: Comment[], sortBy: CommentSort): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  comments.forEach((comment) => nodes.set(comment.publicKey.toString(), { ...comment, replies: [] }));
+
+  const roots: CommentNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parent ? nodes.get(node.parent.toString()) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const compare = compareComments(sortBy);
+  const sortLevel = (nodes: CommentNode[]) => {
+    nodes.sort(compare);
+    nodes.forEach((node) => sortLevel(node.replies));
+  };
+  sortLevel(roots);
+  return roots;
+}
+
+export function useComments({ sortBy = "oldest" }: UseCommentsOptions = {}) {
   const wallet = useAnchorWallet();
+  const client = useSolagramClient();
+  const indexer = useIndexerApi();
   const [comments, setComments] = useState<Comment[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { profilePda } = useUserProfile();
   const fetchingRef = useRef<string | null>(null); // Track which post is being fetched
-
-  // Program ID from your Anchor.toml
-  const PROGRAM_ID = new PublicKey("o7WMnMvBfhf21mXMeoi2yAdmfiCsEaKGZE3DHT1E1qF");
-
-  // Create Anchor provider
-  const provider = useMemo(() => {
-    if (!wallet) return null;
-    return new AnchorProvider(connection, wallet, {
-      commitment: "confirmed",
-      preflightCommitment: "confirmed",
-    });
-  }, [connection, wallet]);
-
-  // Create program instance
-  const program = useMemo(() => {
-    if (!provider) return null;
-    return new Program<SolanaInstagram>(idl as SolanaInstagram, provider);
-  }, [provider]);
-
-  // Derive PDA for comment
-  const deriveCommentPda = (postPda: PublicKey, content: string): PublicKey | null => {
-    if (!wallet) return null;
-    return PublicKey.findProgramAddressSync([
-      Buffer.from("comment"),
-      postPda.toBuffer(),
-      wallet.publicKey.toBuffer(),
-      crypto.createHash('sha256').update(Buffer.from(content, 'utf8')).digest().slice(0, 4)
-    ], PROGRAM_ID)[0];
-  };
+  const loadedPostRef = useRef<PublicKey | null>(null); // Post whose comments are shown
+  const threads = useMemo(() => buildThreads(comments, sortBy), [comments, sortBy]);
+  // Comments the connected wallet has liked, and those with a like in flight
+  const [likedComments, setLikedComments] = useState<Set<string>>(new Set());
+  const [likingComments, setLikingComments] = useState<Set<string>>(new Set());
 
   // Add comment to a post
   const addComment = async (postPda: PublicKey, content: string) => {
-    if (!program || !wallet || !profilePda) {
+    if (!client || !wallet || !profilePda) {
       throw new Error("Program, wallet, or profile not available");
     }
 
     try {
-      const commentPda = deriveCommentPda(postPda, content);
-      if (!commentPda) {
-        throw new Error("Failed to derive comment PDA");
-      }
+      const tx = await client.createComment(postPda, content);
 
-      const tx = await program.methods
-        .createComment(content)
-        .accounts({
-          commenter: wallet.publicKey,
-          comment: commentPda,
-          post: postPda,
-        })
-        .rpc();
+      return { success: true, tx };
+    } catch (err: any) {
+      const errorMessage = getErrorMessage(err.error?.errorCode?.code);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // Reply to a comment (or to another reply) on the same post
+  const addReply = async (parent: Comment, content: string) => {
+    if (!client || !wallet || !profilePda) {
+      throw new Error("Program, wallet, or profile not available");
+    }
+
+    try {
+      const tx = await client.createReply(parent.publicKey, content);
+
+      return { success: true, tx };
+    } catch (err: any) {
+      const errorMessage = getErrorMessage(err.error?.errorCode?.code);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // Edit one of the wallet's own comments
+  const updateComment = async (comment: Comment, content: string) => {
+    if (!client || !wallet) {
+      throw new Error("Program or wallet not available");
+    }
+
+    try {
+      const tx = await client.updateComment(comment.publicKey, content);
 
       // Refresh comments for this post
-      await fetchCommentsForPost(postPda);
+      await fetchCommentsForPost(comment.post);
       return { success: true, tx };
     } catch (err: any) {
       const errorMessage = getErrorMessage(err.error?.errorCode?.code);
@@ -84,47 +118,128 @@ export function useComments() {
     }
   };
 
+  // Delete a comment written by the wallet or left on one of its posts
+  const deleteComment = async (comment: Comment) => {
+    if (!client || !wallet) {
+      throw new Error("Program or wallet not available");
+    }
+
+    try {
+      const tx = await client.deleteComment(comment);
+
+      setComments(prev => prev
+        .filter((c) => !c.publicKey.equals(comment.publicKey))
+        .map((c) => (
+          comment.parent && c.publicKey.equals(comment.parent)
+            ? { ...c, replyCount: Math.max(0, c.replyCount - 1) }
+            : c
+        )));
+      return { success: true, tx };
+    } catch (err: any) {
+      const errorMessage = getErrorMessage(err.error?.errorCode?.code);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // New comments and replies on the loaded post, including the wallet's own,
+  // are added from their events instead of refetching the whole post
+  useSolagramEvents({
+    onCommentAdded: async (event) => {
+      if (!client || !loadedPostRef.current?.equals(event.post)) return;
+
+      try {
+        const added = await client.fetchComment(event.comment);
+        if (!added) return;
+        setComments(prev => {
+          if (prev.some((c) => c.publicKey.equals(event.comment))) return prev;
+          const updated = prev.map((c) => (
+            event.parent && c.publicKey.equals(event.parent)
+              ? { ...c, replyCount: c.replyCount + 1 }
+              : c
+          ));
+          return [...updated, added];
+        });
+      } catch (err) {
+        console.error("Failed to fetch added comment:", err);
+      }
+    },
+  });
+
+  // Like or unlike a comment, updating its count in place
+  const toggleLike = async (comment: Comment) => {
+    if (!client || !wallet) {
+      throw new Error("Program or wallet not available");
+    }
+
+    const key = comment.publicKey.toString();
+    if (likingComments.has(key)) {
+      return { success: false, error: "Like already in progress" };
+    }
+
+    const liked = likedComments.has(key);
+    setLikingComments(prev => new Set(prev).add(key));
+
+    try {
+      const tx = liked
+        ? await client.unlikeComment(comment.publicKey)
+        : await client.likeComment(comment.publicKey);
+
+      setLikedComments(prev => {
+        const next = new Set(prev);
+        if (liked) {
+          next.delete(key);
+        } else {
+          next.add(key);
+        }
+        return next;
+      });
+      setComments(prev => prev.map((c) => (
+        c.publicKey.equals(comment.publicKey)
+          ? { ...c, likeCount: Math.max(0, c.likeCount + (liked ? -1 : 1)) }
+          : c
+      )));
+      return { success: true, tx };
+    } catch (err: any) {
+      const errorMessage = getErrorMessage(err.error?.errorCode?.code);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLikingComments(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
   // OPTIMIZED: Fetch comments with duplicate call prevention
   const fetchCommentsForPost = useCallback(async (postPda: PublicKey) => {
-    if (!program) return;
+    if (!client) return;
 
     const postKey = postPda.toString();
-    
+
     // Prevent duplicate calls for the same post
     if (fetchingRef.current === postKey) {
       return;
     }
 
     fetchingRef.current = postKey;
+    loadedPostRef.current = postPda;
     setIsLoading(true);
     setError(null);
 
     try {
-      // 1 RPC call: Fetch all comments for this post
-      const postComments = await program.account.comment.all([
-        {
-          memcmp: {
-            offset: 8, // Skip discriminator
-            bytes: postPda.toBase58()
-          }
-        }
-      ]);
-
-      // Convert to our interface format
-      const commentsList: Comment[] = postComments.map((commentAccount) => {
-        const commentData = commentAccount.account;
-        return {
-          post: commentData.post,
-          commentBy: commentData.commentBy,
-          content: commentData.content,
-          createdAt: commentData.createdAt.toNumber(),
-          updatedAt: commentData.updatedAt.toNumber(),
-        };
-      });
-
-      // Sort by creation time (oldest first)
-      commentsList.sort((a, b) => a.createdAt - b.createdAt);
-      setComments(commentsList);
+      // 1 RPC call (or indexer request): Fetch all comments for this post, oldest first
+      const fetched = await withIndexerFallback(
+        indexer,
+        (api) => api.fetchComments(postPda),
+        () => client.fetchComments(postPda)
+      );
+      // 1 more with a wallet: which of them it has liked
+      const liked = wallet
+        ? await client.fetchLikedCommentSet(wallet.publicKey, fetched.map((comment) => comment.publicKey))
+        : new Set<string>();
+      setComments(fetched);
+      setLikedComments(liked);
     } catch (err: any) {
       setError(err.message);
       console.error("Error fetching comments:", err);
@@ -132,13 +247,20 @@ export function useComments() {
       setIsLoading(false);
       fetchingRef.current = null;
     }
-  }, [program]);
+  }, [client, indexer, wallet]);
 
   return {
     comments,
+    threads,
+    likedComments,
+    likingComments,
     isLoading,
     error,
     addComment,
+    addReply,
+    updateComment,
+    deleteComment,
+    toggleLike,
     fetchCommentsForPost,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,208 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { FeedPage, FeedPost, Post, PostCursor, withIndexerFallback } from "@/lib/solagram";
+import { useIndexerApi } from "./useIndexerApi";
+import { useSolagramClient } from "./useSolagramClient";
+import { useSolagramEvents } from "./useSolagramEvents";
+
+const PAGE_SIZE = 10;
+
+// "forYou" is every post on the program; "following" only posts by creators the
+// connected wallet follows
+export type FeedKind = "forYou" | "following";
+
+export interface UseFeedOptions {
+  pageSize?: number;
+  // Called with the on-chain state of a shown post each time its account changes
+  onPostChanged?: (post: Post) => void;
+}
+
+// Feed posts, newest first, loaded a page at a time. The global feed works
+// without a wallet through the read-only client.
+//
+// While mounted the feed follows every post account, so shown posts are updated
+// in place. Posts announced by `PostCreated` collect in `newPosts` until
+// `showNewPosts` moves them into the list.
+export function useFeed(kind: FeedKind = "forYou", { pageSize = PAGE_SIZE, onPostChanged }: UseFeedOptions = {}) {
+  const wallet = useAnchorWallet();
+  const client = useSolagramClient();
+  const indexer = useIndexerApi();
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [newPosts, setNewPosts] = useState<FeedPost[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<PostCursor | null>(null);
+  const fetchingRef = useRef(false);
+  // Bumped on every reset so pages requested for a previous feed are dropped
+  const generationRef = useRef(0);
+  // Read by the account subscription, which outlives renders
+  const postsRef = useRef<FeedPost[]>([]);
+  const newPostsRef = useRef<FeedPost[]>([]);
+  const onPostChangedRef = useRef(onPostChanged);
+  // Profiles the connected wallet followed when the following feed was opened
+  const followedRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    postsRef.current = posts;
+    newPostsRef.current = newPosts;
+    onPostChangedRef.current = onPostChanged;
+  });
+
+  // The global feed does not depend on the wallet, so connecting one keeps it
+  const followerWallet = kind === "following" ? wallet : undefined;
+
+  const fetchPage = useCallback(async (reset: boolean) => {
+    // Prevent duplicate "load more" calls; a reset always wins
+    if (fetchingRef.current && !reset) {
+      return;
+    }
+
+    const generation = reset ? ++generationRef.current : generationRef.current;
+    fetchingRef.current = true;
+    if (reset) {
+      cursorRef.current = null;
+      setPosts([]);
+      setNewPosts([]);
+      setIsLoading(true);
+    } else {
+      setIsLoadingMore(true);
+    }
+    setError(null);
+
+    try {
+      const follower = followerWallet?.publicKey ?? null;
+      if (kind === "following" && !follower) {
+        setHasMore(false);
+        return;
+      }
+
+      const cursor = cursorRef.current;
+      const fromRpc = async (): Promise<FeedPage> => {
+        const page = follower
+          ? await client.fetchFollowingPostPage(follower, cursor, pageSize)
+          : await client.fetchPostPage(cursor, pageSize);
+        return { posts: await client.withCreatorHandles(page.posts), nextCursor: page.nextCursor };
+      };
+      // The indexer serves the global feed; both use the same cursors
+      const page = follower
+        ? await fromRpc()
+        : await withIndexerFallback(indexer, (api) => api.fetchFeedPage(cursor, pageSize), fromRpc);
+      if (generation !== generationRef.current) return;
+
+      setPosts(prev => {
+        const seen = new Set(prev.map((post) => post.publicKey.toString()));
+        return [...prev, ...page.posts.filter((post) => !seen.has(post.publicKey.toString()))];
+      });
+      // A post that arrived live while the first page loaded may be on it
+      const loaded = new Set(page.posts.map((post) => post.publicKey.toString()));
+      setNewPosts(prev => prev.filter((post) => !loaded.has(post.publicKey.toString())));
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
+    } catch (err: any) {
+      if (generation !== generationRef.current) return;
+      console.error("Error fetching posts:", err);
+      setError(err.message || "Failed to fetch posts");
+    } finally {
+      if (generation === generationRef.current) {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+        fetchingRef.current = false;
+      }
+    }
+  }, [client, indexer, followerWallet, kind, pageSize]);
+
+  const refresh = useCallback(() => fetchPage(true), [fetchPage]);
+
+  // The following feed only takes new posts from the profiles followed when it
+  // was opened
+  useEffect(() => {
+    followedRef.current = null;
+    const follower = followerWallet?.publicKey ?? null;
+    if (!follower) return;
+
+    let active = true;
+    client.fetchFollowedProfileAddresses(follower)
+      .then((addresses) => {
+        if (active) followedRef.current = new Set(addresses.map((address) => address.toBase58()));
+      })
+      .catch((err) => console.error("Error fetching followed profiles:", err));
+
+    return () => {
+      active = false;
+    };
+  }, [client, followerWallet]);
+
+  // Follow post accounts for as long as this feed is shown. Only posts already
+  // in the list or waiting in `newPosts` are updated; reactions and comments on
+  // posts from later pages are left for when those pages load.
+  useEffect(() => {
+    if (kind === "following" && !followerWallet) return;
+
+    const replace = (post: Post) => (shown: FeedPost[]) => shown.map((existing) => (
+      existing.publicKey.equals(post.publicKey) ? { ...post, creatorHandle: existing.creatorHandle } : existing
+    ));
+
+    return client.subscribeToPosts((post) => {
+      const isShown = (list: FeedPost[]) => list.some((existing) => existing.publicKey.equals(post.publicKey));
+      if (isShown(postsRef.current)) {
+        setPosts(replace(post));
+        onPostChangedRef.current?.(post);
+      } else if (isShown(newPostsRef.current)) {
+        setNewPosts(replace(post));
+      }
+    });
+  }, [client, followerWallet, kind]);
+
+  // New posts wait in `newPosts` and deleted ones disappear from the list
+  useSolagramEvents({
+    onPostCreated: async (event) => {
+      if (kind === "following" && !followedRef.current?.has(event.profile.toBase58())) return;
+      const isShown = (list: FeedPost[]) => list.some((existing) => existing.publicKey.equals(event.post));
+      if (isShown(postsRef.current) || isShown(newPostsRef.current)) return;
+
+      const generation = generationRef.current;
+      try {
+        const created = await client.fetchPost(event.post);
+        if (!created) return;
+        const [withHandle] = await client.withCreatorHandles([created]);
+        if (generation !== generationRef.current || isShown(postsRef.current)) return;
+        setNewPosts(prev => isShown(prev) ? prev : [withHandle, ...prev]);
+      } catch (err) {
+        console.error("Error loading new post:", err);
+      }
+    },
+    onPostDeleted: (event) => {
+      setPosts(prev => prev.filter((post) => !post.publicKey.equals(event.post)));
+      setNewPosts(prev => prev.filter((post) => !post.publicKey.equals(event.post)));
+    },
+  });
+
+  // Put the posts that arrived since loading at the top of the list
+  const showNewPosts = useCallback(() => {
+    const arrived = [...newPostsRef.current].sort((a, b) => b.createdAt - a.createdAt);
+    setNewPosts([]);
+    setPosts(prev => {
+      const seen = new Set(prev.map((post) => post.publicKey.toString()));
+      return [...arrived.filter((post) => !seen.has(post.publicKey.toString())), ...prev];
+    });
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore) return;
+    await fetchPage(false);
+  }, [fetchPage, hasMore]);
+
+  return {
+    posts,
+    newPosts,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    error,
+    refresh,
+    loadMore,
+    showNewPosts,
+  };
+}
@@ -0,0 +1,133 @@
+import { useState, useCallback, useRef } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import { UserProfile } from "@/lib/solagram";
+import { ProfileWithFollowStatus, useProfiles } from "./useProfiles";
+import { useSolagramClient } from "./useSolagramClient";
+
+const PAGE_SIZE = 20;
+
+export type FollowListKind = "followers" | "following";
+
+// Who follows `authority` (or whom it follows), newest follow first. Follow
+// accounts are all loaded up front since they are small; the profiles behind
+// them and the viewer's follow status are loaded a page at a time.
+export function useFollowList(authority: PublicKey, kind: FollowListKind, pageSize = PAGE_SIZE) {
+  const wallet = useAnchorWallet();
+  const client = useSolagramClient();
+  const { batchCheckFollowStatus, followUser, unfollowUser } = useProfiles({ fetchAll: false });
+  const [profiles, setProfiles] = useState<ProfileWithFollowStatus[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Authorities on the other side of each follow, and how many are loaded
+  const authoritiesRef = useRef<PublicKey[]>([]);
+  const offsetRef = useRef(0);
+  // Bumped on every refresh so pages requested for a previous list are dropped
+  const generationRef = useRef(0);
+
+  const loadPage = useCallback(async (generation: number) => {
+    const start = offsetRef.current;
+    const authorities = authoritiesRef.current.slice(start, start + pageSize);
+    // Follows may name a profile by a wallet it has since been transferred from,
+    // so follow status is checked against each profile's current authority
+    const loaded = (await client.fetchProfilesByAuthority(authorities))
+      .filter((profile): profile is UserProfile => profile !== null);
+    const followStatusMap = await batchCheckFollowStatus(loaded.map((profile) => profile.authority));
+    if (generation !== generationRef.current) return;
+
+    const page = loaded.map((profile): ProfileWithFollowStatus => {
+      const followStatus = followStatusMap.get(profile.authority.toString()) || {
+        isFollowing: false,
+        followPda: null
+      };
+      return { ...profile, ...followStatus };
+    });
+
+    offsetRef.current = start + authorities.length;
+    setProfiles(prev => [...prev, ...page]);
+    setHasMore(offsetRef.current < authoritiesRef.current.length);
+  }, [client, batchCheckFollowStatus, pageSize]);
+
+  const refresh = useCallback(async () => {
+    const generation = ++generationRef.current;
+    setIsLoading(true);
+    setError(null);
+    setProfiles([]);
+
+    try {
+      const profile = await client.fetchProfile(authority);
+      const follows = !profile
+        ? []
+        : kind === "followers"
+          ? await client.fetchProfileFollowers(profile)
+          : await client.fetchProfileFollowing(profile);
+      if (generation !== generationRef.current) return;
+
+      authoritiesRef.current = follows
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map((follow) => (kind === "followers" ? follow.follower : follow.following));
+      offsetRef.current = 0;
+      await loadPage(generation);
+    } catch (err: any) {
+      if (generation !== generationRef.current) return;
+      setError(err.message);
+      console.error(`Error fetching ${kind}:`, err);
+    } finally {
+      if (generation === generationRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [client, authority, kind, loadPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || isLoadingMore) return;
+
+    const generation = generationRef.current;
+    setIsLoadingMore(true);
+    try {
+      await loadPage(generation);
+    } catch (err: any) {
+      setError(err.message);
+      console.error(`Error fetching ${kind}:`, err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [hasMore, isLoadingMore, kind, loadPage]);
+
+  // Follow or unfollow someone in the list, updating just their entry
+  const toggleFollow = async (profile: ProfileWithFollowStatus) => {
+    const result = profile.isFollowing
+      ? await unfollowUser(profile.authority)
+      : await followUser(profile.authority);
+
+    if (result.success && wallet) {
+      const isFollowing = !profile.isFollowing;
+      // New follows are addressed by the viewer's profile, not their wallet
+      const viewer = isFollowing ? await client.fetchProfile(wallet.publicKey) : null;
+      setProfiles(prev => prev.map((entry) => (
+        entry.authority.equals(profile.authority)
+          ? {
+            ...entry,
+            isFollowing,
+            followPda: viewer ? client.followPda(viewer.publicKey, profile.publicKey) : null,
+            followerCount: Math.max(0, entry.followerCount + (isFollowing ? 1 : -1)),
+          }
+          : entry
+      )));
+    }
+    return result;
+  };
+
+  return {
+    profiles,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    error,
+    refresh,
+    loadMore,
+    toggleFollow,
+  };
+}
@@ -0,0 +1,46 @@
+import { useState, useEffect } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { MAX_HANDLE_LENGTH } from "@/lib/solagram";
+import { useSolagramClient } from "./useSolagramClient";
+
+export type HandleAvailability = "idle" | "checking" | "available" | "taken" | "invalid";
+
+const CHECK_DELAY_MS = 400;
+
+// Checks the on-chain handle registry as the user types. `ownProfile` marks a
+// handle the user already holds as available, for the edit form.
+export function useHandleAvailability(handle: string, ownProfile?: PublicKey | null) {
+  const client = useSolagramClient();
+  const [status, setStatus] = useState<HandleAvailability>("idle");
+
+  useEffect(() => {
+    if (handle.length === 0) {
+      setStatus("idle");
+      return;
+    }
+    if (handle.length > MAX_HANDLE_LENGTH) {
+      setStatus("invalid");
+      return;
+    }
+
+    let cancelled = false;
+    setStatus("checking");
+
+    const timer = setTimeout(async () => {
+      try {
+        const available = await client.isHandleAvailable(handle, ownProfile ?? undefined);
+        if (!cancelled) setStatus(available ? "available" : "taken");
+      } catch (err) {
+        console.error("Error checking handle:", err);
+        if (!cancelled) setStatus("idle");
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [client, handle, ownProfile]);
+
+  return status;
+}
@@ -0,0 +1,14 @@
+import { useMemo } from "react";
+import { isIndexerApiEnabled, SolagramIndexerApi } from "@/lib/solagram";
+import { useCluster } from "@/components/provider/ClusterProvider";
+
+// The indexer API for the selected cluster's program, or null when
+// `NEXT_PUBLIC_SOLAGRAM_INDEXER` is off and every read goes to RPC
+export function useIndexerApi(): SolagramIndexerApi | null {
+  const { cluster } = useCluster();
+
+  return useMemo(
+    () => (isIndexerApiEnabled() ? new SolagramIndexerApi(cluster.programId) : null),
+    [cluster.programId]
+  );
+}
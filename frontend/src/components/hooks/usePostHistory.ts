@@ -0,0 +1,60 @@
+import { useState, useCallback } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { Post, PostRevision } from "@/lib/solagram";
+import { useSolagramClient } from "./useSolagramClient";
+
+export interface CaptionVersion {
+  content: string;
+  // When the caption was written, and when it was replaced (null for the current one)
+  writtenAt: number;
+  replacedAt: number | null;
+}
+
+// Every caption a post has had, newest first. Revision N was written when
+// revision N - 1 was replaced, and the first one when the post was created.
+function toVersions(post: Post, revisions: PostRevision[]): CaptionVersion[] {
+  const versions = revisions.map((revision, index): CaptionVersion => ({
+    content: revision.content,
+    writtenAt: index === 0 ? post.createdAt : revisions[index - 1].replacedAt,
+    replacedAt: revision.replacedAt,
+  }));
+  versions.push({
+    content: post.content,
+    writtenAt: revisions.length > 0 ? revisions[revisions.length - 1].replacedAt : post.createdAt,
+    replacedAt: null,
+  });
+  return versions.reverse();
+}
+
+export function usePostHistory() {
+  const client = useSolagramClient();
+  const [versions, setVersions] = useState<CaptionVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async (postPda: PublicKey) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // The post is reloaded so the current caption matches the revisions
+      const [post, revisions] = await Promise.all([
+        client.fetchPost(postPda),
+        client.fetchPostRevisions(postPda),
+      ]);
+      setVersions(post ? toVersions(post, revisions) : []);
+    } catch (err: any) {
+      setError(err.message);
+      console.error("Error fetching post history:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client]);
+
+  return {
+    versions,
+    isLoading,
+    error,
+    fetchHistory,
+  };
+}
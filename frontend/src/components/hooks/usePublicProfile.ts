@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { getErrorMessage } from "@/lib/errors";
+import { Post, UserProfile } from "@/lib/solagram";
+import { useSolagramClient } from "./useSolagramClient";
+import { useSolagramEvents } from "./useSolagramEvents";
+
+// Any user's profile, looked up by wallet address or handle, with its posts and
+// whether the connected wallet follows it
+export function usePublicProfile(id: string) {
+  const wallet = useAnchorWallet();
+  const client = useSolagramClient();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwnProfile = !!wallet && !!profile && profile.authority.equals(wallet.publicKey);
+
+  const fetchProfile = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const resolved = await client.resolveProfile(id);
+      setProfile(resolved);
+
+      if (!resolved) {
+        setPosts([]);
+        setIsFollowing(false);
+        return;
+      }
+
+      const [profilePosts, follow] = await Promise.all([
+        client.fetchPostsByProfile(resolved.publicKey),
+        wallet ? client.fetchFollowOf(wallet.publicKey, resolved) : null,
+      ]);
+      setPosts(profilePosts);
+      setIsFollowing(!!follow);
+    } catch (err: any) {
+      setError(err.message);
+      console.error("Error fetching profile:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, wallet, id]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  // Follower, following and post counts move with events from any wallet
+  useSolagramEvents({
+    onFollowed: (event) => {
+      if (profile?.publicKey.equals(event.followingProfile)) {
+        setProfile((prev) => prev && { ...prev, followerCount: prev.followerCount + 1 });
+        if (wallet?.publicKey.equals(event.follower)) setIsFollowing(true);
+      } else if (profile?.publicKey.equals(event.followerProfile)) {
+        setProfile((prev) => prev && { ...prev, followingCount: prev.followingCount + 1 });
+      }
+    },
+    onUnfollowed: (event) => {
+      if (profile?.publicKey.equals(event.followingProfile)) {
+        setProfile((prev) => prev && { ...prev, followerCount: Math.max(0, prev.followerCount - 1) });
+        if (wallet?.publicKey.equals(event.follower)) setIsFollowing(false);
+      } else if (profile?.publicKey.equals(event.followerProfile)) {
+        setProfile((prev) => prev && { ...prev, followingCount: Math.max(0, prev.followingCount - 1) });
+      }
+    },
+    onPostCreated: async (event) => {
+      if (!profile?.publicKey.equals(event.profile)) return;
+
+      try {
+        const created = await client.fetchPost(event.post);
+        if (!created) return;
+        setPosts((prev) => prev.some((p) => p.publicKey.equals(event.post)) ? prev : [created, ...prev]);
+        setProfile((prev) => prev && { ...prev, postCount: prev.postCount + 1 });
+      } catch (err) {
+        console.error("Failed to fetch created post:", err);
+      }
+    },
+    onPostDeleted: (event) => {
+      if (!profile?.publicKey.equals(event.profile)) return;
+      // `postCount` numbers posts for their addresses, so deleting one leaves it as is
+      setPosts((prev) => prev.filter((p) => !p.publicKey.equals(event.post)));
+    },
+  });
+
+  const toggleFollow = async () => {
+    if (!wallet || !profile) {
+      throw new Error("Program or wallet not available");
+    }
+
+    try {
+      const tx = isFollowing
+        ? await client.unfollowUser(profile.authority)
+        : await client.followUser(profile.authority);
+
+      // The counts follow from the Followed/Unfollowed event
+      setIsFollowing(!isFollowing);
+      return { success: true, tx };
+    } catch (err: any) {
+      const errorMessage = getErrorMessage(err.error?.errorCode?.code);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  return {
+    profile,
+    posts,
+    isFollowing,
+    isOwnProfile,
+    isLoading,
+    error,
+    toggleFollow,
+    refetch: fetchProfile,
+  };
+}
@@ -0,0 +1,150 @@
+import { useState, useCallback } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import { getErrorMessage } from "@/lib/errors";
+import { Post, ReactionKind, reactionCounts } from "@/lib/solagram";
+import { useSolagramClient } from "./useSolagramClient";
+
+type CountDeltas = Partial<Record<ReactionKind, number>>;
+
+export function useReactions() {
+  const wallet = useAnchorWallet();
+  const client = useSolagramClient();
+  // Connected wallet's reaction per post address
+  const [myReactions, setMyReactions] = useState<Map<string, ReactionKind>>(new Map());
+  // Optimistic counter changes not yet reflected in the fetched posts
+  const [deltas, setDeltas] = useState<Map<string, CountDeltas>>(new Map());
+  const [reactingPosts, setReactingPosts] = useState<Set<string>>(new Set());
+
+  const applyDelta = (postKey: string, kind: ReactionKind, change: number) => {
+    setDeltas(prev => {
+      const next = new Map(prev);
+      const postDeltas = { ...next.get(postKey) };
+      postDeltas[kind] = (postDeltas[kind] ?? 0) + change;
+      next.set(postKey, postDeltas);
+      return next;
+    });
+  };
+
+  const setMyReaction = (postKey: string, kind: ReactionKind | null) => {
+    setMyReactions(prev => {
+      const next = new Map(prev);
+      if (kind) {
+        next.set(postKey, kind);
+      } else {
+        next.delete(postKey);
+      }
+      return next;
+    });
+  };
+
+  const setReacting = (postKey: string, reacting: boolean) => {
+    setReactingPosts(prev => {
+      const next = new Set(prev);
+      if (reacting) {
+        next.add(postKey);
+      } else {
+        next.delete(postKey);
+      }
+      return next;
+    });
+  };
+
+  // Drop the optimistic changes for posts whose on-chain counts were reloaded
+  const settleCounts = useCallback((postPdas: PublicKey[]) => {
+    setDeltas(prev => {
+      const next = new Map(prev);
+      postPdas.forEach((postPda) => next.delete(postPda.toString()));
+      return next;
+    });
+  }, []);
+
+  // Batch fetch the wallet's reaction PDAs for freshly loaded posts, replacing
+  // what was known about those posts. Their pending deltas are dropped since the
+  // posts now carry on-chain counts; other posts keep theirs.
+  const fetchMyReactions = useCallback(async (postPdas: PublicKey[]) => {
+    if (!client || !wallet) {
+      setMyReactions(new Map());
+      return;
+    }
+
+    try {
+      const reactions = await client.fetchReactionsByUser(wallet.publicKey, postPdas);
+      const postKeys = postPdas.map((postPda) => postPda.toString());
+      setMyReactions(prev => {
+        const next = new Map(prev);
+        postKeys.forEach((postKey) => {
+          const reaction = reactions.get(postKey);
+          if (reaction) {
+            next.set(postKey, reaction.reactionType);
+          } else {
+            next.delete(postKey);
+          }
+        });
+        return next;
+      });
+      settleCounts(postPdas);
+    } catch (err: any) {
+      console.error("Error fetching reactions:", err);
+    }
+  }, [client, wallet, settleCounts]);
+
+  // Counts for a post including optimistic updates
+  const countsFor = (post: Post): Record<ReactionKind, number> => {
+    const counts = reactionCounts(post);
+    const postDeltas = deltas.get(post.publicKey.toString());
+    if (postDeltas) {
+      (Object.keys(postDeltas) as ReactionKind[]).forEach((kind) => {
+        counts[kind] = Math.max(0, counts[kind] + (postDeltas[kind] ?? 0));
+      });
+    }
+    return counts;
+  };
+
+  // Picking a new reaction creates it, picking another one switches it,
+  // and picking the current one again takes it back
+  const react = async (postPda: PublicKey, kind: ReactionKind) => {
+    if (!client || !wallet) {
+      throw new Error("Program or wallet not available");
+    }
+
+    const postKey = postPda.toString();
+    const previous = myReactions.get(postKey) ?? null;
+    const next = previous === kind ? null : kind;
+
+    setReacting(postKey, true);
+    setMyReaction(postKey, next);
+    if (previous) applyDelta(postKey, previous, -1);
+    if (next) applyDelta(postKey, next, 1);
+
+    try {
+      let tx: string;
+      if (!previous) {
+        tx = await client.createReaction(postPda, kind);
+      } else if (next) {
+        tx = await client.updateReaction(postPda, next);
+      } else {
+        tx = await client.removeReaction(postPda);
+      }
+      return { success: true, tx };
+    } catch (err: any) {
+      // Roll back the optimistic update
+      setMyReaction(postKey, previous);
+      if (next) applyDelta(postKey, next, -1);
+      if (previous) applyDelta(postKey, previous, 1);
+      const errorMessage = getErrorMessage(err.error?.errorCode?.code);
+      return { success: false, error: errorMessage };
+    } finally {
+      setReacting(postKey, false);
+    }
+  };
+
+  return {
+    myReactions,
+    reactingPosts,
+    countsFor,
+    fetchMyReactions,
+    settleCounts,
+    react,
+  };
+}
@@ -0,0 +1,15 @@
+import { useCallback } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
+import { useWalletModal } from "@solana/wallet-adapter-react-ui";
+
+// Gate for write actions: opens the wallet modal and returns false when no wallet is connected
+export function useRequireWallet() {
+  const wallet = useAnchorWallet();
+  const { setVisible } = useWalletModal();
+
+  return useCallback(() => {
+    if (wallet) return true;
+    setVisible(true);
+    return false;
+  }, [wallet, setVisible]);
+}
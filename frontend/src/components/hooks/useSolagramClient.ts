@@ -0,0 +1,23 @@
+import { useMemo } from "react";
+import { useConnection, useAnchorWallet } from "@solana/wallet-adapter-react";
+import { AnchorProvider } from "@coral-xyz/anchor";
+import { SolagramClient } from "@/lib/solagram";
+import { useCluster } from "@/components/provider/ClusterProvider";
+
+// Shared client bound to the connected wallet, or a read-only client built from
+// the connection alone so anonymous visitors can still browse. Uses the program
+// deployed on the cluster picked in the navbar.
+export function useSolagramClient(): SolagramClient {
+  const { connection } = useConnection();
+  const wallet = useAnchorWallet();
+  const { cluster } = useCluster();
+
+  return useMemo(() => {
+    if (!wallet) return SolagramClient.readOnly(connection, cluster.programId);
+    const provider = new AnchorProvider(connection, wallet, {
+      commitment: "confirmed",
+      preflightCommitment: "confirmed",
+    });
+    return SolagramClient.fromProvider(provider, cluster.programId);
+  }, [connection, wallet, cluster.programId]);
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef } from "react";
+import { SolagramEventHandlers } from "@/lib/solagram";
+import { useSolagramClient } from "./useSolagramClient";
+
+// Listens to program events while the component is mounted. The latest
+// `handlers` are called each time, so they can use fresh state without the
+// subscription being recreated on every render.
+export function useSolagramEvents(handlers: SolagramEventHandlers) {
+  const client = useSolagramClient();
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => client.subscribeToEvents({
+    onProfileCreated: (event, context) => handlersRef.current.onProfileCreated?.(event, context),
+    onPostCreated: (event, context) => handlersRef.current.onPostCreated?.(event, context),
+    onPostDeleted: (event, context) => handlersRef.current.onPostDeleted?.(event, context),
+    onCommentAdded: (event, context) => handlersRef.current.onCommentAdded?.(event, context),
+    onReactionAdded: (event, context) => handlersRef.current.onReactionAdded?.(event, context),
+    onFollowed: (event, context) => handlersRef.current.onFollowed?.(event, context),
+    onUnfollowed: (event, context) => handlersRef.current.onUnfollowed?.(event, context),
+  }), [client]);
+}
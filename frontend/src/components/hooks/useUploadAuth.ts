@@ -0,0 +1,52 @@
+import { useCallback } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { utils } from "@coral-xyz/anchor";
+import {
+  createSignInMessage,
+  encodeMessageHeader,
+  SignInNonce,
+  SIWS_ADDRESS_HEADER,
+  SIWS_MESSAGE_HEADER,
+  SIWS_SIGNATURE_HEADER,
+} from "@/lib/siws";
+
+// Returns an async `headers` provider for UploadThing's `UploadButton`: signs a
+// Sign-In-With-Solana message with the connected wallet and attaches it to the
+// request. The server accepts each signed message once, so every upload asks
+// the wallet to sign.
+export function useUploadAuth() {
+  const { publicKey, signMessage } = useWallet();
+
+  return useCallback(async (): Promise<Record<string, string>> => {
+    if (!publicKey) {
+      throw new Error("Connect your wallet to upload");
+    }
+    if (!signMessage) {
+      throw new Error("This wallet does not support message signing");
+    }
+
+    const address = publicKey.toBase58();
+
+    const response = await fetch("/api/auth/nonce", { cache: "no-store" });
+    if (!response.ok) {
+      throw new Error("Failed to start wallet sign-in");
+    }
+    const { nonce, issuedAt, expirationTime }: SignInNonce = await response.json();
+
+    const message = createSignInMessage({
+      domain: window.location.host,
+      address,
+      uri: window.location.origin,
+      nonce,
+      issuedAt,
+      expirationTime,
+    });
+    const signature = await signMessage(new TextEncoder().encode(message));
+
+    return {
+      [SIWS_ADDRESS_HEADER]: address,
+      [SIWS_MESSAGE_HEADER]: encodeMessageHeader(message),
+      [SIWS_SIGNATURE_HEADER]: utils.bytes.bs58.encode(signature),
+    };
+  }, [publicKey, signMessage]);
+}
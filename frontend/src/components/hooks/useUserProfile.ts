@@ -1,68 +1,33 @@
-import { useState, useEffect, useMemo, useCallback, useRef } from "react";
-import { useConnection, useAnchorWallet } from "@solana/wallet-adapter-react";
-import { PublicKey, SystemProgram } from "@solana/web3.js";
-import { Program, AnchorProvider } from "@coral-xyz/anchor";
-import idl from "@/anchor-idl/idl.json";
-import { SolanaInstagram } from "@/anchor-idl/idl";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useAnchorWallet } from "@solana/wallet-adapter-react";
 import { getErrorMessage } from "@/lib/errors";
+import { UserProfile } from "@/lib/solagram";
+import { useSolagramClient } from "./useSolagramClient";
 
-export interface UserProfile {
-  authority: PublicKey;
-  handle: string;
-  bio: string;
-  avatarUri: string;
-  createdAt: number;
-  updatedAt: number;
-  followerCount: number;
-  followingCount: number;
-}
+export type { UserProfile } from "@/lib/solagram";
 
 export function useUserProfile() {
-  const { connection } = useConnection();
   const wallet = useAnchorWallet();
+  const client = useSolagramClient();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fetchingRef = useRef(false);
   const lastWalletRef = useRef<string | null>(null);
 
-  // Program ID from your Anchor.toml
-  const PROGRAM_ID = new PublicKey("o7WMnMvBfhf21mXMeoi2yAdmfiCsEaKGZE3DHT1E1qF");
-
-  // Create Anchor provider
-  const provider = useMemo(() => {
-    if (!wallet) return null;
-    return new AnchorProvider(connection, wallet, {
-      commitment: "confirmed",
-      preflightCommitment: "confirmed",
-    });
-  }, [connection, wallet]);
-
-  // Create program instance
-  const program = useMemo(() => {
-    if (!provider) return null;
-    return new Program<SolanaInstagram>(idl as SolanaInstagram, provider);
-  }, [provider]);
-
-  // Derive PDA for profile
-  const profilePda = useMemo(() => {
-    if (!wallet) return null;
-    return PublicKey.findProgramAddressSync([Buffer.from("profile"), wallet.publicKey.toBuffer()], PROGRAM_ID)[0];
-  }, [wallet]);
+  // Looked up by the profile's current authority rather than derived from the
+  // wallet, since a transferred profile keeps the address of the wallet that created it
+  const profilePda = profile?.publicKey ?? null;
 
   const updateProfile = async (handle: string, bio: string, avatarUri: string) => {
-    if (!program || !profilePda || !wallet) {
+    if (!client || !profilePda || !wallet) {
       throw new Error("Program or profile PDA or wallet not available");
     }
 
     try {
-      const tx = await program.methods
-        .updateUserProfile(handle, bio, avatarUri)
-        .accounts({
-          user: wallet.publicKey,
-        }).rpc();
+      const tx = await client.updateProfile({ handle, bio, avatarUri });
 
-      await fetchProfile();
+      await fetchProfile({ force: true });
       return { success: true, tx };
     } catch (err: any) {
       const errorMessage = getErrorMessage(err.error?.errorCode?.code);
@@ -70,9 +35,11 @@ export function useUserProfile() {
     }
   }
 
-  // Memoized fetch function with duplicate call prevention
-  const fetchProfile = useCallback(async () => {
-    if (!program || !profilePda) {
+  // Memoized fetch function with duplicate call prevention. `force` reads the
+  // account again even when this wallet's profile is already loaded, so edits
+  // and deletions show up without a reload
+  const fetchProfile = useCallback(async ({ force = false }: { force?: boolean } = {}) => {
+    if (!client || !wallet) {
       setProfile(null);
       return;
     }
@@ -84,7 +51,7 @@ export function useUserProfile() {
 
     // Check if wallet changed - if same wallet, skip if already fetched
     const currentWalletKey = wallet?.publicKey.toString() || null;
-    if (currentWalletKey === lastWalletRef.current && profile !== null) {
+    if (!force && currentWalletKey === lastWalletRef.current && profile !== null) {
       return;
     }
 
@@ -93,43 +60,28 @@ export function useUserProfile() {
     setError(null);
 
     try {
-      const profileAccount = await program.account.userProfile.fetch(profilePda);
-
-      const userProfile: UserProfile = {
-        authority: profileAccount.authority,
-        handle: profileAccount.handle,
-        bio: profileAccount.bio,
-        followerCount: profileAccount.followerCount.toNumber(),
-        followingCount: profileAccount.followingCount.toNumber(),
-        avatarUri: profileAccount.avatarUri,
-        createdAt: profileAccount.createdAt.toNumber(),
-        updatedAt: profileAccount.updatedAt.toNumber(),
-      };
-
-      setProfile(userProfile);
+      setProfile(await client.fetchProfile(wallet.publicKey));
       lastWalletRef.current = currentWalletKey;
     } catch (err: any) {
-      if (err.message.includes("Account does not exist")) {
-        setProfile(null);
-      } else {
-        setError(err.message);
-        console.error("Error fetching profile:", err);
-      }
+      setError(err.message);
+      console.error("Error fetching profile:", err);
       lastWalletRef.current = currentWalletKey;
     } finally {
       setIsLoading(false);
       fetchingRef.current = false;
     }
-  }, [program, profilePda, wallet, profile]);
+  }, [client, wallet, profile]);
 
   useEffect(() => {
-    if (wallet && program && profilePda) {
+    if (wallet && client) {
       fetchProfile();
     } else {
       setProfile(null);
       lastWalletRef.current = null;
     }
-  }, [wallet, program, profilePda, fetchProfile]);
+  }, [wallet, client, fetchProfile]);
+
+  const refetch = useCallback(() => fetchProfile({ force: true }), [fetchProfile]);
 
   return {
     profile,
@@ -137,6 +89,6 @@ export function useUserProfile() {
     isLoading,
     error,
     profilePda,
-    refetch: fetchProfile,
+    refetch,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import {
+    ClusterConfig,
+    customCluster,
+    DEFAULT_CLUSTER,
+    isClusterName,
+    namedCluster,
+} from "@/lib/solagram";
+
+const STORAGE_KEY = "solagram:cluster";
+
+// Named clusters are stored by name only, so endpoint and program ID changes
+// in a new build reach browsers that picked them earlier
+type StoredCluster =
+    | { name: string }
+    | { name: "custom"; endpoint: string; programId: string };
+
+function loadCluster(): ClusterConfig | null {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (!saved) return null;
+
+        const stored: StoredCluster = JSON.parse(saved);
+        if (isClusterName(stored.name)) return namedCluster(stored.name);
+        if (stored.name === "custom" && "endpoint" in stored) {
+            return customCluster(stored.endpoint, new PublicKey(stored.programId));
+        }
+    } catch {
+        // Unreadable entries fall back to the default cluster
+    }
+    return null;
+}
+
+function saveCluster(cluster: ClusterConfig) {
+    const stored: StoredCluster = cluster.name === "custom"
+        ? { name: "custom", endpoint: cluster.endpoint, programId: cluster.programId.toBase58() }
+        : { name: cluster.name };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+interface ClusterContextValue {
+    cluster: ClusterConfig;
+    setCluster: (cluster: ClusterConfig) => void;
+}
+
+const ClusterContext = createContext<ClusterContextValue>({
+    cluster: namedCluster(DEFAULT_CLUSTER),
+    setCluster: () => {},
+});
+
+// The cluster the app talks to, picked in the navbar and remembered per browser
+export function ClusterProvider({
+    children,
+}: Readonly<{
+    children: React.ReactNode;
+}>) {
+    const [cluster, setClusterState] = useState<ClusterConfig>(() => namedCluster(DEFAULT_CLUSTER));
+
+    // localStorage only exists in the browser, so the saved choice is applied after hydrating
+    useEffect(() => {
+        const saved = loadCluster();
+        if (saved) {
+            setClusterState(saved);
+        }
+    }, []);
+
+    const setCluster = useCallback((next: ClusterConfig) => {
+        saveCluster(next);
+        setClusterState(next);
+    }, []);
+
+    const value = useMemo(() => ({ cluster, setCluster }), [cluster, setCluster]);
+
+    return (
+        <ClusterContext.Provider value={value}>
+            {children}
+        </ClusterContext.Provider>
+    );
+}
+
+export function useCluster(): ClusterContextValue {
+    return useContext(ClusterContext);
+}
@@ -5,22 +5,25 @@ import {
     ConnectionProvider,
     WalletProvider,
 } from "@solana/wallet-adapter-react";
-import { WalletAdapterNetwork } from "@solana/wallet-adapter-base";
 import { WalletModalProvider } from "@solana/wallet-adapter-react-ui";
-import { clusterApiUrl } from "@solana/web3.js";
 import "@solana/wallet-adapter-react-ui/styles.css";
+import { createWalletAdapters } from "@/lib/wallets";
+import { useCluster } from "./ClusterProvider";
 
 export default function Provider({
     children,
 }: Readonly<{
     children: React.ReactNode;
 }>) {
-    const network = WalletAdapterNetwork.Devnet;
-    const endpoint = useMemo(() => process.env.NEXT_PUBLIC_SOLANA_RPC_ENDPOINT ?? clusterApiUrl(network), [network]);
+    const { cluster } = useCluster();
+    // Switching clusters remounts the app so nothing loaded from the previous
+    // cluster or program is shown against the new one
+    const clusterKey = `${cluster.endpoint}|${cluster.programId.toBase58()}`;
+    const wallets = useMemo(() => createWalletAdapters(cluster), [cluster]);
 
     return (
-        <ConnectionProvider endpoint={endpoint} >
-            <WalletProvider wallets={[]} autoConnect>
+        <ConnectionProvider key={clusterKey} endpoint={cluster.endpoint} >
+            <WalletProvider wallets={wallets} autoConnect>
                 <WalletModalProvider>
                     {children}
                 </WalletModalProvider>
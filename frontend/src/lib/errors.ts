@@ -5,12 +5,27 @@ export const INSTAGRAM_ERRORS: { [key: string]: string } = {
     'InvalidBioLength': 'Bio must be between 1-160 characters', 
     'InvalidAvatarUriLength': 'Avatar URI must be between 1-200 characters',
     'NoFieldsToUpdate': 'Please provide at least one field to update',
+    'HandleTaken': 'This handle is already taken',
+    'MissingHandleRecord': 'Handle registry account is missing',
+    'InvalidNewAuthority': 'Transfer the profile to a different wallet',
+    'AuthorityHasProfile': 'That wallet already has a profile',
+    'ProfileTooNew': 'Wait a moment before deleting a profile you just created',
     
     // Post errors
     'InvalidContentLength': 'Content must be between 1-280 characters',
     'InvalidMediaUriLength': 'Media URI must be between 1-200 characters',
+    'ContentUnchanged': 'The text is the same as before',
+
+    // Comment errors
+    'InvalidCommentLength': 'Comment must be between 1-280 characters',
+    'InvalidParentComment': 'That comment is not the reply\'s parent',
+    'MissingParentComment': 'The reply\'s parent comment is missing',
+
+    // Reaction errors
+    'ReactionUnchanged': 'You already reacted with this reaction',
     
     // General errors
+    'Unauthorized': 'You are not allowed to do that',
     'ConstraintSeeds': 'Invalid account validation',
     'AccountNotInitialized': 'Account not initialized',
     'AccountAlreadyInitialized': 'Account already exists',
@@ -0,0 +1,56 @@
+import { IndexStore } from "./store";
+
+// Shared by the `/api` routes that read the index. They answer 503 when no
+// index is configured or built yet and 404 when it belongs to another program,
+// which `SolagramIndexerApi` callers treat as "read from RPC instead".
+
+let store: IndexStore | null = null;
+
+// `SOLAGRAM_INDEX_DB` is the SQLite file the indexer process writes
+function indexStore(): IndexStore | null {
+  const filePath = process.env.SOLAGRAM_INDEX_DB;
+  if (!filePath) return null;
+
+  if (!store) {
+    try {
+      store = IndexStore.openReadOnly(filePath);
+    } catch (err) {
+      console.error("Failed to open the Solagram index:", err);
+      return null;
+    }
+  }
+  return store;
+}
+
+export class IndexQueryError extends Error {}
+
+const errorResponse = (status: number, error: string) => Response.json({ error }, { status });
+
+/**
+ * Runs `handler` with the index if it was built for the `program` named in the
+ * query string. `IndexQueryError`s thrown by the handler become 400 responses.
+ */
+export function withIndex(req: Request, handler: (store: IndexStore, params: URLSearchParams) => Response): Response {
+  const index = indexStore();
+  if (!index) {
+    return errorResponse(503, "Indexer not configured");
+  }
+
+  const params = new URL(req.url).searchParams;
+  const programId = index.programId;
+  if (!programId) {
+    return errorResponse(503, "Index not built yet");
+  }
+  if (params.get("program") !== programId) {
+    return errorResponse(404, "Program not indexed");
+  }
+
+  try {
+    return handler(index, params);
+  } catch (err) {
+    if (err instanceof IndexQueryError) {
+      return errorResponse(400, err.message);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,184 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Post, PostCursor, SolagramClient, UserProfile } from "@/lib/solagram";
+import { IndexStore } from "./store";
+
+function profile(handle: string): UserProfile {
+  return {
+    publicKey: Keypair.generate().publicKey,
+    authority: Keypair.generate().publicKey,
+    handle,
+    bio: "bio",
+    avatarUri: "https://example.com/avatar.png",
+    followerCount: 0,
+    followingCount: 0,
+    postCount: 0,
+    createdAt: 1,
+    updatedAt: 1,
+    createdSlot: 1,
+  };
+}
+
+function post(owner: UserProfile, createdAt: number): Post {
+  return {
+    publicKey: Keypair.generate().publicKey,
+    profile: owner.publicKey,
+    creator: owner.authority,
+    content: `posted at ${createdAt}`,
+    mediaUri: "https://example.com/post.png",
+    likeCount: 0,
+    dislikeCount: 0,
+    loveCount: 0,
+    hahaCount: 0,
+    wowCount: 0,
+    sadCount: 0,
+    angryCount: 0,
+    commentCount: 0,
+    nextCommentIndex: 0,
+    revisionCount: 0,
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+// Every page of the store's feed, following `nextCursor` until it runs out
+function readFeed(store: IndexStore, limit: number): { addresses: string[]; cursors: (PostCursor | null)[] } {
+  const addresses: string[] = [];
+  const cursors: (PostCursor | null)[] = [];
+  let cursor: PostCursor | null = null;
+  do {
+    const page = store.feedPage(cursor, limit);
+    addresses.push(...page.posts.map((entry) => entry.publicKey));
+    cursors.push(page.nextCursor);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return { addresses, cursors };
+}
+
+// A read-only client whose RPC answers from `posts`, so `fetchPostPage` can run offline
+function offlineClient(posts: Post[]): SolagramClient {
+  const connection = new Connection("http://127.0.0.1:8899");
+  connection.getProgramAccounts = (async () => posts.map((entry) => {
+    const data = Buffer.alloc(8);
+    data.writeBigUInt64LE(BigInt(entry.createdAt));
+    return { pubkey: entry.publicKey, account: { data } };
+  })) as unknown as Connection["getProgramAccounts"];
+
+  const client = SolagramClient.readOnly(connection);
+  const byAddress = new Map(posts.map((entry) => [entry.publicKey.toBase58(), entry]));
+  client.fetchPostsByAddress = async (addresses: PublicKey[]) =>
+    addresses.map((address) => byAddress.get(address.toBase58())!);
+  return client;
+}
+
+describe("IndexStore.feedPage", () => {
+  let store: IndexStore;
+  const author = profile("author");
+  // Three posts share a timestamp, so only the address orders them
+  const posts = [post(author, 300), post(author, 200), post(author, 200), post(author, 200), post(author, 100)];
+
+  before(async () => {
+    store = await IndexStore.open(":memory:");
+    store.upsertProfile(author);
+    posts.forEach((entry) => store.upsertPost(entry));
+  });
+
+  after(() => store.close());
+
+  it("returns newest first and breaks ties by address", () => {
+    const { addresses } = readFeed(store, 50);
+    const tied = posts.slice(1, 4).map((entry) => entry.publicKey.toBase58()).sort();
+    assert.deepEqual(addresses, [
+      posts[0].publicKey.toBase58(),
+      ...tied,
+      posts[4].publicKey.toBase58(),
+    ]);
+  });
+
+  it("pages through ties without skipping or repeating posts", () => {
+    const { addresses, cursors } = readFeed(store, 2);
+    assert.equal(addresses.length, posts.length);
+    assert.equal(new Set(addresses).size, posts.length);
+    assert.deepEqual(addresses, readFeed(store, 50).addresses);
+    assert.equal(cursors.length, 3);
+    assert.equal(cursors[cursors.length - 1], null);
+  });
+
+  it("only hands out a cursor while more posts follow", () => {
+    assert.equal(store.feedPage(null, posts.length).nextCursor, null);
+    const page = store.feedPage(null, posts.length - 1);
+    assert.deepEqual(page.nextCursor, {
+      createdAt: 200,
+      publicKey: page.posts[page.posts.length - 1].publicKey,
+    });
+  });
+
+  it("clamps the limit to between 1 and 50", () => {
+    assert.equal(store.feedPage(null, 0).posts.length, 1);
+    assert.equal(store.feedPage(null, -5).posts.length, 1);
+    assert.equal(store.feedPage(null, 1000).posts.length, posts.length);
+  });
+
+  it("joins the creator's handle and falls back for unknown profiles", () => {
+    const stranger = profile("stranger");
+    const orphan = post(stranger, 50);
+    store.upsertPost(orphan);
+    try {
+      assert.equal(store.feedPage(null, 1).posts[0].creatorHandle, "author");
+      const last = store.feedPage({ createdAt: 100, publicKey: posts[4].publicKey.toBase58() }, 10).posts;
+      assert.deepEqual(last.map((entry) => entry.publicKey), [orphan.publicKey.toBase58()]);
+      assert.equal(last[0].creatorHandle, `User ${stranger.authority.toBase58().slice(0, 8)}...`);
+    } finally {
+      store.remove(orphan.publicKey.toBase58());
+    }
+  });
+
+  it("matches the order and cursors of SolagramClient.fetchPostPage", async () => {
+    const client = offlineClient(posts);
+    for (const limit of [1, 2, 3, 10]) {
+      let cursor: PostCursor | null = null;
+      do {
+        const fromRpc = await client.fetchPostPage(cursor, limit);
+        const fromIndex = store.feedPage(cursor, limit);
+        assert.deepEqual(
+          fromIndex.posts.map((entry) => entry.publicKey),
+          fromRpc.posts.map((entry) => entry.publicKey.toBase58())
+        );
+        assert.deepEqual(fromIndex.nextCursor, fromRpc.nextCursor);
+        cursor = fromRpc.nextCursor;
+      } while (cursor);
+    }
+  });
+});
+
+describe("IndexStore.profiles", () => {
+  let store: IndexStore;
+
+  before(async () => {
+    store = await IndexStore.open(":memory:");
+    ["alice", "Alicia", "bob", "a_b", "axb", "50%off", "500off", "back\\slash", "backslash"]
+      .forEach((handle) => store.upsertProfile(profile(handle)));
+  });
+
+  after(() => store.close());
+
+  const handles = (query?: string) => store.profiles(query).map((entry) => entry.handle);
+
+  it("lists every profile ordered by handle, ignoring case", () => {
+    assert.deepEqual(handles(), ["50%off", "500off", "a_b", "alice", "Alicia", "axb", "back\\slash", "backslash", "bob"]);
+  });
+
+  it("matches handle prefixes, ignoring case", () => {
+    assert.deepEqual(handles("ALI"), ["alice", "Alicia"]);
+    assert.deepEqual(handles("bo"), ["bob"]);
+    assert.deepEqual(handles("zed"), []);
+  });
+
+  it("treats LIKE wildcards and the escape character literally", () => {
+    assert.deepEqual(handles("a_"), ["a_b"]);
+    assert.deepEqual(handles("50%"), ["50%off"]);
+    assert.deepEqual(handles("%"), []);
+    assert.deepEqual(handles("back\\"), ["back\\slash"]);
+  });
+});
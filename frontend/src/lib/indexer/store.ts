@@ -0,0 +1,175 @@
+import Database from "better-sqlite3";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  Comment,
+  Post,
+  PostCursor,
+  toWireComment,
+  toWireFeedPost,
+  toWireProfile,
+  UserProfile,
+  WireComment,
+  WireFeedPage,
+  WireFeedPost,
+  WireUserProfile,
+} from "@/lib/solagram";
+
+// SQLite copy of the profiles, posts and comments of one program deployment,
+// written by the indexer process and read by the `/api` routes. Each row keeps
+// the decoded account as JSON next to the columns it is queried by.
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS profiles (
+    address TEXT PRIMARY KEY,
+    handle TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS profiles_handle ON profiles (handle COLLATE NOCASE);
+  CREATE TABLE IF NOT EXISTS posts (
+    address TEXT PRIMARY KEY,
+    profile TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS posts_feed ON posts (created_at DESC, address);
+  CREATE TABLE IF NOT EXISTS comments (
+    address TEXT PRIMARY KEY,
+    post TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS comments_post ON comments (post, created_at, address);
+`;
+
+const MAX_PAGE_SIZE = 50;
+
+export interface IndexedAccounts {
+  profiles: UserProfile[];
+  posts: Post[];
+  comments: Comment[];
+}
+
+export class IndexStore {
+  private constructor(private readonly db: Database.Database) {}
+
+  // Read-write handle for the indexer process; creates the file and schema
+  static async open(filePath: string): Promise<IndexStore> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const db = new Database(filePath);
+    // Lets the routes read while the indexer writes
+    db.pragma("journal_mode = WAL");
+    db.exec(SCHEMA);
+    return new IndexStore(db);
+  }
+
+  // Read-only handle for the routes; throws if the indexer never created the file
+  static openReadOnly(filePath: string): IndexStore {
+    return new IndexStore(new Database(filePath, { readonly: true, fileMustExist: true }));
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // Program the index was built for; null until the first backfill
+  get programId(): string | null {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'program_id'").get() as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  /**
+   * Replaces the whole index with `accounts` in one transaction, so readers
+   * never see a half-finished backfill. Switching to another program starts over.
+   */
+  replaceAll(programId: string, accounts: IndexedAccounts) {
+    this.db.transaction(() => {
+      this.db.exec("DELETE FROM profiles; DELETE FROM posts; DELETE FROM comments;");
+      this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('program_id', ?)").run(programId);
+      accounts.profiles.forEach((profile) => this.upsertProfile(profile));
+      accounts.posts.forEach((post) => this.upsertPost(post));
+      accounts.comments.forEach((comment) => this.upsertComment(comment));
+    })();
+  }
+
+  upsertProfile(profile: UserProfile) {
+    this.db
+      .prepare("INSERT OR REPLACE INTO profiles (address, handle, data) VALUES (?, ?, ?)")
+      .run(profile.publicKey.toBase58(), profile.handle, JSON.stringify(toWireProfile(profile)));
+  }
+
+  // Posts are stored without a handle; it is joined in from `profiles` when read
+  upsertPost(post: Post) {
+    this.db
+      .prepare("INSERT OR REPLACE INTO posts (address, profile, created_at, data) VALUES (?, ?, ?, ?)")
+      .run(post.publicKey.toBase58(), post.profile.toBase58(), post.createdAt,
+        JSON.stringify(toWireFeedPost({ ...post, creatorHandle: "" })));
+  }
+
+  upsertComment(comment: Comment) {
+    this.db
+      .prepare("INSERT OR REPLACE INTO comments (address, post, created_at, data) VALUES (?, ?, ?, ?)")
+      .run(comment.publicKey.toBase58(), comment.post.toBase58(), comment.createdAt,
+        JSON.stringify(toWireComment(comment)));
+  }
+
+  // Forgets a closed account, whichever kind it was
+  remove(address: string) {
+    this.db.transaction(() => {
+      ["profiles", "posts", "comments"].forEach((table) => {
+        this.db.prepare(`DELETE FROM ${table} WHERE address = ?`).run(address);
+      });
+    })();
+  }
+
+  // Newest first, ties broken by address, matching `SolagramClient.fetchPostPage`
+  feedPage(cursor: PostCursor | null, limit: number): WireFeedPage {
+    const size = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const rows = this.db
+      .prepare(`
+        SELECT posts.address, posts.created_at, posts.data, profiles.handle
+        FROM posts LEFT JOIN profiles ON profiles.address = posts.profile
+        WHERE ? IS NULL OR posts.created_at < ? OR (posts.created_at = ? AND posts.address > ?)
+        ORDER BY posts.created_at DESC, posts.address ASC
+        LIMIT ?
+      `)
+      .all(cursor?.createdAt ?? null, cursor?.createdAt ?? null, cursor?.createdAt ?? null, cursor?.publicKey ?? null, size + 1) as {
+        address: string;
+        created_at: number;
+        data: string;
+        handle: string | null;
+      }[];
+
+    const page = rows.slice(0, size);
+    const posts = page.map((row): WireFeedPost => {
+      const post = JSON.parse(row.data) as WireFeedPost;
+      return { ...post, creatorHandle: row.handle ?? `User ${post.creator.slice(0, 8)}...` };
+    });
+    const last = page[page.length - 1];
+    return {
+      posts,
+      nextCursor: rows.length > size ? { createdAt: last.created_at, publicKey: last.address } : null,
+    };
+  }
+
+  // Ordered by handle; `query` keeps the handles starting with it, ignoring case
+  profiles(query?: string): WireUserProfile[] {
+    const pattern = query ? `${query.replace(/[\\%_]/g, "\\$&")}%` : "%";
+    const rows = this.db
+      .prepare("SELECT data FROM profiles WHERE handle LIKE ? ESCAPE '\\' ORDER BY handle COLLATE NOCASE")
+      .all(pattern) as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  // Oldest first, like `SolagramClient.fetchComments`
+  comments(post: string): WireComment[] {
+    const rows = this.db
+      .prepare("SELECT data FROM comments WHERE post = ? ORDER BY created_at, address")
+      .all(post) as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+}
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BN } from "@coral-xyz/anchor";
+import { AccountInfo, Connection, Keypair, PublicKey, SystemProgram } from "@solana/web3.js";
+import { SolagramClient } from "@/lib/solagram";
+import { IndexStore } from "./store";
+import { SolagramIndexer } from "./sync";
+
+// `getMultipleAccountsInfo` answers from `accounts`; anything missing reads as closed
+function offlineClient(accounts: Map<string, AccountInfo<Buffer>>): SolagramClient {
+  const connection = new Connection("http://127.0.0.1:8899");
+  connection.getMultipleAccountsInfo = async (addresses: PublicKey[]) =>
+    addresses.map((address) => accounts.get(address.toBase58()) ?? null);
+  return SolagramClient.readOnly(connection);
+}
+
+describe("SolagramIndexer.syncAccounts", () => {
+  const accounts = new Map<string, AccountInfo<Buffer>>();
+  const client = offlineClient(accounts);
+  const { coder } = client.program;
+  let store: IndexStore;
+  let indexer: SolagramIndexer;
+
+  function programAccount(data: Buffer, owner = client.programId): AccountInfo<Buffer> {
+    return { data, owner, lamports: 1, executable: false, rentEpoch: 0 };
+  }
+
+  async function profileAccount(handle: string, owner = client.programId) {
+    return programAccount(await coder.accounts.encode("userProfile", {
+      authority: Keypair.generate().publicKey,
+      handle,
+      bio: "bio",
+      avatarUri: "https://example.com/avatar.png",
+      followerCount: new BN(0),
+      followingCount: new BN(0),
+      createdAt: new BN(1),
+      updatedAt: new BN(1),
+      postCount: new BN(0),
+      createdSlot: new BN(1),
+    }), owner);
+  }
+
+  async function commentAccount(post: PublicKey, content: string) {
+    return programAccount(await coder.accounts.encode("comment", {
+      post,
+      commentBy: Keypair.generate().publicKey,
+      content,
+      createdAt: new BN(1),
+      updatedAt: new BN(1),
+      parent: null,
+      replyCount: new BN(0),
+      likeCount: new BN(0),
+    }));
+  }
+
+  beforeEach(async () => {
+    accounts.clear();
+    store = await IndexStore.open(":memory:");
+    indexer = new SolagramIndexer(client, store);
+  });
+
+  afterEach(() => store.close());
+
+  it("stores the indexed accounts it decodes", async () => {
+    const profile = Keypair.generate().publicKey;
+    const post = Keypair.generate().publicKey;
+    const comment = Keypair.generate().publicKey;
+    accounts.set(profile.toBase58(), await profileAccount("indexed"));
+    accounts.set(comment.toBase58(), await commentAccount(post, "first!"));
+
+    await indexer.syncAccounts([profile, comment]);
+
+    assert.deepEqual(store.profiles().map((entry) => entry.handle), ["indexed"]);
+    assert.deepEqual(store.comments(post.toBase58()).map((entry) => entry.content), ["first!"]);
+  });
+
+  it("replaces a stored account with its new contents", async () => {
+    const profile = Keypair.generate().publicKey;
+    accounts.set(profile.toBase58(), await profileAccount("before"));
+    await indexer.syncAccounts([profile]);
+
+    accounts.set(profile.toBase58(), await profileAccount("after"));
+    await indexer.syncAccounts([profile]);
+
+    assert.deepEqual(store.profiles().map((entry) => entry.handle), ["after"]);
+  });
+
+  it("removes accounts that were closed", async () => {
+    const profile = Keypair.generate().publicKey;
+    const post = Keypair.generate().publicKey;
+    const comment = Keypair.generate().publicKey;
+    accounts.set(profile.toBase58(), await profileAccount("closing"));
+    accounts.set(comment.toBase58(), await commentAccount(post, "bye"));
+    await indexer.syncAccounts([profile, comment]);
+
+    accounts.clear();
+    await indexer.syncAccounts([profile, comment]);
+
+    assert.deepEqual(store.profiles(), []);
+    assert.deepEqual(store.comments(post.toBase58()), []);
+  });
+
+  it("removes accounts that another program now owns", async () => {
+    const profile = Keypair.generate().publicKey;
+    accounts.set(profile.toBase58(), await profileAccount("reassigned"));
+    await indexer.syncAccounts([profile]);
+
+    accounts.set(profile.toBase58(), await profileAccount("reassigned", SystemProgram.programId));
+    await indexer.syncAccounts([profile]);
+
+    assert.deepEqual(store.profiles(), []);
+  });
+
+  it("ignores program accounts of kinds it doesn't index", async () => {
+    const bookmark = Keypair.generate().publicKey;
+    accounts.set(bookmark.toBase58(), programAccount(await coder.accounts.encode("bookmark", {
+      user: Keypair.generate().publicKey,
+      post: Keypair.generate().publicKey,
+      createdAt: new BN(1),
+    })));
+
+    await indexer.syncAccounts([bookmark]);
+
+    assert.deepEqual(store.profiles(), []);
+    assert.deepEqual(store.feedPage(null, 10).posts, []);
+  });
+});
+
+describe("SolagramIndexer.syncTransaction", () => {
+  const accounts = new Map<string, AccountInfo<Buffer>>();
+  const client = offlineClient(accounts);
+  const profile = Keypair.generate().publicKey;
+  let store: IndexStore;
+  let lookups: number;
+
+  // A transaction that touched only `profile`, found from the `foundOn`th lookup on
+  function answerTransactions(foundOn: number) {
+    lookups = 0;
+    client.connection.getTransaction = (async () => {
+      lookups++;
+      if (lookups < foundOn) return null;
+      return {
+        transaction: { message: { getAccountKeys: () => ({ keySegments: () => [[profile]] }) } },
+        meta: null,
+      };
+    }) as unknown as Connection["getTransaction"];
+  }
+
+  beforeEach(async () => {
+    accounts.clear();
+    store = await IndexStore.open(":memory:");
+  });
+
+  afterEach(() => store.close());
+
+  it("retries a transaction the RPC node doesn't return yet", async () => {
+    const indexer = new SolagramIndexer(client, store, { transactionRetryDelaysMs: [0, 0, 0] });
+    const data = await client.program.coder.accounts.encode("userProfile", {
+      authority: Keypair.generate().publicKey,
+      handle: "late",
+      bio: "bio",
+      avatarUri: "https://example.com/avatar.png",
+      followerCount: new BN(0),
+      followingCount: new BN(0),
+      createdAt: new BN(1),
+      updatedAt: new BN(1),
+      postCount: new BN(0),
+      createdSlot: new BN(1),
+    });
+    accounts.set(profile.toBase58(), { data, owner: client.programId, lamports: 1, executable: false, rentEpoch: 0 });
+    answerTransactions(3);
+
+    await indexer.syncTransaction("signature");
+
+    assert.equal(lookups, 3);
+    assert.deepEqual(store.profiles().map((entry) => entry.handle), ["late"]);
+  });
+
+  it("backfills when a transaction never turns up", async () => {
+    const indexer = new SolagramIndexer(client, store, { transactionRetryDelaysMs: [0, 0] });
+    let backfills = 0;
+    indexer.backfill = async () => {
+      backfills++;
+    };
+    answerTransactions(Infinity);
+
+    await indexer.syncTransaction("signature");
+    await indexer.stop();
+
+    assert.equal(lookups, 3);
+    assert.equal(backfills, 1);
+    assert.deepEqual(store.profiles(), []);
+  });
+});
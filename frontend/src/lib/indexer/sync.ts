@@ -0,0 +1,158 @@
+import { AccountInfo, PublicKey } from "@solana/web3.js";
+import { decodeComment, decodePost, decodeUserProfile, SolagramClient } from "@/lib/solagram";
+import { IndexStore } from "./store";
+
+// Accounts per `getMultipleAccounts` call, the RPC maximum
+const ACCOUNTS_PER_REQUEST = 100;
+
+// Waits between lookups of a logged transaction the RPC node can't return yet
+const TRANSACTION_RETRY_DELAYS_MS = [500, 1000, 2000, 4000];
+
+// How often the whole index is rebuilt, catching up on logs missed while the
+// websocket was reconnecting
+const BACKFILL_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface SolagramIndexerOptions {
+  transactionRetryDelaysMs?: number[];
+  backfillIntervalMs?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Keeps an `IndexStore` in step with the program. `start` subscribes to the
+ * program's logs first and then backfills every profile, post and comment, so
+ * nothing written during the backfill is missed.
+ *
+ * Each logged transaction is handled by re-reading every account it touched:
+ * accounts of an indexed kind are stored, and closed ones are dropped. That
+ * covers edits and deletions, which emit no events, without decoding instructions.
+ *
+ * Logs don't survive a dropped websocket, so the index is also rebuilt on an
+ * interval, and right away when a logged transaction can't be fetched.
+ */
+export class SolagramIndexer {
+  private subscription: number | null = null;
+  private backfillTimer: ReturnType<typeof setInterval> | null = null;
+  // Transactions are applied one at a time, in the order they were logged
+  private queue: Promise<unknown> = Promise.resolve();
+  private backfillQueued = false;
+  private readonly transactionRetryDelaysMs: number[];
+  private readonly backfillIntervalMs: number;
+
+  constructor(
+    private readonly client: SolagramClient,
+    private readonly store: IndexStore,
+    {
+      transactionRetryDelaysMs = TRANSACTION_RETRY_DELAYS_MS,
+      backfillIntervalMs = BACKFILL_INTERVAL_MS,
+    }: SolagramIndexerOptions = {}
+  ) {
+    this.transactionRetryDelaysMs = transactionRetryDelaysMs;
+    this.backfillIntervalMs = backfillIntervalMs;
+  }
+
+  async start() {
+    const { connection, programId } = this.client;
+    this.subscription = connection.onLogs(programId, ({ signature, err }) => {
+      if (err) return;
+      this.enqueue(() => this.syncTransaction(signature));
+    }, "confirmed");
+
+    await this.enqueue(() => this.backfill());
+    this.backfillTimer = setInterval(() => this.requestBackfill(), this.backfillIntervalMs);
+  }
+
+  async stop() {
+    if (this.backfillTimer !== null) {
+      clearInterval(this.backfillTimer);
+      this.backfillTimer = null;
+    }
+    if (this.subscription !== null) {
+      await this.client.connection.removeOnLogsListener(this.subscription);
+      this.subscription = null;
+    }
+    await this.queue;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch((err) => console.error("Indexer task failed:", err));
+    return result;
+  }
+
+  // Queues a backfill unless one is already waiting its turn
+  private requestBackfill() {
+    if (this.backfillQueued) return;
+    this.backfillQueued = true;
+    this.enqueue(() => {
+      this.backfillQueued = false;
+      return this.backfill();
+    });
+  }
+
+  async backfill() {
+    const [profiles, posts, comments] = await Promise.all([
+      this.client.fetchAllProfiles(),
+      this.client.fetchAllPosts(),
+      this.client.fetchAllComments(),
+    ]);
+    this.store.replaceAll(this.client.programId.toBase58(), { profiles, posts, comments });
+    console.log(`Indexed ${profiles.length} profiles, ${posts.length} posts and ${comments.length} comments`);
+  }
+
+  async syncTransaction(signature: string) {
+    const tx = await this.fetchTransaction(signature);
+    if (!tx) {
+      console.warn(`Transaction ${signature} not found, backfilling instead`);
+      this.requestBackfill();
+      return;
+    }
+
+    const keys = tx.transaction.message
+      .getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses })
+      .keySegments()
+      .flat();
+    await this.syncAccounts(keys);
+  }
+
+  // A transaction seen in the logs can take a moment to be served by `getTransaction`
+  private async fetchTransaction(signature: string) {
+    for (let attempt = 0; ; attempt++) {
+      const tx = await this.client.connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      if (tx || attempt >= this.transactionRetryDelaysMs.length) return tx;
+      await sleep(this.transactionRetryDelaysMs[attempt]);
+    }
+  }
+
+  async syncAccounts(addresses: PublicKey[]) {
+    for (let i = 0; i < addresses.length; i += ACCOUNTS_PER_REQUEST) {
+      const batch = addresses.slice(i, i + ACCOUNTS_PER_REQUEST);
+      const infos = await this.client.connection.getMultipleAccountsInfo(batch, "confirmed");
+      batch.forEach((address, index) => this.syncAccount(address, infos[index]));
+    }
+  }
+
+  private syncAccount(address: PublicKey, info: AccountInfo<Buffer> | null) {
+    if (!info || !info.owner.equals(this.client.programId)) {
+      this.store.remove(address.toBase58());
+      return;
+    }
+
+    const { coder, idl } = this.client.program;
+    const discriminator = info.data.subarray(0, 8);
+    const is = (name: "userProfile" | "post" | "comment") =>
+      discriminator.equals(Buffer.from(idl.accounts.find((account) => account.name === name)!.discriminator));
+
+    if (is("userProfile")) {
+      this.store.upsertProfile(decodeUserProfile(address, coder.accounts.decode("userProfile", info.data)));
+    } else if (is("post")) {
+      this.store.upsertPost(decodePost(address, coder.accounts.decode("post", info.data)));
+    } else if (is("comment")) {
+      this.store.upsertComment(decodeComment(address, coder.accounts.decode("comment", info.data)));
+    }
+  }
+}
@@ -0,0 +1,75 @@
+// Sign-In-With-Solana style messages used to authenticate uploads. Shared by the
+// browser (which builds and signs the message) and the upload route (which
+// parses and verifies it), so it must stay free of server-only imports.
+
+export const SIWS_STATEMENT = "Sign in to upload files to Solagram.";
+
+// Request headers carrying the signed message to the upload route
+export const SIWS_ADDRESS_HEADER = "x-solagram-address";
+export const SIWS_MESSAGE_HEADER = "x-solagram-message";
+export const SIWS_SIGNATURE_HEADER = "x-solagram-signature";
+
+export interface SignInFields {
+  domain: string;
+  address: string;
+  uri: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+// Issued by `GET /api/auth/nonce`
+export interface SignInNonce {
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+export function createSignInMessage(fields: SignInFields): string {
+  return [
+    `${fields.domain} wants you to sign in with your Solana account:`,
+    fields.address,
+    "",
+    SIWS_STATEMENT,
+    "",
+    `URI: ${fields.uri}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    `Expiration Time: ${fields.expirationTime}`,
+  ].join("\n");
+}
+
+// Inverse of `createSignInMessage`; returns null for anything it did not produce
+export function parseSignInMessage(message: string): SignInFields | null {
+  const lines = message.split("\n");
+  if (lines.length !== 9 || lines[2] !== "" || lines[3] !== SIWS_STATEMENT || lines[4] !== "") {
+    return null;
+  }
+
+  const header = lines[0].match(/^(.+) wants you to sign in with your Solana account:$/);
+  const field = (line: string, name: string) =>
+    line.startsWith(`${name}: `) ? line.slice(name.length + 2) : null;
+
+  const fields = {
+    domain: header?.[1] ?? null,
+    address: lines[1],
+    uri: field(lines[5], "URI"),
+    nonce: field(lines[6], "Nonce"),
+    issuedAt: field(lines[7], "Issued At"),
+    expirationTime: field(lines[8], "Expiration Time"),
+  };
+
+  if (Object.values(fields).some((value) => !value)) {
+    return null;
+  }
+  return fields as SignInFields;
+}
+
+// Headers are ASCII-only, so the multi-line message travels base64 encoded
+export function encodeMessageHeader(message: string): string {
+  return Buffer.from(message, "utf8").toString("base64");
+}
+
+export function decodeMessageHeader(value: string): string {
+  return Buffer.from(value, "base64").toString("utf8");
+}
@@ -0,0 +1,280 @@
+import { IdlAccounts, IdlTypes } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import type { SolanaInstagram } from "../../anchor-idl/idl";
+
+type RawAccounts = IdlAccounts<SolanaInstagram>;
+export type RawReactionType = IdlTypes<SolanaInstagram>["reactionType"];
+
+export const REACTION_KINDS = ["like", "dislike", "love", "haha", "wow", "sad", "angry"] as const;
+export type ReactionKind = (typeof REACTION_KINDS)[number];
+
+export interface UserProfile {
+  publicKey: PublicKey;
+  authority: PublicKey;
+  handle: string;
+  bio: string;
+  avatarUri: string;
+  followerCount: number;
+  followingCount: number;
+  // Posts ever created; the next post is addressed by this index
+  postCount: number;
+  createdAt: number;
+  updatedAt: number;
+  // Slot the profile was created in; seeds its posts' addresses with `postCount`
+  createdSlot: number;
+}
+
+export interface Post {
+  publicKey: PublicKey;
+  profile: PublicKey;
+  creator: PublicKey;
+  content: string;
+  mediaUri: string;
+  likeCount: number;
+  dislikeCount: number;
+  loveCount: number;
+  hahaCount: number;
+  wowCount: number;
+  sadCount: number;
+  angryCount: number;
+  commentCount: number;
+  // Comments ever added; the next comment is addressed by this index
+  nextCommentIndex: number;
+  // Times the caption was edited; each old caption is kept in a `PostRevision`
+  revisionCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PostRevision {
+  publicKey: PublicKey;
+  post: PublicKey;
+  index: number;
+  content: string;
+  // When this caption was replaced by the next one
+  replacedAt: number;
+}
+
+// Post joined with its creator's handle, as shown in the feed
+export interface FeedPost extends Post {
+  creatorHandle: string;
+}
+
+export interface Comment {
+  publicKey: PublicKey;
+  post: PublicKey;
+  commentBy: PublicKey;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+  // Comment this one replies to; null for top-level comments
+  parent: PublicKey | null;
+  replyCount: number;
+  likeCount: number;
+}
+
+export interface CommentLike {
+  publicKey: PublicKey;
+  comment: PublicKey;
+  liker: PublicKey;
+  createdAt: number;
+}
+
+export interface Reaction {
+  publicKey: PublicKey;
+  post: PublicKey;
+  reactionBy: PublicKey;
+  reactionType: ReactionKind;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Follow {
+  publicKey: PublicKey;
+  follower: PublicKey;
+  following: PublicKey;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Bookmark {
+  publicKey: PublicKey;
+  user: PublicKey;
+  post: PublicKey;
+  createdAt: number;
+}
+
+export interface HandleRecord {
+  publicKey: PublicKey;
+  profile: PublicKey;
+  createdAt: number;
+}
+
+export interface AuthorityTransfer {
+  publicKey: PublicKey;
+  profile: PublicKey;
+  currentAuthority: PublicKey;
+  newAuthority: PublicKey;
+  createdAt: number;
+}
+
+export interface AuthorityRecord {
+  publicKey: PublicKey;
+  profile: PublicKey;
+  authority: PublicKey;
+  createdAt: number;
+}
+
+// Per-type reaction counters of a post, keyed by reaction kind
+export function reactionCounts(post: Post): Record<ReactionKind, number> {
+  return {
+    like: post.likeCount,
+    dislike: post.dislikeCount,
+    love: post.loveCount,
+    haha: post.hahaCount,
+    wow: post.wowCount,
+    sad: post.sadCount,
+    angry: post.angryCount,
+  };
+}
+
+// Anchor encodes unit enum variants as `{ like: {} }`
+export function toRawReactionType(kind: ReactionKind): RawReactionType {
+  return { [kind]: {} } as unknown as RawReactionType;
+}
+
+export function fromRawReactionType(raw: RawReactionType): ReactionKind {
+  const kind = Object.keys(raw)[0] as ReactionKind;
+  if (!REACTION_KINDS.includes(kind)) {
+    throw new Error(`Unknown reaction type: ${kind}`);
+  }
+  return kind;
+}
+
+export function decodeUserProfile(publicKey: PublicKey, raw: RawAccounts["userProfile"]): UserProfile {
+  return {
+    publicKey,
+    authority: raw.authority,
+    handle: raw.handle,
+    bio: raw.bio,
+    avatarUri: raw.avatarUri,
+    followerCount: raw.followerCount.toNumber(),
+    followingCount: raw.followingCount.toNumber(),
+    postCount: raw.postCount.toNumber(),
+    createdAt: raw.createdAt.toNumber(),
+    updatedAt: raw.updatedAt.toNumber(),
+    createdSlot: raw.createdSlot.toNumber(),
+  };
+}
+
+export function decodePost(publicKey: PublicKey, raw: RawAccounts["post"]): Post {
+  return {
+    publicKey,
+    profile: raw.profile,
+    creator: raw.creator,
+    content: raw.content,
+    mediaUri: raw.mediaUri,
+    likeCount: raw.likeCount.toNumber(),
+    dislikeCount: raw.dislikeCount.toNumber(),
+    loveCount: raw.loveCount.toNumber(),
+    hahaCount: raw.hahaCount.toNumber(),
+    wowCount: raw.wowCount.toNumber(),
+    sadCount: raw.sadCount.toNumber(),
+    angryCount: raw.angryCount.toNumber(),
+    commentCount: raw.commentCount.toNumber(),
+    nextCommentIndex: raw.nextCommentIndex.toNumber(),
+    revisionCount: raw.revisionCount.toNumber(),
+    createdAt: raw.createdAt.toNumber(),
+    updatedAt: raw.updatedAt.toNumber(),
+  };
+}
+
+export function decodePostRevision(publicKey: PublicKey, raw: RawAccounts["postRevision"]): PostRevision {
+  return {
+    publicKey,
+    post: raw.post,
+    index: raw.index.toNumber(),
+    content: raw.content,
+    replacedAt: raw.replacedAt.toNumber(),
+  };
+}
+
+export function decodeComment(publicKey: PublicKey, raw: RawAccounts["comment"]): Comment {
+  return {
+    publicKey,
+    post: raw.post,
+    commentBy: raw.commentBy,
+    content: raw.content,
+    createdAt: raw.createdAt.toNumber(),
+    updatedAt: raw.updatedAt.toNumber(),
+    parent: raw.parent,
+    replyCount: raw.replyCount.toNumber(),
+    likeCount: raw.likeCount.toNumber(),
+  };
+}
+
+export function decodeCommentLike(publicKey: PublicKey, raw: RawAccounts["commentLike"]): CommentLike {
+  return {
+    publicKey,
+    comment: raw.comment,
+    liker: raw.liker,
+    createdAt: raw.createdAt.toNumber(),
+  };
+}
+
+export function decodeReaction(publicKey: PublicKey, raw: RawAccounts["reaction"]): Reaction {
+  return {
+    publicKey,
+    post: raw.post,
+    reactionBy: raw.reactionBy,
+    reactionType: fromRawReactionType(raw.reactionType),
+    createdAt: raw.createdAt.toNumber(),
+    updatedAt: raw.updatedAt.toNumber(),
+  };
+}
+
+export function decodeFollow(publicKey: PublicKey, raw: RawAccounts["follow"]): Follow {
+  return {
+    publicKey,
+    follower: raw.follower,
+    following: raw.following,
+    createdAt: raw.createdAt.toNumber(),
+    updatedAt: raw.updatedAt.toNumber(),
+  };
+}
+
+export function decodeBookmark(publicKey: PublicKey, raw: RawAccounts["bookmark"]): Bookmark {
+  return {
+    publicKey,
+    user: raw.user,
+    post: raw.post,
+    createdAt: raw.createdAt.toNumber(),
+  };
+}
+
+export function decodeHandleRecord(publicKey: PublicKey, raw: RawAccounts["handleRecord"]): HandleRecord {
+  return {
+    publicKey,
+    profile: raw.profile,
+    createdAt: raw.createdAt.toNumber(),
+  };
+}
+
+export function decodeAuthorityTransfer(publicKey: PublicKey, raw: RawAccounts["authorityTransfer"]): AuthorityTransfer {
+  return {
+    publicKey,
+    profile: raw.profile,
+    currentAuthority: raw.currentAuthority,
+    newAuthority: raw.newAuthority,
+    createdAt: raw.createdAt.toNumber(),
+  };
+}
+
+export function decodeAuthorityRecord(publicKey: PublicKey, raw: RawAccounts["authorityRecord"]): AuthorityRecord {
+  return {
+    publicKey,
+    profile: raw.profile,
+    authority: raw.authority,
+    createdAt: raw.createdAt.toNumber(),
+  };
+}
@@ -0,0 +1,1136 @@
+import { Program, Provider, utils } from "@coral-xyz/anchor";
+import { Connection, GetProgramAccountsFilter, PublicKey, Transaction, TransactionInstruction } from "@solana/web3.js";
+import idl from "../../anchor-idl/idl.json";
+import type { SolanaInstagram } from "../../anchor-idl/idl";
+import {
+  AuthorityTransfer,
+  Bookmark,
+  Comment,
+  CommentLike,
+  FeedPost,
+  decodeAuthorityRecord,
+  decodeAuthorityTransfer,
+  decodeBookmark,
+  decodeComment,
+  decodeCommentLike,
+  decodeFollow,
+  decodeHandleRecord,
+  decodePost,
+  decodePostRevision,
+  decodeReaction,
+  decodeUserProfile,
+  Follow,
+  HandleRecord,
+  Post,
+  PostRevision,
+  Reaction,
+  ReactionKind,
+  toRawReactionType,
+  UserProfile,
+} from "./accounts";
+import { SolagramEventHandlers, subscribeToSolagramEvents } from "./events";
+import {
+  AUTHORITY_RECORD_PROFILE_OFFSET,
+  AUTHORITY_TRANSFER_NEW_AUTHORITY_OFFSET,
+  BOOKMARK_USER_OFFSET,
+  COMMENT_AUTHOR_OFFSET,
+  COMMENT_LIKE_COMMENT_OFFSET,
+  COMMENT_LIKE_LIKER_OFFSET,
+  COMMENT_POST_OFFSET,
+  FOLLOW_FOLLOWER_OFFSET,
+  FOLLOW_FOLLOWING_OFFSET,
+  POST_CREATED_AT_OFFSET,
+  POST_PROFILE_OFFSET,
+  POST_REVISION_POST_OFFSET,
+  PROFILE_HANDLE_OFFSET,
+  REACTION_AUTHOR_OFFSET,
+  REACTION_POST_OFFSET,
+} from "./constants";
+import {
+  deriveAuthorityRecordPda,
+  deriveAuthorityTransferPda,
+  deriveBookmarkPda,
+  deriveCommentLikePda,
+  deriveCommentPda,
+  deriveFollowPda,
+  deriveHandleRecordPda,
+  derivePostPda,
+  derivePostRevisionPda,
+  deriveProfilePda,
+  deriveReactionPda,
+  normalizeHandle,
+} from "./pda";
+
+// Short base58 strings (and so many handles) decode fine but are not 32 byte keys
+export function parsePublicKey(value: string): PublicKey | null {
+  try {
+    return utils.bytes.bs58.decode(value).length === 32 ? new PublicKey(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ProfileFields {
+  handle: string;
+  bio: string;
+  avatarUri: string;
+}
+
+// A post's address and creation time, read without downloading the post body
+export interface PostIndexEntry {
+  publicKey: PublicKey;
+  createdAt: number;
+}
+
+// Position of the last post of a page. Later pages are read relative to it, so
+// posts created meanwhile never shift them.
+export interface PostCursor {
+  createdAt: number;
+  publicKey: string;
+}
+
+export interface PostPage {
+  posts: Post[];
+  nextCursor: PostCursor | null;
+}
+
+// Newest first; ties broken by address so the order is total
+function compareNewestFirst(a: PostCursor, b: PostCursor): number {
+  if (a.createdAt !== b.createdAt) return b.createdAt - a.createdAt;
+  return a.publicKey < b.publicKey ? -1 : a.publicKey > b.publicKey ? 1 : 0;
+}
+
+function toCursor(entry: PostIndexEntry): PostCursor {
+  return { createdAt: entry.createdAt, publicKey: entry.publicKey.toBase58() };
+}
+
+// Comments, their likes and reactions closed so far while deleting a post, out of `total`
+export interface PostDeletionProgress {
+  closed: number;
+  total: number;
+}
+
+// Account closes per transaction; each one adds at most five accounts, most
+// of them shared, so this stays well inside the transaction size limit
+const CLOSE_BATCH_SIZE = 6;
+
+// Packs groups of instructions into batches of at most `size`, splitting a group
+// only when it doesn't fit in a batch of its own
+function batchGroups(groups: TransactionInstruction[][], size: number): TransactionInstruction[][] {
+  const batches: TransactionInstruction[][] = [];
+  let current: TransactionInstruction[] = [];
+  for (const group of groups) {
+    if (current.length > 0 && current.length + group.length > size) {
+      batches.push(current);
+      current = [];
+    }
+    for (const instruction of group) {
+      if (current.length === size) {
+        batches.push(current);
+        current = [];
+      }
+      current.push(instruction);
+    }
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+// Steps of an account wipe, in the order they run
+export type AccountWipeStage =
+  | "commentLikes"
+  | "bookmarks"
+  | "reactions"
+  | "comments"
+  | "following"
+  | "followers"
+  | "posts"
+  | "profile";
+
+// One entry of an account wipe's log: a batch that went through or failed, or
+// accounts that were left alone because no instruction can close them
+export interface AccountWipeEvent {
+  stage: AccountWipeStage;
+  status: "done" | "failed" | "skipped";
+  // Accounts the entry covers
+  count: number;
+  signature?: string;
+  error?: string;
+}
+
+/**
+ * Typed wrapper around the solana_instagram program. Has no React dependency so
+ * it can be used from hooks, Node scripts and the Anchor tests alike.
+ *
+ * Write methods sign with the provider's wallet and return the transaction
+ * signature; read methods return decoded camelCase domain objects.
+ */
+export class SolagramClient {
+  constructor(readonly program: Program<SolanaInstagram>) {}
+
+  // `programId` defaults to the IDL's address; pass it when the cluster has the
+  // program deployed somewhere else (see `SOLAGRAM_PROGRAM_IDS`)
+  static fromProvider(provider: Provider, programId?: PublicKey): SolagramClient {
+    const programIdl = programId ? { ...idl, address: programId.toBase58() } : idl;
+    return new SolagramClient(new Program<SolanaInstagram>(programIdl as SolanaInstagram, provider));
+  }
+
+  // Client without a wallet: every read works, write methods throw
+  static readOnly(connection: Connection, programId?: PublicKey): SolagramClient {
+    return SolagramClient.fromProvider({ connection }, programId);
+  }
+
+  get programId(): PublicKey {
+    return this.program.programId;
+  }
+
+  get connection(): Connection {
+    return this.program.provider.connection;
+  }
+
+  get walletPublicKey(): PublicKey | null {
+    return this.program.provider.publicKey ?? null;
+  }
+
+  private requireWallet(): PublicKey {
+    const publicKey = this.walletPublicKey;
+    if (!publicKey) {
+      throw new Error("Wallet not connected");
+    }
+    return publicKey;
+  }
+
+  // The profile the wallet controls, which is not at its PDA after a transfer
+  private async requireProfile(authority: PublicKey): Promise<UserProfile> {
+    const profile = await this.fetchProfile(authority);
+    if (!profile) {
+      throw new Error("Profile not found");
+    }
+    return profile;
+  }
+
+  // ---------------------------------------------------------------------------
+  // PDAs
+  // ---------------------------------------------------------------------------
+
+  // Where the profile created by `authority` lives. It stays there when the
+  // profile is transferred, so use `fetchProfile` to find a wallet's profile.
+  profilePda(authority: PublicKey): PublicKey {
+    return deriveProfilePda(authority, this.programId);
+  }
+
+  authorityRecordPda(authority: PublicKey): PublicKey {
+    return deriveAuthorityRecordPda(authority, this.programId);
+  }
+
+  authorityTransferPda(profile: PublicKey): PublicKey {
+    return deriveAuthorityTransferPda(profile, this.programId);
+  }
+
+  // Posts are numbered per profile and comments per post, so the same media
+  // or text can be posted any number of times
+  postPda(creator: PublicKey, createdSlot: number, index: number): PublicKey {
+    return derivePostPda(creator, createdSlot, index, this.programId);
+  }
+
+  postRevisionPda(post: PublicKey, index: number): PublicKey {
+    return derivePostRevisionPda(post, index, this.programId);
+  }
+
+  commentPda(post: PublicKey, index: number): PublicKey {
+    return deriveCommentPda(post, index, this.programId);
+  }
+
+  // Address the next post of the profile `creator` controls will get
+  async nextPostPda(creator: PublicKey): Promise<PublicKey> {
+    const profile = await this.requireProfile(creator);
+    return this.postPda(creator, profile.createdSlot, profile.postCount);
+  }
+
+  // Address the post's next comment or reply will get
+  async nextCommentPda(post: PublicKey): Promise<PublicKey> {
+    const account = await this.fetchPost(post);
+    if (!account) {
+      throw new Error("Post not found");
+    }
+    return this.commentPda(post, account.nextCommentIndex);
+  }
+
+  reactionPda(post: PublicKey, reactioner: PublicKey): PublicKey {
+    return deriveReactionPda(post, reactioner, this.programId);
+  }
+
+  commentLikePda(comment: PublicKey, liker: PublicKey): PublicKey {
+    return deriveCommentLikePda(comment, liker, this.programId);
+  }
+
+  followPda(followerProfile: PublicKey, followingProfile: PublicKey): PublicKey {
+    return deriveFollowPda(followerProfile, followingProfile, this.programId);
+  }
+
+  bookmarkPda(user: PublicKey, post: PublicKey): PublicKey {
+    return deriveBookmarkPda(user, post, this.programId);
+  }
+
+  handleRecordPda(handle: string): PublicKey {
+    return deriveHandleRecordPda(handle, this.programId);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Instructions
+  // ---------------------------------------------------------------------------
+
+  async initializeProfile({ handle, bio, avatarUri }: ProfileFields): Promise<string> {
+    const user = this.requireWallet();
+    return this.program.methods
+      .initialize(handle, bio, avatarUri)
+      .accounts({ user, handleRecord: this.handleRecordPda(handle) })
+      .rpc();
+  }
+
+  // Moving to a new handle claims its registry entry and the program releases
+  // the old one; the new entry is left out when the normalized handle stays the same
+  async updateProfile({ handle, bio, avatarUri }: Partial<ProfileFields>): Promise<string> {
+    const user = this.requireWallet();
+    const current = await this.requireProfile(user);
+    const oldHandleRecord = this.handleRecordPda(current.handle);
+    const newHandleRecord = handle !== undefined && normalizeHandle(current.handle) !== normalizeHandle(handle)
+      ? this.handleRecordPda(handle)
+      : null;
+
+    return this.program.methods
+      .updateUserProfile(handle ?? null, bio ?? null, avatarUri ?? null)
+      .accounts({ user, profile: current.publicKey, oldHandleRecord, newHandleRecord })
+      .rpc();
+  }
+
+  // Anchor resolves the post address from the profile's `createdSlot` and
+  // current `postCount`
+  async createPost(mediaUri: string, content: string): Promise<string> {
+    const creator = this.requireWallet();
+    const profile = await this.requireProfile(creator);
+    return this.program.methods
+      .createPost(mediaUri, content)
+      .accounts({ creator, profile: profile.publicKey })
+      .rpc();
+  }
+
+  // Replaces the caption; the old one is kept as the post's next revision.
+  // Anchor resolves the profile from the post, so posts written before a
+  // transfer can be edited by the new authority.
+  async updatePost(post: PublicKey, content: string): Promise<string> {
+    const creator = this.requireWallet();
+    return this.program.methods.updatePost(content).accounts({ creator, post }).rpc();
+  }
+
+  async deletePost(post: PublicKey): Promise<string> {
+    const creator = this.requireWallet();
+    return this.program.methods.deleteUserPost().accounts({ creator, post }).rpc();
+  }
+
+  // Deletes a post, then closes its comments, their likes and its reactions in
+  // batches so each author gets their rent back. Calling it again for a post
+  // that is already gone just finishes the cleanup. Returns every transaction
+  // signature.
+  async deletePostWithDependents(
+    post: PublicKey,
+    onProgress?: (progress: PostDeletionProgress) => void
+  ): Promise<string[]> {
+    this.requireWallet();
+    const [postInfo, comments, reactions] = await Promise.all([
+      this.connection.getAccountInfo(post),
+      this.fetchComments(post),
+      this.fetchReactionsByPost(post),
+    ]);
+    // Found while the comments still exist: a like only names its comment, so
+    // once a comment is closed nothing leads back to its likes
+    const likes = await Promise.all(comments.map((comment) => this.fetchCommentLikes(comment.publicKey)));
+
+    const signatures: string[] = [];
+    if (postInfo) {
+      signatures.push(await this.deletePost(post));
+    }
+
+    // Every account is passed explicitly so nothing is fetched again per instruction.
+    // Each comment's likes are closed right after it, in the same transaction.
+    const groups = await Promise.all([
+      ...comments.map((comment, index) => Promise.all([
+        this.program.methods
+          .closeOrphanedComment()
+          .accountsPartial({ comment: comment.publicKey, commentBy: comment.commentBy, post })
+          .instruction(),
+        ...likes[index].map((like) =>
+          this.program.methods
+            .closeOrphanedCommentLike()
+            .accountsPartial({ like: like.publicKey, liker: like.liker, comment: comment.publicKey })
+            .instruction()
+        ),
+      ])),
+      ...reactions.map(async (reaction) => [
+        await this.program.methods
+          .closeOrphanedReaction()
+          .accountsPartial({ reaction: reaction.publicKey, reactionBy: reaction.reactionBy, post })
+          .instruction(),
+      ]),
+    ]);
+
+    const total = groups.reduce((sum, group) => sum + group.length, 0);
+    let closed = 0;
+    onProgress?.({ closed, total });
+    for (const batch of batchGroups(groups, CLOSE_BATCH_SIZE)) {
+      signatures.push(await this.sendInstructions(batch));
+      closed += batch.length;
+      onProgress?.({ closed, total });
+    }
+    return signatures;
+  }
+
+  // Closes every account the wallet paid for and then its profile: comment
+  // likes, bookmarks, reactions, comments, follows in both directions and posts
+  // (with the comments and reactions on them). Each batch is reported through
+  // `onEvent`, and a failed batch stops the wipe with its error. The work is
+  // planned from what is still on chain, so calling it again resumes the wipe.
+  // Likes, bookmarks, reactions and comments left from a wallet the profile was
+  // transferred from belong to that wallet and are not touched.
+  async wipeAccount(onEvent?: (event: AccountWipeEvent) => void): Promise<void> {
+    const user = this.requireWallet();
+    const profile = await this.fetchProfile(user);
+
+    const run = async (stage: AccountWipeStage, instructions: Promise<TransactionInstruction>[]) => {
+      const built = await Promise.all(instructions);
+      for (let start = 0; start < built.length; start += CLOSE_BATCH_SIZE) {
+        const batch = built.slice(start, start + CLOSE_BATCH_SIZE);
+        try {
+          const signature = await this.sendInstructions(batch);
+          onEvent?.({ stage, status: "done", count: batch.length, signature });
+        } catch (err: any) {
+          onEvent?.({ stage, status: "failed", count: batch.length, error: err.message });
+          throw err;
+        }
+      }
+    };
+    const exists = async (addresses: PublicKey[]) =>
+      (await this.connection.getMultipleAccountsInfo(addresses)).map((info) => info !== null);
+
+    // Likes of comments that were deleted since are closed as orphans
+    const likes = await this.program.account.commentLike.all([
+      { memcmp: { offset: COMMENT_LIKE_LIKER_OFFSET, bytes: user.toBase58() } },
+    ]);
+    const likedCommentExists = await exists(likes.map(({ account }) => account.comment));
+    await run("commentLikes", likes.map(({ publicKey, account }, index) => (
+      likedCommentExists[index]
+        ? this.program.methods.unlikeComment().accounts({ liker: user, comment: account.comment }).instruction()
+        : this.program.methods
+          .closeOrphanedCommentLike()
+          .accountsPartial({ like: publicKey, liker: user, comment: account.comment })
+          .instruction()
+    )));
+
+    const bookmarks = await this.fetchBookmarks(user);
+    await run("bookmarks", bookmarks.map((bookmark) =>
+      this.program.methods.removeBookmark().accounts({ user, bookmark: bookmark.publicKey }).instruction()
+    ));
+
+    const reactions = (await this.program.account.reaction.all([
+      { memcmp: { offset: REACTION_AUTHOR_OFFSET, bytes: user.toBase58() } },
+    ])).map(({ publicKey, account }) => decodeReaction(publicKey, account));
+    const reactedPostExists = await exists(reactions.map((reaction) => reaction.post));
+    await run("reactions", reactions.map((reaction, index) => (
+      reactedPostExists[index]
+        ? this.program.methods.removeReaction().accounts({ reactioner: user, post: reaction.post }).instruction()
+        : this.program.methods
+          .closeOrphanedReaction()
+          .accountsPartial({ reaction: reaction.publicKey, reactionBy: user, post: reaction.post })
+          .instruction()
+    )));
+
+    // Newest first, so a reply is always deleted before a parent that is also ours
+    const comments = (await this.program.account.comment.all([
+      { memcmp: { offset: COMMENT_AUTHOR_OFFSET, bytes: user.toBase58() } },
+    ]))
+      .map(({ publicKey, account }) => decodeComment(publicKey, account))
+      .sort((a, b) => b.createdAt - a.createdAt);
+    const commentedPostExists = await exists(comments.map((comment) => comment.post));
+    await run("comments", comments.map((comment, index) => (
+      commentedPostExists[index]
+        ? this.program.methods
+          .deleteComment()
+          .accountsPartial({
+            authority: user,
+            comment: comment.publicKey,
+            commentBy: user,
+            parent: comment.parent,
+            post: comment.post,
+          })
+          .instruction()
+        : this.program.methods
+          .closeOrphanedComment()
+          .accountsPartial({ comment: comment.publicKey, commentBy: user, post: comment.post })
+          .instruction()
+    )));
+
+    // Everything below belongs to the profile, which an earlier run may have closed
+    if (!profile) return;
+
+    // Unfollowing needs the other profile, so follows of closed profiles stay
+    const following = await this.fetchProfileFollowing(profile);
+    const followedProfiles = await this.fetchProfilesByAuthority(following.map((follow) => follow.following));
+    const unreachable = followedProfiles.filter((followed) => !followed).length;
+    if (unreachable > 0) {
+      onEvent?.({ stage: "following", status: "skipped", count: unreachable });
+    }
+    await run("following", following.flatMap((follow, index) => {
+      const followed = followedProfiles[index];
+      return followed
+        ? [this.program.methods
+          .unfollowUserProfile()
+          .accounts({
+            follower: user,
+            follow: follow.publicKey,
+            followerProfile: profile.publicKey,
+            followingProfile: followed.publicKey,
+          })
+          .instruction()]
+        : [];
+    }));
+
+    // A follower whose profile is gone is passed the address their wallet seeds
+    const followers = await this.fetchProfileFollowers(profile);
+    const followerProfiles = await this.fetchProfilesByAuthority(followers.map((follow) => follow.follower));
+    await run("followers", followers.map((follow, index) =>
+      this.program.methods
+        .removeFollower()
+        .accountsPartial({
+          user,
+          follow: follow.publicKey,
+          follower: follow.follower,
+          followerProfile: followerProfiles[index]?.publicKey ?? this.profilePda(follow.follower),
+          profile: profile.publicKey,
+        })
+        .instruction()
+    ));
+
+    // Posts go one at a time since each brings its own comments and reactions
+    for (const post of await this.fetchPostsByProfile(profile.publicKey)) {
+      try {
+        const signatures = await this.deletePostWithDependents(post.publicKey);
+        onEvent?.({ stage: "posts", status: "done", count: 1, signature: signatures[0] });
+      } catch (err: any) {
+        onEvent?.({ stage: "posts", status: "failed", count: 1, error: err.message });
+        throw err;
+      }
+    }
+
+    // A pending transfer is withdrawn first so its rent comes back too
+    const transfer = await this.fetchAuthorityTransfer(profile.publicKey);
+    await run("profile", [
+      ...(transfer
+        ? [this.program.methods.cancelAuthorityTransfer().accounts({ user, profile: profile.publicKey }).instruction()]
+        : []),
+      this.program.methods
+        .closeProfile()
+        .accounts({
+          user,
+          profile: profile.publicKey,
+          handleRecord: this.handleRecordPda(profile.handle),
+        })
+        .instruction(),
+    ]);
+  }
+
+  private async sendInstructions(instructions: TransactionInstruction[]): Promise<string> {
+    const { provider } = this.program;
+    if (!provider.sendAndConfirm) {
+      throw new Error("Wallet not connected");
+    }
+    return provider.sendAndConfirm(new Transaction().add(...instructions));
+  }
+
+  // Anchor resolves the comment address from the post's current `nextCommentIndex`
+  async createComment(post: PublicKey, content: string): Promise<string> {
+    const commenter = this.requireWallet();
+    return this.program.methods.createComment(content).accounts({ commenter, post }).rpc();
+  }
+
+  // Replies share the post's comment numbering; Anchor resolves the post from the parent
+  async createReply(parent: PublicKey, content: string): Promise<string> {
+    const commenter = this.requireWallet();
+    return this.program.methods.createReply(content).accounts({ commenter, parent }).rpc();
+  }
+
+  // Only the author can edit; the comment keeps its address
+  async updateComment(comment: PublicKey, content: string): Promise<string> {
+    const commenter = this.requireWallet();
+    return this.program.methods.updateComment(content).accounts({ commenter, comment }).rpc();
+  }
+
+  // The author or the post profile's current authority can delete; rent goes
+  // back to the author. A reply names its parent, which loses a reply if it still exists.
+  async deleteComment(comment: Comment): Promise<string> {
+    const authority = this.requireWallet();
+    return this.program.methods
+      .deleteComment()
+      .accounts({ authority, comment: comment.publicKey, parent: comment.parent })
+      .rpc();
+  }
+
+  async likeComment(comment: PublicKey): Promise<string> {
+    const liker = this.requireWallet();
+    return this.program.methods.likeComment().accounts({ liker, comment }).rpc();
+  }
+
+  async unlikeComment(comment: PublicKey): Promise<string> {
+    const liker = this.requireWallet();
+    return this.program.methods.unlikeComment().accounts({ liker, comment }).rpc();
+  }
+
+  async createReaction(post: PublicKey, kind: ReactionKind): Promise<string> {
+    const reactioner = this.requireWallet();
+    return this.program.methods
+      .createReaction(toRawReactionType(kind))
+      .accounts({ reactioner, post })
+      .rpc();
+  }
+
+  async updateReaction(post: PublicKey, kind: ReactionKind): Promise<string> {
+    const reactioner = this.requireWallet();
+    return this.program.methods
+      .updateReaction(toRawReactionType(kind))
+      .accounts({ reactioner, post })
+      .rpc();
+  }
+
+  async removeReaction(post: PublicKey): Promise<string> {
+    const reactioner = this.requireWallet();
+    return this.program.methods.removeReaction().accounts({ reactioner, post }).rpc();
+  }
+
+  async createBookmark(post: PublicKey): Promise<string> {
+    const user = this.requireWallet();
+    return this.program.methods.createBookmark().accounts({ user, post }).rpc();
+  }
+
+  // Works for bookmarks of deleted posts too, since only the bookmark is needed
+  async removeBookmark(post: PublicKey): Promise<string> {
+    const user = this.requireWallet();
+    return this.program.methods
+      .removeBookmark()
+      .accounts({ user, bookmark: this.bookmarkPda(user, post) })
+      .rpc();
+  }
+
+  async followUser(authority: PublicKey): Promise<string> {
+    const follower = this.requireWallet();
+    const [followerProfile, followingProfile] = await Promise.all([
+      this.requireProfile(follower),
+      this.requireProfile(authority),
+    ]);
+    return this.program.methods
+      .followUserProfile()
+      .accounts({
+        follower,
+        followerProfile: followerProfile.publicKey,
+        followingProfile: followingProfile.publicKey,
+      })
+      .rpc();
+  }
+
+  async unfollowUser(authority: PublicKey): Promise<string> {
+    const follower = this.requireWallet();
+    const followingProfile = await this.requireProfile(authority);
+    const [followerProfile, follow] = await Promise.all([
+      this.requireProfile(follower),
+      this.fetchFollowOf(follower, followingProfile),
+    ]);
+    if (!follow) {
+      throw new Error("Not following this profile");
+    }
+    return this.program.methods
+      .unfollowUserProfile()
+      .accounts({
+        follower,
+        follow: follow.publicKey,
+        followerProfile: followerProfile.publicKey,
+        followingProfile: followingProfile.publicKey,
+      })
+      .rpc();
+  }
+
+  // Offers the wallet's profile to `newAuthority`. Nothing moves until that
+  // wallet accepts, and the offer can be withdrawn until then.
+  async proposeAuthorityTransfer(newAuthority: PublicKey): Promise<string> {
+    const user = this.requireWallet();
+    const profile = await this.requireProfile(user);
+    return this.program.methods
+      .proposeAuthorityTransfer(newAuthority)
+      .accounts({ user, profile: profile.publicKey })
+      .rpc();
+  }
+
+  async cancelAuthorityTransfer(): Promise<string> {
+    const user = this.requireWallet();
+    const profile = await this.requireProfile(user);
+    return this.program.methods
+      .cancelAuthorityTransfer()
+      .accounts({ user, profile: profile.publicKey })
+      .rpc();
+  }
+
+  // Takes over `profile`, whose authority must have offered it to this wallet.
+  // Anchor resolves the proposing wallet from the pending transfer.
+  async acceptAuthorityTransfer(profile: PublicKey): Promise<string> {
+    const newAuthority = this.requireWallet();
+    return this.program.methods
+      .acceptAuthorityTransfer()
+      .accounts({ newAuthority, profile })
+      .rpc();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Reads
+  // ---------------------------------------------------------------------------
+
+  // The profile `authority` currently controls: the one it created, unless it
+  // has been transferred away, or one transferred to it
+  async fetchProfile(authority: PublicKey): Promise<UserProfile | null> {
+    const [profile] = await this.fetchProfilesByAuthority([authority]);
+    return profile && profile.authority.equals(authority) ? profile : null;
+  }
+
+  async fetchProfileByAddress(address: PublicKey): Promise<UserProfile | null> {
+    const raw = await this.program.account.userProfile.fetchNullable(address);
+    return raw ? decodeUserProfile(address, raw) : null;
+  }
+
+  // Batch loads the profiles named by wallets stored in follows and posts, in
+  // two RPC calls. A wallet names the profile it created, even after handing
+  // it on, or else the one its `AuthorityRecord` points to. Missing profiles
+  // come back as null.
+  async fetchProfilesByAuthority(authorities: PublicKey[]): Promise<(UserProfile | null)[]> {
+    if (authorities.length === 0) return [];
+    const addresses = await this.resolveProfileAddresses(authorities);
+    const present = addresses.filter((address): address is PublicKey => address !== null);
+    const raws = present.length > 0 ? await this.program.account.userProfile.fetchMultiple(present) : [];
+    const profiles = new Map<string, UserProfile>();
+    raws.forEach((raw, index) => {
+      if (raw) profiles.set(present[index].toBase58(), decodeUserProfile(present[index], raw));
+    });
+    return addresses.map((address) => (address ? profiles.get(address.toBase58()) ?? null : null));
+  }
+
+  private async resolveProfileAddresses(wallets: PublicKey[]): Promise<(PublicKey | null)[]> {
+    const pdas = wallets.map((wallet) => this.profilePda(wallet));
+    const records = wallets.map((wallet) => this.authorityRecordPda(wallet));
+    const infos = await this.connection.getMultipleAccountsInfo([...pdas, ...records]);
+    return wallets.map((_, index) => {
+      if (infos[index]) return pdas[index];
+      const record = infos[wallets.length + index];
+      return record ? this.program.coder.accounts.decode("authorityRecord", record.data).profile : null;
+    });
+  }
+
+  // Every wallet that has controlled `profile`, current authority first.
+  // Follows name a profile by whichever of them was its authority at the time.
+  async fetchProfileWallets(profile: UserProfile): Promise<PublicKey[]> {
+    const records = await this.program.account.authorityRecord.all([
+      { memcmp: { offset: AUTHORITY_RECORD_PROFILE_OFFSET, bytes: profile.publicKey.toBase58() } },
+    ]);
+    const wallets = new Map([[profile.authority.toBase58(), profile.authority]]);
+    records.forEach(({ publicKey, account }) => {
+      const record = decodeAuthorityRecord(publicKey, account);
+      wallets.set(record.authority.toBase58(), record.authority);
+    });
+    return Array.from(wallets.values());
+  }
+
+  async fetchAuthorityTransfer(profile: PublicKey): Promise<AuthorityTransfer | null> {
+    const address = this.authorityTransferPda(profile);
+    const raw = await this.program.account.authorityTransfer.fetchNullable(address);
+    return raw ? decodeAuthorityTransfer(address, raw) : null;
+  }
+
+  // Transfers waiting for `newAuthority` to accept them
+  async fetchIncomingAuthorityTransfers(newAuthority: PublicKey): Promise<AuthorityTransfer[]> {
+    const accounts = await this.program.account.authorityTransfer.all([
+      { memcmp: { offset: AUTHORITY_TRANSFER_NEW_AUTHORITY_OFFSET, bytes: newAuthority.toBase58() } },
+    ]);
+    return accounts.map(({ publicKey, account }) => decodeAuthorityTransfer(publicKey, account));
+  }
+
+  async fetchHandleRecord(handle: string): Promise<HandleRecord | null> {
+    const address = this.handleRecordPda(handle);
+    const raw = await this.program.account.handleRecord.fetchNullable(address);
+    return raw ? decodeHandleRecord(address, raw) : null;
+  }
+
+  // Address of the profile that registered `handle` (case-insensitive), if any
+  async resolveHandle(handle: string): Promise<PublicKey | null> {
+    return (await this.fetchHandleRecord(handle))?.profile ?? null;
+  }
+
+  // A handle is available when nobody registered it, or `ownProfile` already holds it
+  async isHandleAvailable(handle: string, ownProfile?: PublicKey): Promise<boolean> {
+    const holder = await this.resolveHandle(handle);
+    return !holder || (!!ownProfile && holder.equals(ownProfile));
+  }
+
+  // Exact handle match via memcmp on the borsh string (u32 length prefix + bytes).
+  // Profiles created before the handle registry may share a handle, so this can
+  // return several profiles, oldest first.
+  async fetchProfilesByHandle(handle: string): Promise<UserProfile[]> {
+    const encoded = Buffer.from(handle, "utf8");
+    const prefix = Buffer.alloc(4);
+    prefix.writeUInt32LE(encoded.length, 0);
+    const accounts = await this.program.account.userProfile.all([
+      {
+        memcmp: {
+          offset: PROFILE_HANDLE_OFFSET,
+          bytes: utils.bytes.bs58.encode(Buffer.concat([prefix, encoded])),
+        },
+      },
+    ]);
+    return accounts
+      .map(({ publicKey, account }) => decodeUserProfile(publicKey, account))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // Resolves a route id that is either a base58 wallet address or a handle
+  async resolveProfile(id: string): Promise<UserProfile | null> {
+    // Links with a wallet the profile has since been transferred from still work
+    const authority = parsePublicKey(id);
+    if (authority) {
+      const [profile] = await this.fetchProfilesByAuthority([authority]);
+      if (profile) return profile;
+    }
+    const handle = id.replace(/^@/, "");
+    const registered = await this.resolveHandle(handle);
+    if (registered) {
+      const profile = await this.fetchProfileByAddress(registered);
+      if (profile) return profile;
+    }
+    // Falls back to a scan for profiles created before the registry
+    const [profile] = await this.fetchProfilesByHandle(handle);
+    return profile ?? null;
+  }
+
+  async fetchAllProfiles(): Promise<UserProfile[]> {
+    const accounts = await this.program.account.userProfile.all();
+    return accounts.map(({ publicKey, account }) => decodeUserProfile(publicKey, account));
+  }
+
+  async fetchPost(address: PublicKey): Promise<Post | null> {
+    const raw = await this.program.account.post.fetchNullable(address);
+    return raw ? decodePost(address, raw) : null;
+  }
+
+  // Newest first
+  async fetchAllPosts(): Promise<Post[]> {
+    const accounts = await this.program.account.post.all();
+    return accounts
+      .map(({ publicKey, account }) => decodePost(publicKey, account))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Every post's address and creation time, newest first. Only the 8 byte
+  // `created_at` of each account is downloaded.
+  async fetchPostIndex(filters: GetProgramAccountsFilter[] = []): Promise<PostIndexEntry[]> {
+    const accounts = await this.connection.getProgramAccounts(this.programId, {
+      dataSlice: { offset: POST_CREATED_AT_OFFSET, length: 8 },
+      filters: [{ memcmp: this.program.coder.accounts.memcmp("post") }, ...filters],
+    });
+    return accounts
+      .map(({ pubkey, account }) => ({
+        publicKey: pubkey,
+        createdAt: Number(account.data.readBigUInt64LE(0)),
+      }))
+      .sort((a, b) => compareNewestFirst(toCursor(a), toCursor(b)));
+  }
+
+  // A post's earlier captions, oldest first
+  async fetchPostRevisions(post: PublicKey): Promise<PostRevision[]> {
+    const accounts = await this.program.account.postRevision.all([
+      { memcmp: { offset: POST_REVISION_POST_OFFSET, bytes: post.toBase58() } },
+    ]);
+    return accounts
+      .map(({ publicKey, account }) => decodePostRevision(publicKey, account))
+      .sort((a, b) => a.index - b.index);
+  }
+
+  // Loads posts in one RPC call, in the given order; closed accounts are skipped
+  async fetchPostsByAddress(addresses: PublicKey[]): Promise<Post[]> {
+    if (addresses.length === 0) return [];
+    const raws = await this.program.account.post.fetchMultiple(addresses);
+    return raws.flatMap((raw, index) => (raw ? [decodePost(addresses[index], raw)] : []));
+  }
+
+  // One page of the global feed, newest first, starting after `cursor`
+  async fetchPostPage(cursor: PostCursor | null, limit = 10): Promise<PostPage> {
+    return this.pageFromIndex(await this.fetchPostIndex(), cursor, limit);
+  }
+
+  // One page of posts by the profiles `follower` follows, newest first.
+  // Posts are matched by profile, so they include those written before a transfer.
+  async fetchFollowingPostPage(follower: PublicKey, cursor: PostCursor | null, limit = 10): Promise<PostPage> {
+    const followed = await this.fetchFollowedProfileAddresses(follower);
+    const indexes = await Promise.all(
+      followed.map((address) =>
+        this.fetchPostIndex([{ memcmp: { offset: POST_PROFILE_OFFSET, bytes: address.toBase58() } }])
+      )
+    );
+    const merged = indexes.flat().sort((a, b) => compareNewestFirst(toCursor(a), toCursor(b)));
+    return this.pageFromIndex(merged, cursor, limit);
+  }
+
+  // Addresses of the profiles that the profile `follower` controls follows, without duplicates
+  async fetchFollowedProfileAddresses(follower: PublicKey): Promise<PublicKey[]> {
+    const profile = await this.fetchProfile(follower);
+    const follows = profile ? await this.fetchProfileFollowing(profile) : [];
+    const followed = new Map<string, PublicKey>();
+    (await this.resolveProfileAddresses(follows.map((follow) => follow.following))).forEach((address) => {
+      if (address) followed.set(address.toBase58(), address);
+    });
+    return Array.from(followed.values());
+  }
+
+  private async pageFromIndex(index: PostIndexEntry[], cursor: PostCursor | null, limit: number): Promise<PostPage> {
+    const start = cursor ? index.findIndex((entry) => compareNewestFirst(toCursor(entry), cursor) > 0) : 0;
+    if (start === -1) {
+      return { posts: [], nextCursor: null };
+    }
+
+    const entries = index.slice(start, start + limit);
+    const posts = await this.fetchPostsByAddress(entries.map((entry) => entry.publicKey));
+    const hasMore = start + limit < index.length;
+    return { posts, nextCursor: hasMore ? toCursor(entries[entries.length - 1]) : null };
+  }
+
+  // Newest first
+  async fetchPostsByProfile(profile: PublicKey): Promise<Post[]> {
+    const accounts = await this.program.account.post.all([
+      { memcmp: { offset: POST_PROFILE_OFFSET, bytes: profile.toBase58() } },
+    ]);
+    return accounts
+      .map(({ publicKey, account }) => decodePost(publicKey, account))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Joins each post with its profile's handle, loading every distinct profile in one RPC call
+  async withCreatorHandles(posts: Post[]): Promise<FeedPost[]> {
+    const profileAddresses = new Map<string, PublicKey>();
+    posts.forEach((post) => profileAddresses.set(post.profile.toBase58(), post.profile));
+
+    const addresses = Array.from(profileAddresses.values());
+    const raws = addresses.length > 0 ? await this.program.account.userProfile.fetchMultiple(addresses) : [];
+    const handles = new Map<string, string>();
+    raws.forEach((raw, index) => {
+      if (raw) handles.set(addresses[index].toBase58(), raw.handle);
+    });
+
+    return posts.map((post) => {
+      const creatorKey = post.creator.toBase58();
+      return {
+        ...post,
+        creatorHandle: handles.get(post.profile.toBase58()) ?? `User ${creatorKey.slice(0, 8)}...`,
+      };
+    });
+  }
+
+  async fetchComment(address: PublicKey): Promise<Comment | null> {
+    const raw = await this.program.account.comment.fetchNullable(address);
+    return raw ? decodeComment(address, raw) : null;
+  }
+
+  // Oldest first
+  async fetchComments(post: PublicKey): Promise<Comment[]> {
+    const accounts = await this.program.account.comment.all([
+      { memcmp: { offset: COMMENT_POST_OFFSET, bytes: post.toBase58() } },
+    ]);
+    return accounts
+      .map(({ publicKey, account }) => decodeComment(publicKey, account))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // Every comment on every post, in no particular order
+  async fetchAllComments(): Promise<Comment[]> {
+    const accounts = await this.program.account.comment.all();
+    return accounts.map(({ publicKey, account }) => decodeComment(publicKey, account));
+  }
+
+  // Returns the set of `comments` that `liker` has liked, in one RPC call
+  async fetchLikedCommentSet(liker: PublicKey, comments: PublicKey[]): Promise<Set<string>> {
+    if (comments.length === 0) return new Set();
+    const addresses = comments.map((comment) => this.commentLikePda(comment, liker));
+    const infos = await this.connection.getMultipleAccountsInfo(addresses);
+    const liked = new Set<string>();
+    infos.forEach((info, index) => {
+      if (info) liked.add(comments[index].toBase58());
+    });
+    return liked;
+  }
+
+  async fetchCommentLikes(comment: PublicKey): Promise<CommentLike[]> {
+    const accounts = await this.program.account.commentLike.all([
+      { memcmp: { offset: COMMENT_LIKE_COMMENT_OFFSET, bytes: comment.toBase58() } },
+    ]);
+    return accounts.map(({ publicKey, account }) => decodeCommentLike(publicKey, account));
+  }
+
+  async fetchReaction(post: PublicKey, reactioner: PublicKey): Promise<Reaction | null> {
+    const address = this.reactionPda(post, reactioner);
+    const raw = await this.program.account.reaction.fetchNullable(address);
+    return raw ? decodeReaction(address, raw) : null;
+  }
+
+  async fetchReactionsByPost(post: PublicKey): Promise<Reaction[]> {
+    const accounts = await this.program.account.reaction.all([
+      { memcmp: { offset: REACTION_POST_OFFSET, bytes: post.toBase58() } },
+    ]);
+    return accounts.map(({ publicKey, account }) => decodeReaction(publicKey, account));
+  }
+
+  // Loads `reactioner`'s reaction on each post in one RPC call, keyed by post address
+  async fetchReactionsByUser(reactioner: PublicKey, posts: PublicKey[]): Promise<Map<string, Reaction>> {
+    const reactions = new Map<string, Reaction>();
+    if (posts.length === 0) return reactions;
+    const addresses = posts.map((post) => this.reactionPda(post, reactioner));
+    const raws = await this.program.account.reaction.fetchMultiple(addresses);
+    raws.forEach((raw, index) => {
+      if (raw) reactions.set(posts[index].toBase58(), decodeReaction(addresses[index], raw));
+    });
+    return reactions;
+  }
+
+  // Newest first, including bookmarks of posts that were deleted since
+  async fetchBookmarks(user: PublicKey): Promise<Bookmark[]> {
+    const accounts = await this.program.account.bookmark.all([
+      { memcmp: { offset: BOOKMARK_USER_OFFSET, bytes: user.toBase58() } },
+    ]);
+    return accounts
+      .map(({ publicKey, account }) => decodeBookmark(publicKey, account))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Posts `user` saved, most recently saved first; deleted posts are skipped
+  async fetchBookmarkedPosts(user: PublicKey): Promise<FeedPost[]> {
+    const bookmarks = await this.fetchBookmarks(user);
+    const posts = await this.fetchPostsByAddress(bookmarks.map((bookmark) => bookmark.post));
+    return this.withCreatorHandles(posts);
+  }
+
+  // Returns the set of `posts` that `user` has bookmarked, in one RPC call
+  async fetchBookmarkedSet(user: PublicKey, posts: PublicKey[]): Promise<Set<string>> {
+    if (posts.length === 0) return new Set();
+    const addresses = posts.map((post) => this.bookmarkPda(user, post));
+    const infos = await this.connection.getMultipleAccountsInfo(addresses);
+    const bookmarked = new Set<string>();
+    infos.forEach((info, index) => {
+      if (info) bookmarked.add(posts[index].toBase58());
+    });
+    return bookmarked;
+  }
+
+  async fetchFollow(followerProfile: PublicKey, followingProfile: PublicKey): Promise<Follow | null> {
+    const address = this.followPda(followerProfile, followingProfile);
+    const raw = await this.program.account.follow.fetchNullable(address);
+    return raw ? decodeFollow(address, raw) : null;
+  }
+
+  async fetchFollowing(follower: PublicKey): Promise<Follow[]> {
+    const accounts = await this.program.account.follow.all([
+      { memcmp: { offset: FOLLOW_FOLLOWER_OFFSET, bytes: follower.toBase58() } },
+    ]);
+    return accounts.map(({ publicKey, account }) => decodeFollow(publicKey, account));
+  }
+
+  async fetchFollowers(following: PublicKey): Promise<Follow[]> {
+    const accounts = await this.program.account.follow.all([
+      { memcmp: { offset: FOLLOW_FOLLOWING_OFFSET, bytes: following.toBase58() } },
+    ]);
+    return accounts.map(({ publicKey, account }) => decodeFollow(publicKey, account));
+  }
+
+  // Follows of `profile` made under any wallet it has had
+  async fetchProfileFollowers(profile: UserProfile): Promise<Follow[]> {
+    const wallets = await this.fetchProfileWallets(profile);
+    return (await Promise.all(wallets.map((wallet) => this.fetchFollowers(wallet)))).flat();
+  }
+
+  async fetchProfileFollowing(profile: UserProfile): Promise<Follow[]> {
+    const wallets = await this.fetchProfileWallets(profile);
+    return (await Promise.all(wallets.map((wallet) => this.fetchFollowing(wallet)))).flat();
+  }
+
+  // The follow from the profile `follower` controls to `following`. Follows
+  // made before they were seeded by profile are addressed by whichever wallets
+  // the two profiles had at the time, so those are tried too.
+  async fetchFollowOf(follower: PublicKey, following: UserProfile): Promise<Follow | null> {
+    const followerProfile = await this.fetchProfile(follower);
+    if (!followerProfile) return null;
+    const [followerWallets, followingWallets] = await Promise.all([
+      this.fetchProfileWallets(followerProfile),
+      this.fetchProfileWallets(following),
+    ]);
+    const addresses = [
+      this.followPda(followerProfile.publicKey, following.publicKey),
+      ...followerWallets.flatMap((from) => followingWallets.map((to) => this.followPda(from, to))),
+    ];
+    const raws = await this.program.account.follow.fetchMultiple(addresses);
+    const index = raws.findIndex((raw) => raw !== null);
+    return index === -1 ? null : decodeFollow(addresses[index], raws[index]!);
+  }
+
+  // Finds the follows from the profile `follower` controls to the profiles of
+  // `followings` authorities, keyed by authority, counting follows made before either moved
+  async fetchFollowedMap(follower: PublicKey, followings: PublicKey[]): Promise<Map<string, Follow>> {
+    const followed = new Map<string, Follow>();
+    if (followings.length === 0) return followed;
+    const profile = await this.fetchProfile(follower);
+    if (!profile) return followed;
+    const follows = await this.fetchProfileFollowing(profile);
+    const [followedAddresses, candidateAddresses] = await Promise.all([
+      this.resolveProfileAddresses(follows.map((follow) => follow.following)),
+      this.resolveProfileAddresses(followings),
+    ]);
+    const followsByProfile = new Map<string, Follow>();
+    followedAddresses.forEach((address, index) => {
+      if (address) followsByProfile.set(address.toBase58(), follows[index]);
+    });
+    candidateAddresses.forEach((address, index) => {
+      const follow = address && followsByProfile.get(address.toBase58());
+      if (follow) followed.set(followings[index].toBase58(), follow);
+    });
+    return followed;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Events
+  // ---------------------------------------------------------------------------
+
+  // See `subscribeToSolagramEvents`; returns the unsubscribe function
+  subscribeToEvents(handlers: SolagramEventHandlers): () => void {
+    return subscribeToSolagramEvents(this.program, handlers);
+  }
+
+  // Calls `onChange` with a post each time its account is written: when it is
+  // created, edited, or its comment and reaction counters move. Closed posts are
+  // not reported (their `PostDeleted` event is). Returns the unsubscribe function.
+  subscribeToPosts(onChange: (post: Post) => void): () => void {
+    const subscription = this.connection.onProgramAccountChange(
+      this.programId,
+      ({ accountId, accountInfo }) => {
+        try {
+          onChange(decodePost(accountId, this.program.coder.accounts.decode("post", accountInfo.data)));
+        } catch (err) {
+          console.error("Failed to decode post update:", err);
+        }
+      },
+      { filters: [{ memcmp: this.program.coder.accounts.memcmp("post") }] }
+    );
+
+    return () => {
+      this.connection.removeProgramAccountChangeListener(subscription).catch((err) => {
+        console.error("Failed to remove post subscription:", err);
+      });
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { clusterApiUrl, PublicKey } from "@solana/web3.js";
+import { SOLAGRAM_PROGRAM_ID } from "./constants";
+
+export type ClusterName = "localnet" | "devnet" | "mainnet-beta";
+
+export const CLUSTER_NAMES: ClusterName[] = ["localnet", "devnet", "mainnet-beta"];
+
+export const DEFAULT_CLUSTER: ClusterName = "devnet";
+
+// Mirrors the `[programs.*]` sections of Anchor.toml. Clusters without an entry
+// use the `declare_id!` address, which is where `anchor deploy` puts the program
+export const SOLAGRAM_PROGRAM_IDS: Partial<Record<ClusterName, PublicKey>> = {
+  localnet: new PublicKey("o7WMnMvBfhf21mXMeoi2yAdmfiCsEaKGZE3DHT1E1qF"),
+  devnet: new PublicKey("o7WMnMvBfhf21mXMeoi2yAdmfiCsEaKGZE3DHT1E1qF"),
+};
+
+// `NEXT_PUBLIC_SOLANA_RPC_ENDPOINT` replaces the public devnet endpoint, e.g.
+// with a provider that has higher rate limits
+export const CLUSTER_ENDPOINTS: Record<ClusterName, string> = {
+  localnet: "http://127.0.0.1:8899",
+  devnet: process.env.NEXT_PUBLIC_SOLANA_RPC_ENDPOINT || clusterApiUrl("devnet"),
+  "mainnet-beta": clusterApiUrl("mainnet-beta"),
+};
+
+// Where the app reads and writes: one of the named clusters, or any RPC
+// endpoint together with the program ID deployed there
+export interface ClusterConfig {
+  name: ClusterName | "custom";
+  endpoint: string;
+  programId: PublicKey;
+}
+
+export function isClusterName(value: unknown): value is ClusterName {
+  return CLUSTER_NAMES.includes(value as ClusterName);
+}
+
+export function namedCluster(name: ClusterName): ClusterConfig {
+  return {
+    name,
+    endpoint: CLUSTER_ENDPOINTS[name],
+    programId: SOLAGRAM_PROGRAM_IDS[name] ?? SOLAGRAM_PROGRAM_ID,
+  };
+}
+
+export function customCluster(endpoint: string, programId: PublicKey = SOLAGRAM_PROGRAM_ID): ClusterConfig {
+  return { name: "custom", endpoint, programId };
+}
@@ -0,0 +1,41 @@
+import { PublicKey } from "@solana/web3.js";
+
+// Program ID from `declare_id!`; see `clusters.ts` for the deployment on each cluster
+export const SOLAGRAM_PROGRAM_ID = new PublicKey("o7WMnMvBfhf21mXMeoi2yAdmfiCsEaKGZE3DHT1E1qF");
+
+// Mirrors the length limits in `states.rs`
+export const MAX_HANDLE_LENGTH = 24;
+export const MAX_BIO_LENGTH = 160;
+export const MAX_URI_LENGTH = 200;
+export const MAX_TEXT_LENGTH = 280;
+
+// PDA seed prefixes used by the program
+export const PROFILE_SEED = "profile";
+export const POST_SEED = "post";
+export const COMMENT_SEED = "comment";
+export const REACTION_SEED = "reaction";
+export const FOLLOW_SEED = "follow";
+export const COMMENT_LIKE_SEED = "comment_like";
+export const BOOKMARK_SEED = "bookmark";
+export const POST_REVISION_SEED = "post_revision";
+export const HANDLE_SEED = "handle";
+export const AUTHORITY_SEED = "authority";
+export const AUTHORITY_TRANSFER_SEED = "authority_transfer";
+
+// Byte offsets of the memcmp-able fields (after the 8 byte discriminator)
+export const PROFILE_HANDLE_OFFSET = 8 + 32;
+export const POST_PROFILE_OFFSET = 8;
+export const POST_CREATOR_OFFSET = 8 + 32;
+export const POST_CREATED_AT_OFFSET = 8 + 32 + 32;
+export const COMMENT_POST_OFFSET = 8;
+export const COMMENT_AUTHOR_OFFSET = 8 + 32;
+export const COMMENT_LIKE_COMMENT_OFFSET = 8;
+export const COMMENT_LIKE_LIKER_OFFSET = 8 + 32;
+export const REACTION_POST_OFFSET = 8;
+export const REACTION_AUTHOR_OFFSET = 8 + 32;
+export const FOLLOW_FOLLOWER_OFFSET = 8;
+export const FOLLOW_FOLLOWING_OFFSET = 8 + 32;
+export const BOOKMARK_USER_OFFSET = 8;
+export const POST_REVISION_POST_OFFSET = 8;
+export const AUTHORITY_RECORD_PROFILE_OFFSET = 8;
+export const AUTHORITY_TRANSFER_NEW_AUTHORITY_OFFSET = 8 + 32 + 32;
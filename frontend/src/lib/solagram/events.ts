@@ -0,0 +1,152 @@
+import { IdlEvents, Program } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import type { SolanaInstagram } from "../../anchor-idl/idl";
+import { fromRawReactionType, ReactionKind } from "./accounts";
+
+type RawEvents = IdlEvents<SolanaInstagram>;
+
+export interface ProfileCreatedEvent {
+  profile: PublicKey;
+  authority: PublicKey;
+  handle: string;
+  createdAt: number;
+}
+
+export interface PostCreatedEvent {
+  post: PublicKey;
+  profile: PublicKey;
+  creator: PublicKey;
+  createdAt: number;
+}
+
+export interface PostDeletedEvent {
+  post: PublicKey;
+  profile: PublicKey;
+}
+
+// Also emitted for replies, with `parent` set
+export interface CommentAddedEvent {
+  comment: PublicKey;
+  post: PublicKey;
+  commentBy: PublicKey;
+  parent: PublicKey | null;
+  createdAt: number;
+}
+
+export interface ReactionAddedEvent {
+  reaction: PublicKey;
+  post: PublicKey;
+  reactionBy: PublicKey;
+  kind: ReactionKind;
+}
+
+export interface FollowedEvent {
+  follow: PublicKey;
+  follower: PublicKey;
+  followerProfile: PublicKey;
+  followingProfile: PublicKey;
+  createdAt: number;
+}
+
+// Also emitted when a profile removes a follower; `followerProfile` may be closed then
+export interface UnfollowedEvent {
+  follow: PublicKey;
+  follower: PublicKey;
+  followerProfile: PublicKey;
+  followingProfile: PublicKey;
+}
+
+// The transaction that logged an event
+export interface SolagramEventContext {
+  slot: number;
+  signature: string;
+}
+
+type Handler<T> = (event: T, context: SolagramEventContext) => void;
+
+// Only the events with a handler are subscribed to
+export interface SolagramEventHandlers {
+  onProfileCreated?: Handler<ProfileCreatedEvent>;
+  onPostCreated?: Handler<PostCreatedEvent>;
+  onPostDeleted?: Handler<PostDeletedEvent>;
+  onCommentAdded?: Handler<CommentAddedEvent>;
+  onReactionAdded?: Handler<ReactionAddedEvent>;
+  onFollowed?: Handler<FollowedEvent>;
+  onUnfollowed?: Handler<UnfollowedEvent>;
+}
+
+/**
+ * Calls `handlers` for each event the program logs from now on, decoded into
+ * camelCase objects with numbers instead of BN. Events arrive over the
+ * connection's websocket at its commitment, and failed transactions log none.
+ *
+ * Returns a function that removes every listener it added.
+ */
+export function subscribeToSolagramEvents(
+  program: Program<SolanaInstagram>,
+  handlers: SolagramEventHandlers
+): () => void {
+  const listeners: number[] = [];
+
+  function listen<E extends keyof RawEvents & string, T>(
+    name: E,
+    handler: Handler<T> | undefined,
+    decode: (raw: RawEvents[E]) => T
+  ) {
+    if (!handler) return;
+    listeners.push(program.addEventListener(name, (raw, slot, signature) => {
+      handler(decode(raw), { slot, signature });
+    }));
+  }
+
+  listen("profileCreated", handlers.onProfileCreated, (raw) => ({
+    profile: raw.profile,
+    authority: raw.authority,
+    handle: raw.handle,
+    createdAt: raw.createdAt.toNumber(),
+  }));
+  listen("postCreated", handlers.onPostCreated, (raw) => ({
+    post: raw.post,
+    profile: raw.profile,
+    creator: raw.creator,
+    createdAt: raw.createdAt.toNumber(),
+  }));
+  listen("postDeleted", handlers.onPostDeleted, (raw) => ({
+    post: raw.post,
+    profile: raw.profile,
+  }));
+  listen("commentAdded", handlers.onCommentAdded, (raw) => ({
+    comment: raw.comment,
+    post: raw.post,
+    commentBy: raw.commentBy,
+    parent: raw.parent ?? null,
+    createdAt: raw.createdAt.toNumber(),
+  }));
+  listen("reactionAdded", handlers.onReactionAdded, (raw) => ({
+    reaction: raw.reaction,
+    post: raw.post,
+    reactionBy: raw.reactionBy,
+    kind: fromRawReactionType(raw.reactionType),
+  }));
+  listen("followed", handlers.onFollowed, (raw) => ({
+    follow: raw.follow,
+    follower: raw.follower,
+    followerProfile: raw.followerProfile,
+    followingProfile: raw.followingProfile,
+    createdAt: raw.createdAt.toNumber(),
+  }));
+  listen("unfollowed", handlers.onUnfollowed, (raw) => ({
+    follow: raw.follow,
+    follower: raw.follower,
+    followerProfile: raw.followerProfile,
+    followingProfile: raw.followingProfile,
+  }));
+
+  return () => {
+    listeners.forEach((listener) => {
+      program.removeEventListener(listener).catch((err) => {
+        console.error("Failed to remove Solagram event listener:", err);
+      });
+    });
+  };
+}
@@ -0,0 +1,7 @@
+export * from "./constants";
+export * from "./clusters";
+export * from "./pda";
+export * from "./accounts";
+export * from "./events";
+export * from "./client";
+export * from "./indexer-api";
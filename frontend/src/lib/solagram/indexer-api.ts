@@ -0,0 +1,139 @@
+import { PublicKey } from "@solana/web3.js";
+import { Comment, FeedPost, UserProfile } from "./accounts";
+import type { PostCursor } from "./client";
+
+// JSON forms of the indexed accounts served by the `/api` routes: the same
+// objects the client returns, with every address as a base58 string
+type Wire<T> = {
+  [K in keyof T]: T[K] extends PublicKey ? string : T[K] extends PublicKey | null ? string | null : T[K];
+};
+
+export type WireUserProfile = Wire<UserProfile>;
+export type WireFeedPost = Wire<FeedPost>;
+export type WireComment = Wire<Comment>;
+
+export interface WireFeedPage {
+  posts: WireFeedPost[];
+  nextCursor: PostCursor | null;
+}
+
+export interface FeedPage {
+  posts: FeedPost[];
+  nextCursor: PostCursor | null;
+}
+
+const PROFILE_ADDRESSES = ["publicKey", "authority"] as const;
+const POST_ADDRESSES = ["publicKey", "profile", "creator"] as const;
+const COMMENT_ADDRESSES = ["publicKey", "post", "commentBy", "parent"] as const;
+
+function toWire<T extends object>(value: T, fields: readonly (keyof T)[]): Wire<T> {
+  const wire: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  fields.forEach((field) => {
+    const address = value[field] as PublicKey | null;
+    wire[field as string] = address ? address.toBase58() : null;
+  });
+  return wire as Wire<T>;
+}
+
+function fromWire<T extends object>(wire: Wire<T>, fields: readonly (keyof T)[]): T {
+  const value: Record<string, unknown> = { ...(wire as Record<string, unknown>) };
+  fields.forEach((field) => {
+    const address = (wire as Record<string, unknown>)[field as string] as string | null;
+    value[field as string] = address ? new PublicKey(address) : null;
+  });
+  return value as T;
+}
+
+export const toWireProfile = (profile: UserProfile) => toWire(profile, PROFILE_ADDRESSES);
+export const fromWireProfile = (wire: WireUserProfile) => fromWire<UserProfile>(wire, PROFILE_ADDRESSES);
+export const toWireFeedPost = (post: FeedPost) => toWire(post, POST_ADDRESSES);
+export const fromWireFeedPost = (wire: WireFeedPost) => fromWire<FeedPost>(wire, POST_ADDRESSES);
+export const toWireComment = (comment: Comment) => toWire(comment, COMMENT_ADDRESSES);
+export const fromWireComment = (wire: WireComment) => fromWire<Comment>(wire, COMMENT_ADDRESSES);
+
+// Cursors travel in the query string as `<createdAt>.<publicKey>`
+export function encodeCursor(cursor: PostCursor): string {
+  return `${cursor.createdAt}.${cursor.publicKey}`;
+}
+
+export function decodeCursor(value: string): PostCursor | null {
+  const [createdAt, publicKey] = value.split(".");
+  const time = Number(createdAt);
+  return Number.isInteger(time) && publicKey ? { createdAt: time, publicKey } : null;
+}
+
+// Whether the browser should read through the indexer API at all
+export function isIndexerApiEnabled(value = process.env.NEXT_PUBLIC_SOLAGRAM_INDEXER): boolean {
+  return value === "true";
+}
+
+export class IndexerApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "IndexerApiError";
+  }
+}
+
+/**
+ * Reads from the Next.js routes backed by the off-chain indexer. Every request
+ * names `programId`, and the routes refuse (404) when the index was built for
+ * another deployment, so a client on the wrong cluster falls back to RPC.
+ */
+export class SolagramIndexerApi {
+  constructor(readonly programId: PublicKey, private readonly baseUrl = "") {}
+
+  private async get<T>(path: string, params: Record<string, string | undefined> = {}): Promise<T> {
+    const search = new URLSearchParams({ program: this.programId.toBase58() });
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) search.set(key, value);
+    });
+
+    const response = await fetch(`${this.baseUrl}${path}?${search}`, { cache: "no-store" });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new IndexerApiError(response.status, body?.error ?? response.statusText);
+    }
+    return response.json();
+  }
+
+  // One page of the global feed, newest first, in the same order and with the
+  // same cursors as `SolagramClient.fetchPostPage`
+  async fetchFeedPage(cursor: PostCursor | null, limit = 10): Promise<FeedPage> {
+    const page = await this.get<WireFeedPage>("/api/feed", {
+      cursor: cursor ? encodeCursor(cursor) : undefined,
+      limit: String(limit),
+    });
+    return { posts: page.posts.map(fromWireFeedPost), nextCursor: page.nextCursor };
+  }
+
+  // Every profile ordered by handle, or those whose handle starts with `query`
+  async fetchProfiles(query?: string): Promise<UserProfile[]> {
+    const { profiles } = await this.get<{ profiles: WireUserProfile[] }>("/api/profiles", { q: query });
+    return profiles.map(fromWireProfile);
+  }
+
+  // A post's comments and replies, oldest first
+  async fetchComments(post: PublicKey): Promise<Comment[]> {
+    const { comments } = await this.get<{ comments: WireComment[] }>(`/api/posts/${post.toBase58()}/comments`);
+    return comments.map(fromWireComment);
+  }
+}
+
+/**
+ * Runs `query` against the indexer when one is configured and falls back to
+ * `fallback` (normally the RPC read) when it isn't or the request fails.
+ */
+export async function withIndexerFallback<T>(
+  indexer: SolagramIndexerApi | null,
+  query: (indexer: SolagramIndexerApi) => Promise<T>,
+  fallback: () => Promise<T>
+): Promise<T> {
+  if (!indexer) return fallback();
+
+  try {
+    return await query(indexer);
+  } catch (err) {
+    console.warn("Indexer API unavailable, reading from RPC:", err);
+    return fallback();
+  }
+}
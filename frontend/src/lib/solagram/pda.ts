@@ -0,0 +1,124 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import {
+  AUTHORITY_SEED,
+  AUTHORITY_TRANSFER_SEED,
+  BOOKMARK_SEED,
+  COMMENT_LIKE_SEED,
+  COMMENT_SEED,
+  FOLLOW_SEED,
+  HANDLE_SEED,
+  POST_REVISION_SEED,
+  POST_SEED,
+  PROFILE_SEED,
+  REACTION_SEED,
+  SOLAGRAM_PROGRAM_ID,
+} from "./constants";
+
+// Little-endian u64, matching `&counter.to_le_bytes()`
+export function indexSeed(index: number): Buffer {
+  return new BN(index).toArrayLike(Buffer, "le", 8);
+}
+
+// Handles are unique case-insensitively, mirroring `normalize_handle` in `states.rs`
+export function normalizeHandle(handle: string): string {
+  return handle.replace(/[A-Z]/g, (c) => c.toLowerCase());
+}
+
+export function deriveProfilePda(authority: PublicKey, programId = SOLAGRAM_PROGRAM_ID): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(PROFILE_SEED), authority.toBuffer()],
+    programId
+  )[0];
+}
+
+// `createdSlot` and `index` are the creator profile's `createdSlot` and its
+// `postCount` when the post was created
+export function derivePostPda(creator: PublicKey, createdSlot: number, index: number, programId = SOLAGRAM_PROGRAM_ID): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(POST_SEED), creator.toBuffer(), indexSeed(createdSlot), indexSeed(index)],
+    programId
+  )[0];
+}
+
+// `index` counts the post's earlier edits; revision 0 holds the original caption
+export function derivePostRevisionPda(post: PublicKey, index: number, programId = SOLAGRAM_PROGRAM_ID): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(POST_REVISION_SEED), post.toBuffer(), indexSeed(index)],
+    programId
+  )[0];
+}
+
+// `index` is the post's `nextCommentIndex` when the comment was created
+export function deriveCommentPda(post: PublicKey, index: number, programId = SOLAGRAM_PROGRAM_ID): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(COMMENT_SEED), post.toBuffer(), indexSeed(index)],
+    programId
+  )[0];
+}
+
+export function deriveReactionPda(
+  post: PublicKey,
+  reactioner: PublicKey,
+  programId = SOLAGRAM_PROGRAM_ID
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(REACTION_SEED), post.toBuffer(), reactioner.toBuffer()],
+    programId
+  )[0];
+}
+
+export function deriveCommentLikePda(
+  comment: PublicKey,
+  liker: PublicKey,
+  programId = SOLAGRAM_PROGRAM_ID
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(COMMENT_LIKE_SEED), comment.toBuffer(), liker.toBuffer()],
+    programId
+  )[0];
+}
+
+// Seeded by profile addresses, not wallets, so a follow survives a transfer of either profile
+export function deriveFollowPda(
+  followerProfile: PublicKey,
+  followingProfile: PublicKey,
+  programId = SOLAGRAM_PROGRAM_ID
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(FOLLOW_SEED), followerProfile.toBuffer(), followingProfile.toBuffer()],
+    programId
+  )[0];
+}
+
+export function deriveBookmarkPda(
+  user: PublicKey,
+  post: PublicKey,
+  programId = SOLAGRAM_PROGRAM_ID
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(BOOKMARK_SEED), user.toBuffer(), post.toBuffer()],
+    programId
+  )[0];
+}
+
+export function deriveHandleRecordPda(handle: string, programId = SOLAGRAM_PROGRAM_ID): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(HANDLE_SEED), Buffer.from(normalizeHandle(handle), "utf8")],
+    programId
+  )[0];
+}
+
+export function deriveAuthorityRecordPda(authority: PublicKey, programId = SOLAGRAM_PROGRAM_ID): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(AUTHORITY_SEED), authority.toBuffer()],
+    programId
+  )[0];
+}
+
+export function deriveAuthorityTransferPda(profile: PublicKey, programId = SOLAGRAM_PROGRAM_ID): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(AUTHORITY_TRANSFER_SEED), profile.toBuffer()],
+    programId
+  )[0];
+}
@@ -0,0 +1,117 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { PublicKey } from "@solana/web3.js";
+import { utils } from "@coral-xyz/anchor";
+import nacl from "tweetnacl";
+import {
+  decodeMessageHeader,
+  parseSignInMessage,
+  SignInFields,
+  SignInNonce,
+  SIWS_ADDRESS_HEADER,
+  SIWS_MESSAGE_HEADER,
+  SIWS_SIGNATURE_HEADER,
+} from "./siws";
+
+// Server-side half of the upload sign-in. Nonces are stateless: each one carries
+// an HMAC over its issue and expiry times, so any server instance sharing
+// UPLOAD_AUTH_SECRET can check it without a session store. A signed message is
+// good for one upload: nonces seen by this process are remembered until they
+// expire and refused the second time.
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+// Without a configured secret, nonces are only valid for the lifetime of this process
+const secret = process.env.UPLOAD_AUTH_SECRET || randomBytes(32).toString("hex");
+
+function nonceMac(salt: string, issuedAt: string, expirationTime: string): string {
+  return createHmac("sha256", secret)
+    .update(`${salt}|${issuedAt}|${expirationTime}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+export function issueNonce(now = Date.now()): SignInNonce {
+  const salt = randomBytes(16).toString("hex");
+  const issuedAt = new Date(now).toISOString();
+  const expirationTime = new Date(now + NONCE_TTL_MS).toISOString();
+  return { nonce: salt + nonceMac(salt, issuedAt, expirationTime), issuedAt, expirationTime };
+}
+
+function isIssuedNonce({ nonce, issuedAt, expirationTime }: SignInFields): boolean {
+  if (!/^[0-9a-f]{64}$/.test(nonce)) return false;
+  const expected = Buffer.from(nonceMac(nonce.slice(0, 32), issuedAt, expirationTime));
+  return timingSafeEqual(expected, Buffer.from(nonce.slice(32)));
+}
+
+// Nonces already accepted, with the time they expire; expired ones are dropped
+// as new ones are claimed, since an expired message is refused anyway
+const usedNonces = new Map<string, number>();
+
+// Marks `nonce` as used; false when it already was
+function claimNonce(nonce: string, expiresAt: number, now: number): boolean {
+  usedNonces.forEach((expiry, used) => {
+    if (expiry <= now) usedNonces.delete(used);
+  });
+  if (usedNonces.has(nonce)) return false;
+  usedNonces.set(nonce, expiresAt);
+  return true;
+}
+
+export class UploadAuthError extends Error {}
+
+/**
+ * Verifies the signed sign-in message sent in the upload request headers and
+ * returns the wallet that signed it. Throws `UploadAuthError` when the headers
+ * are missing, the message was not issued by this server, has expired, is for
+ * another domain, the signature does not match the claimed wallet, or the
+ * message was already used for an earlier upload.
+ */
+export function verifyUploadRequest(req: Request, now = Date.now()): PublicKey {
+  const address = req.headers.get(SIWS_ADDRESS_HEADER);
+  const encodedMessage = req.headers.get(SIWS_MESSAGE_HEADER);
+  const signature = req.headers.get(SIWS_SIGNATURE_HEADER);
+  if (!address || !encodedMessage || !signature) {
+    throw new UploadAuthError("Sign in with your wallet to upload");
+  }
+
+  const message = decodeMessageHeader(encodedMessage);
+  const fields = parseSignInMessage(message);
+  if (!fields || fields.address !== address) {
+    throw new UploadAuthError("Malformed sign-in message");
+  }
+  if (!isIssuedNonce(fields)) {
+    throw new UploadAuthError("Unknown sign-in nonce");
+  }
+  if (Date.parse(fields.expirationTime) <= now) {
+    throw new UploadAuthError("Sign-in message expired");
+  }
+
+  const host = req.headers.get("x-forwarded-host") ?? req.headers.get("host");
+  if (host && fields.domain !== host) {
+    throw new UploadAuthError("Sign-in message is for another domain");
+  }
+
+  let wallet: PublicKey;
+  let signatureBytes: Uint8Array;
+  try {
+    wallet = new PublicKey(address);
+    signatureBytes = utils.bytes.bs58.decode(signature);
+    if (signatureBytes.length !== nacl.sign.signatureLength) throw new Error();
+  } catch {
+    throw new UploadAuthError("Malformed wallet address or signature");
+  }
+
+  const verified = nacl.sign.detached.verify(
+    new TextEncoder().encode(message),
+    signatureBytes,
+    wallet.toBytes()
+  );
+  if (!verified) {
+    throw new UploadAuthError("Invalid wallet signature");
+  }
+  if (!claimNonce(fields.nonce, Date.parse(fields.expirationTime), now)) {
+    throw new UploadAuthError("Sign-in nonce already used");
+  }
+
+  return wallet;
+}
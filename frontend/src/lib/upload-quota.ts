@@ -0,0 +1,283 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Per-wallet upload quotas consulted by the UploadThing middleware. The
+// middleware reserves the upload against the limits and `onUploadComplete`
+// confirms it; a reservation that is never confirmed, because the upload failed
+// or was abandoned, stops counting after `RESERVATION_TTL_MS`. Usage is kept in
+// a pluggable `QuotaStore`: in memory for a single server process, or in a JSON
+// file when quotas must survive restarts.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Comfortably longer than an upload of the largest allowed file takes
+const RESERVATION_TTL_MS = 15 * 60 * 1000;
+// How often the memory store sweeps out wallets with nothing left to count
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface UploadQuotaLimits {
+  uploadsPerHour: number;
+  uploadsPerDay: number;
+  bytesPerDay: number;
+}
+
+export type QuotaLimitName = keyof UploadQuotaLimits;
+
+export interface UploadRecord {
+  id: string;
+  at: number;
+  bytes: number;
+  // Set until the upload is confirmed; an unconfirmed record lapses at this time
+  pendingUntil?: number;
+}
+
+// A reserved upload, handed from the middleware to `onUploadComplete` in the metadata
+export interface QuotaReservation {
+  wallet: string;
+  id: string;
+  at: number;
+  bytes: number;
+}
+
+export type QuotaResult =
+  | { reservation: QuotaReservation; exceeded: null }
+  | { reservation: null; exceeded: QuotaExceeded };
+
+// Sent to the browser (via the router's error formatter) when an upload is refused
+export type QuotaExceeded = {
+  limit: QuotaLimitName;
+  max: number;
+  resetAt: string;
+};
+
+export interface QuotaStore {
+  // Uploads recorded for `wallet` at or after `since` that still count at `now`, oldest first
+  list(wallet: string, since: number, now: number): Promise<UploadRecord[]>;
+  add(wallet: string, record: UploadRecord): Promise<void>;
+  // Makes a reservation permanent, recording it again if it already lapsed
+  confirm(wallet: string, record: UploadRecord): Promise<void>;
+  // Drops a reservation so it no longer counts
+  release(wallet: string, id: string): Promise<void>;
+}
+
+function counts(record: UploadRecord, now: number): boolean {
+  return record.pendingUntil === undefined || record.pendingUntil > now;
+}
+
+// Nothing older than the longest window, and no lapsed reservation, is ever read again
+function isLive(record: UploadRecord, now: number): boolean {
+  return record.at >= now - DAY_MS && counts(record, now);
+}
+
+function confirmed(records: UploadRecord[], record: UploadRecord): UploadRecord[] {
+  const { pendingUntil: _, ...permanent } = record;
+  const found = records.some((r) => r.id === record.id);
+  return found
+    ? records.map((r) => (r.id === record.id ? permanent : r))
+    : [...records, permanent].sort((a, b) => a.at - b.at);
+}
+
+export class MemoryQuotaStore implements QuotaStore {
+  private records = new Map<string, UploadRecord[]>();
+  private lastPrune = 0;
+
+  async list(wallet: string, since: number, now: number): Promise<UploadRecord[]> {
+    return (this.records.get(wallet) ?? []).filter((record) => record.at >= since && counts(record, now));
+  }
+
+  async add(wallet: string, record: UploadRecord): Promise<void> {
+    this.prune(record.at);
+    const kept = (this.records.get(wallet) ?? []).filter((r) => isLive(r, record.at));
+    this.records.set(wallet, [...kept, record]);
+  }
+
+  async confirm(wallet: string, record: UploadRecord): Promise<void> {
+    this.records.set(wallet, confirmed(this.records.get(wallet) ?? [], record));
+  }
+
+  async release(wallet: string, id: string): Promise<void> {
+    const kept = (this.records.get(wallet) ?? []).filter((r) => r.id !== id);
+    if (kept.length > 0) {
+      this.records.set(wallet, kept);
+    } else {
+      this.records.delete(wallet);
+    }
+  }
+
+  // Forgets wallets whose every record has aged out, so the map only holds recent uploaders
+  private prune(now: number) {
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) return;
+    this.lastPrune = now;
+    this.records.forEach((records, wallet) => {
+      const kept = records.filter((r) => isLive(r, now));
+      if (kept.length > 0) {
+        this.records.set(wallet, kept);
+      } else {
+        this.records.delete(wallet);
+      }
+    });
+  }
+}
+
+export class FileQuotaStore implements QuotaStore {
+  // Serializes read-modify-write cycles on the file
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async read(): Promise<Record<string, UploadRecord[]>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (err: any) {
+      if (err.code === "ENOENT") return {};
+      throw err;
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async write(data: Record<string, UploadRecord[]>) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data));
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  list(wallet: string, since: number, now: number): Promise<UploadRecord[]> {
+    return this.enqueue(async () => {
+      const data = await this.read();
+      return (data[wallet] ?? []).filter((record) => record.at >= since && counts(record, now));
+    });
+  }
+
+  add(wallet: string, record: UploadRecord): Promise<void> {
+    return this.enqueue(async () => {
+      const data = await this.read();
+      for (const key of Object.keys(data)) {
+        data[key] = data[key].filter((r) => isLive(r, record.at));
+        if (data[key].length === 0) delete data[key];
+      }
+      data[wallet] = [...(data[wallet] ?? []), record];
+      await this.write(data);
+    });
+  }
+
+  confirm(wallet: string, record: UploadRecord): Promise<void> {
+    return this.enqueue(async () => {
+      const data = await this.read();
+      data[wallet] = confirmed(data[wallet] ?? [], record);
+      await this.write(data);
+    });
+  }
+
+  release(wallet: string, id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const data = await this.read();
+      data[wallet] = (data[wallet] ?? []).filter((r) => r.id !== id);
+      if (data[wallet].length === 0) delete data[wallet];
+      await this.write(data);
+    });
+  }
+}
+
+// Earliest time at which expiring the oldest records brings usage back within the limit
+function resetTime(records: UploadRecord[], windowMs: number, fits: (remaining: UploadRecord[]) => boolean, now: number) {
+  for (let i = 0; i < records.length; i++) {
+    if (fits(records.slice(i + 1))) return records[i].at + windowMs;
+  }
+  return now + windowMs;
+}
+
+export class UploadQuota {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: QuotaStore, readonly limits: UploadQuotaLimits) {}
+
+  /**
+   * Reserves an upload of `bytes` for `wallet` if it fits every limit, counting
+   * other reservations still in flight. Returns the reservation to `confirm`
+   * once the upload completes, or the first limit hit and when it resets.
+   */
+  reserve(wallet: string, bytes: number, now = Date.now()): Promise<QuotaResult> {
+    const result = this.pending.then(() => this.check(wallet, bytes, now));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  confirm({ wallet, id, at, bytes }: QuotaReservation): Promise<void> {
+    return this.store.confirm(wallet, { id, at, bytes });
+  }
+
+  // Gives a reservation back, e.g. when another check refuses the same upload
+  release({ wallet, id }: QuotaReservation): Promise<void> {
+    return this.store.release(wallet, id);
+  }
+
+  private async check(wallet: string, bytes: number, now: number): Promise<QuotaResult> {
+    const { uploadsPerHour, uploadsPerDay, bytesPerDay } = this.limits;
+    const lastDay = await this.store.list(wallet, now - DAY_MS, now);
+    const lastHour = lastDay.filter((record) => record.at >= now - HOUR_MS);
+    const totalBytes = (records: UploadRecord[]) => records.reduce((sum, r) => sum + r.bytes, 0);
+
+    const exceeded = (limit: QuotaLimitName, resetAt: number): QuotaResult => ({
+      reservation: null,
+      exceeded: {
+        limit,
+        max: this.limits[limit],
+        resetAt: new Date(resetAt).toISOString(),
+      },
+    });
+
+    if (lastHour.length >= uploadsPerHour) {
+      return exceeded("uploadsPerHour", resetTime(lastHour, HOUR_MS, (r) => r.length < uploadsPerHour, now));
+    }
+    if (lastDay.length >= uploadsPerDay) {
+      return exceeded("uploadsPerDay", resetTime(lastDay, DAY_MS, (r) => r.length < uploadsPerDay, now));
+    }
+    if (totalBytes(lastDay) + bytes > bytesPerDay) {
+      return exceeded("bytesPerDay", resetTime(lastDay, DAY_MS, (r) => totalBytes(r) + bytes <= bytesPerDay, now));
+    }
+
+    const id = randomBytes(8).toString("hex");
+    await this.store.add(wallet, { id, at: now, bytes, pendingUntil: now + RESERVATION_TTL_MS });
+    return { reservation: { wallet, id, at: now, bytes }, exceeded: null };
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const DEFAULT_LIMITS: UploadQuotaLimits = {
+  uploadsPerHour: 20,
+  uploadsPerDay: 100,
+  bytesPerDay: 100 * 1024 * 1024,
+};
+
+// Wallets without a profile may only upload the avatar for the profile they are creating
+export const SETUP_LIMITS: UploadQuotaLimits = {
+  uploadsPerHour: 3,
+  uploadsPerDay: 5,
+  bytesPerDay: 5 * 1024 * 1024,
+};
+
+// `<prefix>_PER_HOUR`, `<prefix>_PER_DAY` and `<prefix>_BYTES_PER_DAY` override `defaults`
+export function quotaLimitsFromEnv(prefix = "UPLOAD_QUOTA", defaults = DEFAULT_LIMITS): UploadQuotaLimits {
+  return {
+    uploadsPerHour: envNumber(`${prefix}_PER_HOUR`, defaults.uploadsPerHour),
+    uploadsPerDay: envNumber(`${prefix}_PER_DAY`, defaults.uploadsPerDay),
+    bytesPerDay: envNumber(`${prefix}_BYTES_PER_DAY`, defaults.bytesPerDay),
+  };
+}
+
+// `UPLOAD_QUOTA_FILE` switches from the in-memory store to a JSON file
+export function quotaStoreFromEnv(): QuotaStore {
+  const filePath = process.env.UPLOAD_QUOTA_FILE;
+  return filePath ? new FileQuotaStore(filePath) : new MemoryQuotaStore();
+}
@@ -0,0 +1,73 @@
+import { Adapter, WalletAdapterNetwork } from "@solana/wallet-adapter-base";
+import {
+  LedgerWalletAdapter,
+  PhantomWalletAdapter,
+  SolflareWalletAdapter,
+  UnsafeBurnerWalletAdapter,
+} from "@solana/wallet-adapter-wallets";
+import {
+  createDefaultAddressSelector,
+  createDefaultAuthorizationResultCache,
+  createDefaultWalletNotFoundHandler,
+  SolanaMobileWalletAdapter,
+} from "@solana-mobile/wallet-adapter-mobile";
+import { ClusterConfig } from "@/lib/solagram";
+
+export type WalletId = "phantom" | "solflare" | "ledger" | "mobile" | "burner";
+
+export const WALLET_IDS: WalletId[] = ["phantom", "solflare", "ledger", "mobile", "burner"];
+
+// `NEXT_PUBLIC_SOLANA_WALLETS` is a comma separated subset of `WALLET_IDS`;
+// unset or empty offers all of them. Unknown entries are ignored.
+export function enabledWalletIds(value = process.env.NEXT_PUBLIC_SOLANA_WALLETS): Set<WalletId> {
+  if (!value?.trim()) return new Set(WALLET_IDS);
+
+  const requested = value.split(",").map((id) => id.trim().toLowerCase());
+  return new Set(WALLET_IDS.filter((id) => requested.includes(id)));
+}
+
+// Wallets only know the public clusters; local and custom RPCs are treated as devnet
+function walletNetwork(cluster: ClusterConfig): WalletAdapterNetwork {
+  return cluster.name === "mainnet-beta" ? WalletAdapterNetwork.Mainnet : WalletAdapterNetwork.Devnet;
+}
+
+function isAndroidBrowser(): boolean {
+  return typeof navigator !== "undefined" && /android/i.test(navigator.userAgent);
+}
+
+/**
+ * Adapters offered in the wallet modal for `cluster`, besides the wallets that
+ * announce themselves through Wallet Standard (which are always listed).
+ *
+ * The Mobile Wallet Adapter is only added in Android browsers, the only place it
+ * works, and the burner wallet only on localnet: its keypair lives in memory
+ * and is gone after a reload, so it is only good for throwaway local accounts.
+ */
+export function createWalletAdapters(cluster: ClusterConfig, enabled = enabledWalletIds()): Adapter[] {
+  const network = walletNetwork(cluster);
+  const adapters: Adapter[] = [];
+
+  if (enabled.has("phantom")) {
+    adapters.push(new PhantomWalletAdapter());
+  }
+  if (enabled.has("solflare")) {
+    adapters.push(new SolflareWalletAdapter({ network }));
+  }
+  if (enabled.has("ledger")) {
+    adapters.push(new LedgerWalletAdapter());
+  }
+  if (enabled.has("mobile") && isAndroidBrowser()) {
+    adapters.push(new SolanaMobileWalletAdapter({
+      addressSelector: createDefaultAddressSelector(),
+      appIdentity: { name: "Solagram", uri: window.location.origin, icon: "/favicon.ico" },
+      authorizationResultCache: createDefaultAuthorizationResultCache(),
+      chain: network === WalletAdapterNetwork.Mainnet ? "solana:mainnet" : "solana:devnet",
+      onWalletNotFound: createDefaultWalletNotFoundHandler(),
+    }));
+  }
+  if (enabled.has("burner") && cluster.name === "localnet") {
+    adapters.push(new UnsafeBurnerWalletAdapter());
+  }
+
+  return adapters;
+}
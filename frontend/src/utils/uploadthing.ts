@@ -4,7 +4,27 @@ import {
   } from "@uploadthing/react";
   
   import type { OurFileRouter } from "@/app/api/uploadthing/core";
+  import type { QuotaExceeded } from "@/lib/upload-quota";
   
   export const UploadButton = generateUploadButton<OurFileRouter>();
   export const UploadDropzone = generateUploadDropzone<OurFileRouter>();
-  
\ No newline at end of file
+
+  const QUOTA_LIMITS: Record<QuotaExceeded["limit"], (max: number) => string> = {
+    uploadsPerHour: (max) => `${max} uploads per hour`,
+    uploadsPerDay: (max) => `${max} uploads per day`,
+    bytesPerDay: (max) => `${Math.round(max / (1024 * 1024))} MB per day`,
+  };
+
+  // Toast text for a failed upload; quota refusals include when uploads reopen
+  export function uploadErrorMessage(error: Error & { data?: { quota?: QuotaExceeded | null } }): string {
+    const quota = error.data?.quota;
+    if (!quota) return `Upload failed: ${error.message}`;
+
+    const resetAt = new Date(quota.resetAt).toLocaleString([], {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    return `Upload limit of ${QUOTA_LIMITS[quota.limit](quota.max)} reached. Try again after ${resetAt}.`;
+  }